@@ -0,0 +1,27 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import MemoryImport from '@/components/MemoryImport';
+
+export default function MemoryPage() {
+  const { data: session, status } = useSession();
+
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center min-h-[40vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!session?.user.isAdmin) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-lg font-semibold text-foreground mb-2">Admins only</h2>
+        <p className="text-muted-foreground">Translation memory imports are only available to admin accounts</p>
+      </div>
+    );
+  }
+
+  return <MemoryImport />;
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  saveConversationSession,
+  getConversationSessions,
+  getConversationSession,
+  deleteConversationSession
+} from '@/lib/cosmic';
+import { getCurrentUserId, ownershipError } from '@/lib/auth';
+import type { ConversationParticipant } from '@/types';
+
+// The signed-in user's saved conversations, or one of them with ?id=
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const conversationId = searchParams.get('id');
+
+    if (conversationId) {
+      const conversation = await getConversationSession(conversationId);
+      const denied = ownershipError(conversation, userId, 'Conversation');
+      if (denied) {
+        return NextResponse.json({ error: denied.error }, { status: denied.status });
+      }
+      return NextResponse.json({ conversation });
+    }
+
+    const conversations = await getConversationSessions(userId);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { participants, messages, status, duration } = body;
+
+    if (!Array.isArray(participants) || participants.length < 2) {
+      return NextResponse.json(
+        { error: 'At least two participants are required' },
+        { status: 400 }
+      );
+    }
+
+    if (participants.some((p: ConversationParticipant) => !p?.id || !p.name?.trim() || !p.language)) {
+      return NextResponse.json(
+        { error: 'Every participant needs an id, name and language' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one message is required' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await saveConversationSession({
+      participants,
+      messages,
+      status: status === 'active' ? 'active' : 'completed',
+      duration,
+      userId
+    });
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error) {
+    console.error('Save conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const conversationId = searchParams.get('id');
+
+    if (!conversationId) {
+      return NextResponse.json(
+        { error: 'Conversation ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await getConversationSession(conversationId);
+    const denied = ownershipError(conversation, userId, 'Conversation');
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    await deleteConversationSession(conversationId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversation' },
+      { status: 500 }
+    );
+  }
+}
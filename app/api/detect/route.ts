@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectLanguage, DEFAULT_MAX_CANDIDATES } from '@/lib/language-detection';
+import { validateTranslationInput } from '@/lib/utils';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { withUsageMetering } from '@/lib/usage';
+import { getCurrentUserId } from '@/lib/auth';
+
+const MAX_CANDIDATES = 10;
+
+// Detect the language of { text, maxCandidates? }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { text, maxCandidates = DEFAULT_MAX_CANDIDATES } = body;
+
+    const validation = validateTranslationInput(text);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(maxCandidates) || maxCandidates < 1 || maxCandidates > MAX_CANDIDATES) {
+      return NextResponse.json(
+        { error: `maxCandidates must be an integer between 1 and ${MAX_CANDIDATES}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = await enforceRateLimit(request, text.length);
+    if (!limit.allowed) {
+      return rateLimitResponse(limit);
+    }
+
+    const detection = await withUsageMetering(
+      { userId: await getCurrentUserId(), method: 'detect' },
+      () => detectLanguage(text, maxCandidates)
+    );
+    return NextResponse.json(detection, { headers: limit.headers });
+  } catch (error) {
+    console.error('Detect API error:', error);
+    return NextResponse.json(
+      { error: 'Language detection failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentTranslation } from '@/lib/cosmic';
+import { detectDocumentFormat, getDocumentMimeType } from '@/lib/documents';
+import { getCurrentUserId, ownershipError } from '@/lib/auth';
+
+// Download the translated file of one of the signed-in user's documents
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const documentId = searchParams.get('id');
+
+    if (!documentId) {
+      return NextResponse.json(
+        { error: 'Document ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const document = await getDocumentTranslation(documentId);
+    const denied = ownershipError(document, userId, 'Document');
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    const translatedFile = document?.metadata.translated_file;
+    if (document?.metadata.status !== 'completed' || !translatedFile?.url) {
+      return NextResponse.json(
+        { error: 'Document translation is not finished' },
+        { status: 409 }
+      );
+    }
+
+    const file = await fetch(translatedFile.url);
+    if (!file.ok || !file.body) {
+      throw new Error(`Failed to fetch translated file: ${file.status}`);
+    }
+
+    const format = detectDocumentFormat(translatedFile.name);
+
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': format ? getDocumentMimeType(format) : 'application/octet-stream',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(translatedFile.name)}`
+      }
+    });
+  } catch (error) {
+    console.error('Document download API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to download document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import {
+  getDocumentTranslation,
+  getDocumentTranslations,
+  createDocumentTranslation,
+  uploadMedia
+} from '@/lib/cosmic';
+import {
+  countDocumentCharacters,
+  detectDocumentFormat,
+  getDocumentMimeType,
+  parseDocument,
+  processDocument,
+  MAX_DOCUMENT_SIZE
+} from '@/lib/documents';
+import type { ParsedDocument } from '@/lib/documents';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { withUsageMetering } from '@/lib/usage';
+import { getCurrentUserId, ownershipError } from '@/lib/auth';
+
+// The signed-in user's documents, or one of them with ?id=
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    const { searchParams } = new URL(request.url);
+    const documentId = searchParams.get('id');
+
+    // Poll a single document
+    if (documentId) {
+      if (!userId) {
+        return NextResponse.json(
+          { error: 'Sign in required' },
+          { status: 401 }
+        );
+      }
+
+      const document = await getDocumentTranslation(documentId);
+      const denied = ownershipError(document, userId, 'Document');
+      if (denied) {
+        return NextResponse.json({ error: denied.error }, { status: denied.status });
+      }
+      return NextResponse.json({ document });
+    }
+
+    // Signed-out visitors have no documents
+    const documents = userId ? await getDocumentTranslations(userId) : [];
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error('Documents API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch documents' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in to translate documents' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const sourceLanguage = formData.get('sourceLanguage');
+    const targetLanguage = formData.get('targetLanguage');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'A file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof sourceLanguage !== 'string' || typeof targetLanguage !== 'string' || !sourceLanguage || !targetLanguage) {
+      return NextResponse.json(
+        { error: 'Source and target languages are required' },
+        { status: 400 }
+      );
+    }
+
+    const format = detectDocumentFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json(
+        { error: 'Unsupported file type. Upload a .txt, .md, .html or .docx file' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      return NextResponse.json(
+        { error: 'File must be smaller than 10 MB' },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    let parsed: ParsedDocument;
+    try {
+      parsed = await parseDocument(buffer, format);
+    } catch (error) {
+      console.error('Document parse error:', error);
+      return NextResponse.json(
+        { error: 'The file could not be read as a document' },
+        { status: 400 }
+      );
+    }
+
+    const characters = countDocumentCharacters(parsed);
+    if (characters === 0) {
+      return NextResponse.json(
+        { error: 'The document has no text to translate' },
+        { status: 400 }
+      );
+    }
+
+    // Charged for the text found, not the file size (DOCX images and zip overhead)
+    const limit = await enforceRateLimit(request, characters);
+    if (!limit.allowed) {
+      return rateLimitResponse(limit);
+    }
+
+    const original = await uploadMedia({ buffer, name: file.name, type: file.type || 'application/octet-stream' });
+
+    const document = await createDocumentTranslation({
+      originalFile: {
+        url: original.url,
+        name: file.name,
+        type: file.type || getDocumentMimeType(format),
+        size: file.size
+      },
+      sourceLanguage,
+      targetLanguage,
+      userId
+    });
+
+    // Translate in the background; clients poll GET /api/documents?id=...
+    after(() => withUsageMetering(
+      { userId, method: 'document', sourceLanguage, targetLanguage },
+      () => processDocument({
+        documentId: document.id,
+        parsed,
+        fileName: file.name,
+        format,
+        sourceLanguage,
+        targetLanguage,
+        userId
+      })
+    ));
+
+    return NextResponse.json({ document }, { status: 202, headers: limit.headers });
+  } catch (error) {
+    console.error('Document upload API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start document translation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationSession } from '@/lib/cosmic';
+import { getCurrentUserId, ownershipError } from '@/lib/auth';
+import {
+  EXPORT_FORMATS,
+  isExportFormat,
+  getExportMimeType,
+  exportFileName,
+  streamHistoryExport,
+  streamConversationExport
+} from '@/lib/export';
+import type { TranslationMethod } from '@/types';
+
+const METHODS: TranslationMethod[] = ['text', 'voice', 'document'];
+const MAX_SEARCH_LENGTH = 200;
+
+// Download the signed-in user's history (?type=history, the default) or saved
+// conversations (?type=conversations, one with ?id=) as ?format=csv, json,
+// tmx or xliff. History takes the same filters as GET /api/history; both take
+// sourceLanguage/targetLanguage and from/to. XLIFF needs both languages and
+// at least one translation to export.
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type') || 'history';
+    const format = searchParams.get('format') || '';
+
+    if (type !== 'history' && type !== 'conversations') {
+      return NextResponse.json(
+        { error: 'Type must be history or conversations' },
+        { status: 400 }
+      );
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const sourceLanguage = searchParams.get('sourceLanguage') || undefined;
+    const targetLanguage = searchParams.get('targetLanguage') || undefined;
+    if (format === 'xliff' && (!sourceLanguage || !targetLanguage)) {
+      return NextResponse.json(
+        { error: 'XLIFF exports need a sourceLanguage and targetLanguage' },
+        { status: 400 }
+      );
+    }
+
+    // ?from= and ?to= are dates or timestamps, inclusive
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return NextResponse.json(
+        { error: 'From and to must be valid dates' },
+        { status: 400 }
+      );
+    }
+    const range = {
+      from: from ? new Date(from).toISOString() : undefined,
+      // A bare date covers the whole day
+      to: to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to).toISOString() : undefined
+    };
+
+    let body: ReadableStream<Uint8Array> | null;
+
+    if (type === 'history') {
+      const method = searchParams.get('method');
+      if (method && !METHODS.includes(method as TranslationMethod)) {
+        return NextResponse.json(
+          { error: `Method must be one of: ${METHODS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const search = searchParams.get('q')?.trim();
+      if (search && search.length > MAX_SEARCH_LENGTH) {
+        return NextResponse.json(
+          { error: `Search must be at most ${MAX_SEARCH_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+
+      body = await streamHistoryExport(userId, {
+        ...range,
+        search: search || undefined,
+        sourceLanguage,
+        targetLanguage,
+        method: (method as TranslationMethod) || undefined,
+        sessionId: searchParams.get('sessionId') || undefined,
+        needsReview: searchParams.get('needsReview') === 'true'
+      }, format);
+    } else {
+      const conversationId = searchParams.get('id');
+      let conversation;
+
+      if (conversationId) {
+        conversation = await getConversationSession(conversationId);
+        const denied = ownershipError(conversation, userId, 'Conversation');
+        if (denied) {
+          return NextResponse.json({ error: denied.error }, { status: denied.status });
+        }
+      }
+
+      body = await streamConversationExport(userId, {
+        ...range,
+        sourceLanguage,
+        targetLanguage,
+        conversation: conversation || undefined
+      }, format);
+    }
+
+    // XLIFF has no valid empty document
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Nothing to export for this language pair' },
+        { status: 404 }
+      );
+    }
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': getExportMimeType(format),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(exportFileName(type, format))}`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Export API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getGlossaryEntries,
+  getGlossaryEntry,
+  saveGlossaryEntry,
+  updateGlossaryEntry,
+  deleteGlossaryEntry
+} from '@/lib/cosmic';
+import type { GlossaryEntryData } from '@/lib/cosmic';
+import { invalidateGlossaryCache } from '@/lib/glossary';
+import { getCurrentUserId, isCurrentUserAdmin } from '@/lib/auth';
+
+// The glossary applies to every translation, so only admins can change it
+async function adminError(): Promise<NextResponse | null> {
+  if (!(await getCurrentUserId())) {
+    return NextResponse.json(
+      { error: 'Sign in required' },
+      { status: 401 }
+    );
+  }
+
+  if (!(await isCurrentUserAdmin())) {
+    return NextResponse.json(
+      { error: 'Only admins can change the glossary' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// Validate and normalize a glossary entry request body
+function parseEntry(body: any): GlossaryEntryData | { error: string } {
+  const sourceTerm = typeof body?.sourceTerm === 'string' ? body.sourceTerm.trim() : '';
+  const targetTerm = typeof body?.targetTerm === 'string' ? body.targetTerm.trim() : '';
+  const doNotTranslate = Boolean(body?.doNotTranslate);
+
+  if (!sourceTerm || (!targetTerm && !doNotTranslate)) {
+    return { error: 'Source term and target term are required' };
+  }
+
+  if (!body?.sourceLanguage || !body?.targetLanguage) {
+    return { error: 'Source and target languages are required' };
+  }
+
+  return {
+    sourceTerm,
+    targetTerm,
+    sourceLanguage: body.sourceLanguage,
+    targetLanguage: body.targetLanguage,
+    caseSensitive: Boolean(body.caseSensitive),
+    doNotTranslate
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sourceLanguage = searchParams.get('sourceLanguage');
+    const targetLanguage = searchParams.get('targetLanguage');
+
+    const entries = await getGlossaryEntries(sourceLanguage || undefined, targetLanguage || undefined);
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Glossary API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch glossary' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const forbidden = await adminError();
+    if (forbidden) return forbidden;
+
+    const data = parseEntry(await request.json());
+    if ('error' in data) {
+      return NextResponse.json(
+        { error: data.error },
+        { status: 400 }
+      );
+    }
+
+    const entry = await saveGlossaryEntry(data);
+    invalidateGlossaryCache();
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    console.error('Save glossary entry API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save glossary entry' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const forbidden = await adminError();
+    if (forbidden) return forbidden;
+
+    const { searchParams } = new URL(request.url);
+    const entryId = searchParams.get('id');
+
+    if (!entryId) {
+      return NextResponse.json(
+        { error: 'Glossary entry ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only glossary entries: the id could name any object in the bucket
+    if (!(await getGlossaryEntry(entryId))) {
+      return NextResponse.json(
+        { error: 'Glossary entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = parseEntry(await request.json());
+    if ('error' in data) {
+      return NextResponse.json(
+        { error: data.error },
+        { status: 400 }
+      );
+    }
+
+    const entry = await updateGlossaryEntry(entryId, data);
+    invalidateGlossaryCache();
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Update glossary entry API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update glossary entry' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const forbidden = await adminError();
+    if (forbidden) return forbidden;
+
+    const { searchParams } = new URL(request.url);
+    const entryId = searchParams.get('id');
+
+    if (!entryId) {
+      return NextResponse.json(
+        { error: 'Glossary entry ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only glossary entries: the id could name any object in the bucket
+    if (!(await getGlossaryEntry(entryId))) {
+      return NextResponse.json(
+        { error: 'Glossary entry not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteGlossaryEntry(entryId);
+    invalidateGlossaryCache();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete glossary entry API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete glossary entry' },
+      { status: 500 }
+    );
+  }
+}
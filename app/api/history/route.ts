@@ -1,13 +1,98 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getTranslationHistory, deleteTranslation } from '@/lib/cosmic';
+import { getTranslationHistoryPage, getTranslation, saveTranslation, deleteTranslation } from '@/lib/cosmic';
+import { rememberTranslation, forgetTranslation } from '@/lib/translation-memory';
+import { getCurrentUserId, ownershipError } from '@/lib/auth';
+import { verifyConfidence } from '@/lib/confidence';
+import type { TranslationMethod } from '@/types';
+
+const METHODS: TranslationMethod[] = ['text', 'voice', 'document'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_LENGTH = 200;
 
 export async function GET(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
 
-    const translations = await getTranslationHistory(userId || undefined);
-    return NextResponse.json({ translations });
+    // ?id= reads a single translation
+    const translationId = searchParams.get('id');
+    if (translationId) {
+      const translation = await getTranslation(translationId);
+      const denied = ownershipError(translation, userId, 'Translation');
+      if (denied) {
+        return NextResponse.json({ error: denied.error }, { status: denied.status });
+      }
+      return NextResponse.json({ translation });
+    }
+
+    // Pages of ?limit= (default 20) from ?skip=, newest first
+    const limit = Number(searchParams.get('limit') || DEFAULT_PAGE_SIZE);
+    const skip = Number(searchParams.get('skip') || 0);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `Limit must be an integer between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(skip) || skip < 0) {
+      return NextResponse.json(
+        { error: 'Skip must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const method = searchParams.get('method');
+    if (method && !METHODS.includes(method as TranslationMethod)) {
+      return NextResponse.json(
+        { error: `Method must be one of: ${METHODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // ?from= and ?to= are dates or timestamps, inclusive
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return NextResponse.json(
+        { error: 'From and to must be valid dates' },
+        { status: 400 }
+      );
+    }
+
+    const search = searchParams.get('q')?.trim();
+    if (search && search.length > MAX_SEARCH_LENGTH) {
+      return NextResponse.json(
+        { error: `Search must be at most ${MAX_SEARCH_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const page = await getTranslationHistoryPage(userId, {
+      search: search || undefined,
+      sourceLanguage: searchParams.get('sourceLanguage') || undefined,
+      targetLanguage: searchParams.get('targetLanguage') || undefined,
+      method: (method as TranslationMethod) || undefined,
+      sessionId: searchParams.get('sessionId') || undefined,
+      from: from ? new Date(from).toISOString() : undefined,
+      // A bare date covers the whole day
+      to: to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to).toISOString() : undefined,
+      // ?needsReview=true lists low-confidence translations awaiting human review
+      needsReview: searchParams.get('needsReview') === 'true',
+      limit,
+      skip
+    });
+
+    return NextResponse.json(page);
   } catch (error) {
     console.error('History API error:', error);
     return NextResponse.json(
@@ -17,8 +102,65 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { sourceText, translatedText, sourceLanguage, targetLanguage, method, sessionId, confidenceToken } = body;
+
+    if (!sourceText || !translatedText || !sourceLanguage || !targetLanguage) {
+      return NextResponse.json(
+        { error: 'Source text, translated text and languages are required' },
+        { status: 400 }
+      );
+    }
+
+    // The score comes from the token /api/translate signed, never from the
+    // client; without a valid one the translation is flagged for review (and
+    // so kept out of translation memory)
+    const score = verifyConfidence(confidenceToken, { sourceText, translatedText, sourceLanguage, targetLanguage });
+
+    const translation = await saveTranslation({
+      sourceText,
+      translatedText,
+      sourceLanguage,
+      targetLanguage,
+      method: method || 'text',
+      userId,
+      sessionId,
+      confidence: score?.confidence,
+      confidenceMethod: score?.details.method,
+      needsReview: score ? score.details.needsReview : true
+    });
+    rememberTranslation(translation);
+
+    return NextResponse.json({ translation }, { status: 201 });
+  } catch (error) {
+    console.error('Save translation API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save translation' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
     const { searchParams } = new URL(request.url);
     const translationId = searchParams.get('id');
 
@@ -29,7 +171,15 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    // Only the owner's translations; any other object id is "not found"
+    const translation = await getTranslation(translationId);
+    const denied = ownershipError(translation, userId, 'Translation');
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
     await deleteTranslation(translationId);
+    if (translation) forgetTranslation(translation);
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Delete translation API error:', error);
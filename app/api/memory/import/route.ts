@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import {
+  detectMemoryFormat,
+  parseMemoryFile,
+  createMemoryImport,
+  getMemoryImport,
+  processMemoryImport,
+  MAX_MEMORY_FILE_SIZE
+} from '@/lib/memory-import';
+import { getCurrentUserId, isCurrentUserAdmin } from '@/lib/auth';
+
+// Poll an import started by POST: ?id=
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await getCurrentUserId())) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isCurrentUserAdmin())) {
+      return NextResponse.json(
+        { error: 'Translation memory imports are only available to admins' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const importId = searchParams.get('id');
+
+    if (!importId) {
+      return NextResponse.json(
+        { error: 'Import ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const job = getMemoryImport(importId);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Memory import API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import' },
+      { status: 500 }
+    );
+  }
+}
+
+// Import a TMX or XLIFF file (multipart "file") into translation memory. The
+// units are imported in the background; the job in the response is polled
+// with GET ?id= for its report of how many units were added, skipped and
+// invalid. Imported units are shared by everyone, so only admins can import.
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isCurrentUserAdmin())) {
+      return NextResponse.json(
+        { error: 'Translation memory imports are only available to admins' },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'A file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_MEMORY_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `File is too large (max ${MAX_MEMORY_FILE_SIZE / 1024 / 1024}MB)` },
+        { status: 413 }
+      );
+    }
+
+    const content = await file.text();
+    const format = detectMemoryFormat(file.name, content);
+    if (!format) {
+      return NextResponse.json(
+        { error: 'Unsupported file type. Use TMX or XLIFF (.tmx, .xlf, .xliff)' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseMemoryFile(content, format);
+    if (parsed.units.length === 0 && parsed.invalid.length === 0) {
+      return NextResponse.json(
+        { error: 'No translation units found in this file' },
+        { status: 400 }
+      );
+    }
+
+    const job = createMemoryImport(parsed, format, file.name);
+    after(() => processMemoryImport(job, parsed, userId));
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('Memory import API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import translation memory' },
+      { status: 500 }
+    );
+  }
+}
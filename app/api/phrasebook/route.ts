@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getTranslation,
+  getPhrasebookEntries,
+  getPhrasebookEntry,
+  savePhrasebookEntry,
+  updatePhrasebookEntry,
+  deletePhrasebookEntry
+} from '@/lib/cosmic';
+import { getCurrentUserId, ownershipError } from '@/lib/auth';
+
+const MAX_COLLECTION_LENGTH = 60;
+
+// Trimmed collection name, or an error message
+function parseCollection(value: unknown): { collection: string } | { error: string } {
+  if (value === undefined || value === null) return { collection: '' };
+  if (typeof value !== 'string') return { error: 'Collection must be a string' };
+
+  const collection = value.trim();
+  if (collection.length > MAX_COLLECTION_LENGTH) {
+    return { error: `Collection names can be at most ${MAX_COLLECTION_LENGTH} characters` };
+  }
+  return { collection };
+}
+
+// The signed-in user's phrasebook, optionally one ?collection=
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const collection = searchParams.get('collection');
+
+    const entries = await getPhrasebookEntries(userId, collection ?? undefined);
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Phrasebook API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch phrasebook' },
+      { status: 500 }
+    );
+  }
+}
+
+// Star one of the user's translations: { translationId, collection? }
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { translationId } = body;
+
+    if (!translationId || typeof translationId !== 'string') {
+      return NextResponse.json(
+        { error: 'Translation ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseCollection(body.collection);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const translation = await getTranslation(translationId);
+    const denied = ownershipError(translation, userId, 'Translation');
+    if (denied || !translation) {
+      return NextResponse.json(
+        { error: denied?.error || 'Translation not found' },
+        { status: denied?.status || 404 }
+      );
+    }
+
+    // Starring twice keeps the existing entry
+    const existing = (await getPhrasebookEntries(userId))
+      .find(entry => entry.metadata.translation === translationId);
+    if (existing) {
+      return NextResponse.json({ entry: existing });
+    }
+
+    const entry = await savePhrasebookEntry(translation, parsed.collection);
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    console.error('Save phrasebook entry API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save phrasebook entry' },
+      { status: 500 }
+    );
+  }
+}
+
+// Move an entry to another collection: ?id= with { collection }
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const entryId = searchParams.get('id');
+
+    if (!entryId) {
+      return NextResponse.json(
+        { error: 'Phrasebook entry ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseCollection((await request.json()).collection);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const denied = ownershipError(await getPhrasebookEntry(entryId), userId, 'Phrasebook entry');
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    const entry = await updatePhrasebookEntry(entryId, parsed.collection);
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Update phrasebook entry API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update phrasebook entry' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const entryId = searchParams.get('id');
+
+    if (!entryId) {
+      return NextResponse.json(
+        { error: 'Phrasebook entry ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const denied = ownershipError(await getPhrasebookEntry(entryId), userId, 'Phrasebook entry');
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+
+    await deletePhrasebookEntry(entryId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete phrasebook entry API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete phrasebook entry' },
+      { status: 500 }
+    );
+  }
+}
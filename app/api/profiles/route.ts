@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserProfile, saveUserProfile } from '@/lib/cosmic';
+import { getCurrentUserId } from '@/lib/auth';
+import type { UserProfile } from '@/types';
+
+// Profiles as sent to the browser, without the password hash
+function toPublicProfile(profile: UserProfile): UserProfile {
+  const { password_hash, ...metadata } = profile.metadata;
+  return { ...profile, metadata };
+}
+
+// The signed-in user's profile
+export async function GET() {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const profile = await getUserProfile(userId);
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ profile: toPublicProfile(profile) });
+  } catch (error) {
+    console.error('Profile API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch profile' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { email, preferredLanguages, voiceSettings, theme, autoDetect, saveHistory } = body;
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    const profile = await saveUserProfile({
+      userId,
+      email,
+      preferredLanguages: preferredLanguages || [],
+      voiceSettings: voiceSettings || { speed: 1, pitch: 1, volume: 1 },
+      theme: theme || 'system',
+      autoDetect: autoDetect ?? false,
+      saveHistory: saveHistory ?? true
+    });
+    return NextResponse.json({ profile: toPublicProfile(profile) });
+  } catch (error) {
+    console.error('Save profile API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save profile' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoom, subscribe, RoomError } from '@/lib/rooms';
+import { encodeSSE, SSE_HEADERS } from '@/lib/sse';
+
+// Keep idle connections from being closed by proxies
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+// Room events for the participant holding ?token=: a "snapshot" event, then "participant-joined",
+// "participant-left", "message" and finally "closed"
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const code = searchParams.get('code');
+  const token = searchParams.get('token');
+
+  if (!code || !token) {
+    return NextResponse.json(
+      { error: 'Room code and participant token are required' },
+      { status: 400 }
+    );
+  }
+
+  // Set once the stream is closed by us or cancelled by the client; nothing
+  // may be enqueued or closed after that
+  let closed = false;
+  let cleanup = () => {};
+
+  try {
+    // Throws a 403 RoomError for an unknown token
+    const snapshot = getRoom(code, token);
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: Uint8Array) => {
+          if (closed) return;
+          try {
+            controller.enqueue(chunk);
+          } catch (error) {
+            // The stream went away without cancel() running first
+            close();
+          }
+        };
+
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          try {
+            controller.close();
+          } catch (error) {
+            // Already closed or errored
+          }
+        };
+
+        const unsubscribe = subscribe(code, token, (event, data) => {
+          send(encodeSSE(event, data));
+          if (event === 'closed') close();
+        });
+
+        const heartbeat = setInterval(() => {
+          send(new TextEncoder().encode(': heartbeat\n\n'));
+        }, HEARTBEAT_INTERVAL_MS);
+
+        let cleanedUp = false;
+        cleanup = () => {
+          if (cleanedUp) return;
+          cleanedUp = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          request.signal.removeEventListener('abort', close);
+        };
+
+        send(encodeSSE('snapshot', snapshot));
+        request.signal.addEventListener('abort', close);
+      },
+      cancel() {
+        closed = true;
+        cleanup();
+      }
+    });
+
+    return new Response(body, { headers: SSE_HEADERS });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Room events API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to open room events' },
+      { status: 500 }
+    );
+  }
+}
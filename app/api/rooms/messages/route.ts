@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { postMessage, RoomError } from '@/lib/rooms';
+import { validateTranslationInput } from '@/lib/utils';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+
+// Send a message: { code, token, text }; it reaches everyone over the events stream
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { code, token, text } = body;
+
+    if (!code || !token) {
+      return NextResponse.json(
+        { error: 'Room code and participant token are required' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateTranslationInput(text);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const limit = await enforceRateLimit(request, text.length);
+    if (!limit.allowed) {
+      return rateLimitResponse(limit);
+    }
+
+    const message = await postMessage(code, token, text);
+    return NextResponse.json({ message }, { status: 201, headers: limit.headers });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Room message API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 }
+    );
+  }
+}
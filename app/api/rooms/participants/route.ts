@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { joinRoom, leaveRoom, RoomError } from '@/lib/rooms';
+
+// Join a room: { code, name, language, voice? }. The token in the response
+// identifies the participant in later requests; keep it private.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { code, name, language, voice } = body;
+
+    if (!code || !name?.trim() || !language) {
+      return NextResponse.json(
+        { error: 'Room code, name and language are required' },
+        { status: 400 }
+      );
+    }
+
+    const { participant, token } = joinRoom(code, { name: name.trim(), language, voice });
+    return NextResponse.json({ participant, token }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Join room API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to join room' },
+      { status: 500 }
+    );
+  }
+}
+
+// Leave a room; the last participant out closes and saves it
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const code = searchParams.get('code');
+    const token = searchParams.get('token');
+
+    if (!code || !token) {
+      return NextResponse.json(
+        { error: 'Room code and participant token are required' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await leaveRoom(code, token);
+    return NextResponse.json({ success: true, conversation });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Leave room API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to leave room' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRoom, getRoom, closeRoom, RoomError } from '@/lib/rooms';
+import { getCurrentUserId } from '@/lib/auth';
+import { enforceRateLimit, getClientIp, rateLimitResponse } from '@/lib/rate-limit';
+
+// Create a room; participants then join with its code. A signed-in creator
+// owns the conversation saved when the room closes.
+export async function POST(request: NextRequest) {
+  try {
+    // Nothing is translated yet, so only the request counts
+    const limit = await enforceRateLimit(request, 0);
+    if (!limit.allowed) {
+      return rateLimitResponse(limit);
+    }
+
+    const userId = await getCurrentUserId();
+    const room = createRoom(userId ? `user:${userId}` : `ip:${getClientIp(request)}`, userId || undefined);
+    return NextResponse.json({ room }, { status: 201, headers: limit.headers });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Create room API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create room' },
+      { status: 500 }
+    );
+  }
+}
+
+// The room as the participant holding ?token= sees it
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const code = searchParams.get('code');
+    const token = searchParams.get('token');
+
+    if (!code || !token) {
+      return NextResponse.json(
+        { error: 'Room code and participant token are required' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ room: getRoom(code, token) });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Room API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch room' },
+      { status: 500 }
+    );
+  }
+}
+
+// Close the room for everyone and save the conversation
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const code = searchParams.get('code');
+    const token = searchParams.get('token');
+
+    if (!code || !token) {
+      return NextResponse.json(
+        { error: 'Room code and participant token are required' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await closeRoom(code, token);
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Close room API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to close room' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { synthesizeSpeech, getSpeechMimeType } from '@/lib/synthesis';
+import { getLanguageTag } from '@/lib/languages';
+import { validateTranslationInput } from '@/lib/utils';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+
+const FORMATS = ['mp3', 'wav'];
+const MIN_SPEED = 0.25;
+const MAX_SPEED = 4;
+
+// Speak { text, language, voice?, speed?, format?, download? } as audio
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { text, language, voice, speed = 1, format = 'mp3', download = false } = body;
+
+    const validation = validateTranslationInput(text);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    if (typeof language !== 'string' || !language) {
+      return NextResponse.json(
+        { error: 'Language is required' },
+        { status: 400 }
+      );
+    }
+
+    if (voice !== undefined && typeof voice !== 'string') {
+      return NextResponse.json(
+        { error: 'Voice must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof speed !== 'number' || speed < MIN_SPEED || speed > MAX_SPEED) {
+      return NextResponse.json(
+        { error: `Speed must be between ${MIN_SPEED} and ${MAX_SPEED}` },
+        { status: 400 }
+      );
+    }
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = await enforceRateLimit(request, text.length);
+    if (!limit.allowed) {
+      return rateLimitResponse(limit);
+    }
+
+    const speech = await synthesizeSpeech({
+      text,
+      language: getLanguageTag(language),
+      voice: voice || undefined,
+      speed,
+      format
+    });
+
+    const headers: Record<string, string> = {
+      ...limit.headers,
+      'Content-Type': getSpeechMimeType(speech.format),
+      'Content-Length': String(speech.audio.length),
+      'ETag': `"${speech.key}"`,
+      'X-Speech-Cache': speech.cached ? 'HIT' : 'MISS'
+    };
+
+    if (download) {
+      const name = `${language.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-speech.${speech.format}`;
+      headers['Content-Disposition'] = `attachment; filename*=UTF-8''${encodeURIComponent(name)}`;
+    }
+
+    return new Response(new Uint8Array(speech.audio), { headers });
+  } catch (error) {
+    console.error('Speak API error:', error);
+    return NextResponse.json(
+      { error: 'Speech synthesis failed. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  detectSubtitleFormat,
+  getSubtitleMimeType,
+  parseSubtitles,
+  serializeSubtitles,
+  translateSubtitles,
+  MAX_SUBTITLE_SIZE
+} from '@/lib/subtitles';
+import { translatedFileName } from '@/lib/documents';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { withUsageMetering } from '@/lib/usage';
+import { getCurrentUserId } from '@/lib/auth';
+
+// Translate an uploaded SRT or WebVTT file and return it in the same format
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const sourceLanguage = formData.get('sourceLanguage');
+    const targetLanguage = formData.get('targetLanguage');
+    const maxCharsPerLine = Number(formData.get('maxCharsPerLine')) || undefined;
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'A subtitle file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof sourceLanguage !== 'string' || typeof targetLanguage !== 'string' || !sourceLanguage || !targetLanguage) {
+      return NextResponse.json(
+        { error: 'Source and target languages are required' },
+        { status: 400 }
+      );
+    }
+
+    const format = detectSubtitleFormat(file.name);
+    if (!format) {
+      return NextResponse.json(
+        { error: 'Unsupported file type. Upload a .srt or .vtt file' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_SUBTITLE_SIZE) {
+      return NextResponse.json(
+        { error: 'Subtitle file must be smaller than 2 MB' },
+        { status: 400 }
+      );
+    }
+
+    if (maxCharsPerLine !== undefined && maxCharsPerLine < 10) {
+      return NextResponse.json(
+        { error: 'Max characters per line must be at least 10' },
+        { status: 400 }
+      );
+    }
+
+    const content = await file.text();
+    const limit = await enforceRateLimit(request, content.length);
+    if (!limit.allowed) {
+      return rateLimitResponse(limit);
+    }
+
+    const parsed = parseSubtitles(content, format);
+    if (format === 'vtt' && !parsed.blocks[0]?.lines[0]?.startsWith('WEBVTT')) {
+      return NextResponse.json(
+        { error: 'Invalid WebVTT file: missing WEBVTT header' },
+        { status: 400 }
+      );
+    }
+
+    const userId = await getCurrentUserId();
+    const translated = await withUsageMetering(
+      { userId, method: 'subtitles', sourceLanguage, targetLanguage },
+      () => translateSubtitles(parsed, sourceLanguage, targetLanguage, { maxCharsPerLine, userId })
+    );
+    const name = translatedFileName(file.name, targetLanguage);
+
+    return new Response(serializeSubtitles(translated), {
+      headers: {
+        'Content-Type': getSubtitleMimeType(format),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(name)}`,
+        ...limit.headers
+      }
+    });
+  } catch (error) {
+    console.error('Subtitle translation API error:', error);
+    return NextResponse.json(
+      { error: 'Subtitle translation failed. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
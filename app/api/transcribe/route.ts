@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTranscriptionProvider } from '@/lib/transcription-providers';
+import { getLanguageTag } from '@/lib/languages';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+
+// Whisper's upload limit
+const MAX_AUDIO_SIZE = 25 * 1024 * 1024;
+
+// Transcribe recorded speech: multipart { audio, language? }
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const audio = formData.get('audio');
+    const language = formData.get('language');
+
+    if (!(audio instanceof File) || audio.size === 0) {
+      return NextResponse.json(
+        { error: 'An audio recording is required' },
+        { status: 400 }
+      );
+    }
+
+    // MediaRecorder produces audio/webm or audio/ogg in most browsers, and
+    // some label audio-only WebM as video/webm
+    if (audio.type && !audio.type.startsWith('audio/') && audio.type !== 'video/webm') {
+      return NextResponse.json(
+        { error: 'Unsupported audio type' },
+        { status: 400 }
+      );
+    }
+
+    if (audio.size > MAX_AUDIO_SIZE) {
+      return NextResponse.json(
+        { error: 'Recording must be smaller than 25 MB' },
+        { status: 400 }
+      );
+    }
+
+    // The transcript's length isn't known yet, so only the request is counted
+    const limit = await enforceRateLimit(request, 0);
+    if (!limit.allowed) {
+      return rateLimitResponse(limit);
+    }
+
+    const tag = typeof language === 'string' && language ? getLanguageTag(language) : 'und';
+
+    const transcription = await getTranscriptionProvider().transcribe({
+      audio,
+      language: tag === 'und' ? undefined : tag.split('-')[0]
+    });
+
+    return NextResponse.json({
+      text: transcription.text,
+      model: transcription.model
+    }, { headers: limit.headers });
+  } catch (error) {
+    console.error('Transcribe API error:', error);
+    return NextResponse.json(
+      { error: 'Transcription failed. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
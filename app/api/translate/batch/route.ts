@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { batchTranslate } from '@/lib/translation';
+import { validateTranslationInput } from '@/lib/utils';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { withUsageMetering } from '@/lib/usage';
+import { getCurrentUserId } from '@/lib/auth';
+import type { BatchTranslationItem, BatchTranslationResult } from '@/types';
+
+const MAX_BATCH_SIZE = 500;
+const MAX_CONCURRENCY = 8;
+
+// Translate many segments at once: { sourceLanguage, targetLanguage, segments: [{ id, text }] }
+// Always answers with one result per segment, in order; failed segments carry an error
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sourceLanguage, targetLanguage, segments, concurrency } = body;
+
+    if (!sourceLanguage || !targetLanguage) {
+      return NextResponse.json(
+        { error: 'Source and target languages are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(segments) || segments.length === 0) {
+      return NextResponse.json(
+        { error: 'Segments must be a non-empty array of { id, text }' },
+        { status: 400 }
+      );
+    }
+
+    if (segments.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `A batch can contain at most ${MAX_BATCH_SIZE} segments` },
+        { status: 400 }
+      );
+    }
+
+    const ids = new Set<string>();
+    for (const segment of segments) {
+      const id = segment?.id;
+      if ((typeof id !== 'string' && typeof id !== 'number') || String(id).length === 0) {
+        return NextResponse.json(
+          { error: 'Every segment needs a string or numeric id' },
+          { status: 400 }
+        );
+      }
+      if (ids.has(String(id))) {
+        return NextResponse.json(
+          { error: `Duplicate segment id: ${id}` },
+          { status: 400 }
+        );
+      }
+      ids.add(String(id));
+    }
+
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      return NextResponse.json(
+        { error: 'Concurrency must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Invalid segments fail on their own; the rest are translated
+    const results: BatchTranslationResult[] = new Array(segments.length);
+    const valid: { index: number; item: BatchTranslationItem }[] = [];
+
+    segments.forEach((segment: { id: string | number; text?: unknown }, index: number) => {
+      const id = String(segment.id);
+      const text = typeof segment.text === 'string' ? segment.text : '';
+      const validation = validateTranslationInput(text);
+
+      if (validation.isValid) {
+        valid.push({ index, item: { id, text } });
+      } else {
+        results[index] = { id, success: false, error: validation.error || 'Invalid text' };
+      }
+    });
+
+    const characters = valid.reduce((total, { item }) => total + item.text.length, 0);
+    const limit = await enforceRateLimit(request, characters);
+    if (!limit.allowed) {
+      return rateLimitResponse(limit);
+    }
+
+    const userId = await getCurrentUserId();
+    const translated = await withUsageMetering(
+      { userId, method: 'batch', sourceLanguage, targetLanguage },
+      () => batchTranslate(
+        valid.map(({ item }) => item),
+        sourceLanguage,
+        targetLanguage,
+        concurrency ? Math.min(concurrency, MAX_CONCURRENCY) : undefined,
+        { userId }
+      )
+    );
+
+    valid.forEach(({ index }, i) => {
+      const result = translated[i];
+      if (result) results[index] = result;
+    });
+
+    const succeeded = results.filter(result => result.success).length;
+
+    return NextResponse.json({
+      sourceLanguage,
+      targetLanguage,
+      results,
+      summary: {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded
+      }
+    }, { headers: limit.headers });
+
+  } catch (error) {
+    console.error('Batch translation API error:', error);
+    return NextResponse.json(
+      { error: 'Batch translation failed. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
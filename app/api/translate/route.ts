@@ -1,11 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { translateText, detectLanguage } from '@/lib/translation';
+import { translateText, streamTranslateText } from '@/lib/translation';
+import { detectLanguage } from '@/lib/language-detection';
 import { validateTranslationInput } from '@/lib/utils';
+import { encodeSSE, SSE_HEADERS } from '@/lib/sse';
+import { enforceRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { UsageMeter } from '@/lib/usage';
+import { getCurrentUserId } from '@/lib/auth';
+import { signConfidence } from '@/lib/confidence';
+import type { LanguageDetection, TranslationResponse } from '@/types';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { text, sourceLanguage, targetLanguage, autoDetect } = body;
+    const { text, sourceLanguage, targetLanguage, autoDetect, stream } = body;
 
     // Validate input
     const validation = validateTranslationInput(text);
@@ -23,32 +30,91 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const limit = await enforceRateLimit(request, text.length);
+    if (!limit.allowed) {
+      return rateLimitResponse(limit);
+    }
+
     let actualSourceLang = sourceLanguage;
+    let detection: LanguageDetection | undefined;
+    const userId = await getCurrentUserId();
+    const usage = new UsageMeter({
+      userId,
+      method: 'text',
+      sourceLanguage,
+      targetLanguage
+    });
 
-    // Auto-detect language if requested
+    // Auto-detect language if requested; only switch on an unambiguous match
+    // so the source language is always one of the known languages
     if (autoDetect && text.length > 10) {
-      try {
-        const detectedLang = await detectLanguage(text);
-        if (detectedLang && detectedLang !== 'Unknown') {
-          actualSourceLang = detectedLang;
-        }
-      } catch (error) {
-        console.error('Language detection failed:', error);
-        // Continue with provided source language
+      detection = await usage.run(() => detectLanguage(text));
+      if (detection.unambiguous && detection.language) {
+        actualSourceLang = detection.language.title;
       }
     }
+    usage.context.sourceLanguage = actualSourceLang;
+
+    const detectedLanguage = actualSourceLang !== sourceLanguage ? actualSourceLang : undefined;
+
+    // Streaming mode: "delta" events with partial text, then one "done" event
+    if (stream) {
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          try {
+            const result = await usage.run(() => streamTranslateText(text, actualSourceLang, targetLanguage, (delta) => {
+              controller.enqueue(encodeSSE('delta', { text: delta }));
+            }, { userId }));
+
+            controller.enqueue(encodeSSE('done', {
+              translatedText: result.translatedText,
+              sourceLanguage: actualSourceLang,
+              targetLanguage: result.targetLanguage,
+              confidence: result.confidence,
+              confidenceDetails: result.confidenceDetails,
+              alternatives: result.alternatives,
+              detectedLanguage,
+              detection,
+              source: result.source,
+              memoryMatches: result.memoryMatches,
+              glossaryViolations: result.glossaryViolations,
+              confidenceToken: signConfidence(text, result)
+            }));
+          } catch (error) {
+            console.error('Streaming translation API error:', error);
+            controller.enqueue(encodeSSE('error', { error: 'Translation failed. Please try again.' }));
+          } finally {
+            usage.save();
+            controller.close();
+          }
+        }
+      });
+
+      return new Response(body, { headers: { ...SSE_HEADERS, ...limit.headers } });
+    }
 
     // Perform translation
-    const result = await translateText(text, actualSourceLang, targetLanguage);
+    let result: TranslationResponse;
+    try {
+      result = await usage.run(() => translateText(text, actualSourceLang, targetLanguage, { userId }));
+    } finally {
+      usage.save();
+    }
 
     return NextResponse.json({
       translatedText: result.translatedText,
       sourceLanguage: actualSourceLang,
       targetLanguage: result.targetLanguage,
       confidence: result.confidence,
+      confidenceDetails: result.confidenceDetails,
       alternatives: result.alternatives,
-      detectedLanguage: actualSourceLang !== sourceLanguage ? actualSourceLang : undefined
-    });
+      detectedLanguage,
+      detection,
+      source: result.source,
+      memoryMatches: result.memoryMatches,
+      glossaryViolations: result.glossaryViolations,
+      confidenceToken: signConfidence(text, result)
+    }, { headers: limit.headers });
 
   } catch (error) {
     console.error('Translation API error:', error);
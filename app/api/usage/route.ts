@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageRecords } from '@/lib/cosmic';
+import { summarizeUsage } from '@/lib/usage';
+import { getCurrentUserId, isCurrentUserAdmin } from '@/lib/auth';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Token usage and spend for ?from=YYYY-MM-DD&to=YYYY-MM-DD (UTC, inclusive;
+// the last 30 days by default), by day, user, language pair and method. Admins only.
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Sign in required' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isCurrentUserAdmin())) {
+      return NextResponse.json(
+        { error: 'Usage is only available to admins' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const today = new Date().toISOString().slice(0, 10);
+    const isValidDate = (date: string) => DATE_PATTERN.test(date) && !isNaN(Date.parse(date));
+
+    // Check `to` before the default `from` is worked out from it
+    const to = searchParams.get('to') || today;
+    if (!isValidDate(to)) {
+      return NextResponse.json(
+        { error: 'Dates must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    const from = searchParams.get('from')
+      || new Date(Date.parse(to) - (DEFAULT_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+    if (!isValidDate(from)) {
+      return NextResponse.json(
+        { error: 'Dates must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+    if (days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `The range must cover between 1 and ${MAX_DAYS} days, with from before to` },
+        { status: 400 }
+      );
+    }
+
+    const records = await getUsageRecords(from, to);
+    return NextResponse.json(summarizeUsage(records, from, to));
+  } catch (error) {
+    console.error('Usage API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,33 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Globe, MessageSquare, Clock, Mic, FileText, Users } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { Globe, MessageSquare, Clock, Mic, FileText, Users, BookOpen, SlidersHorizontal, Star } from 'lucide-react';
 import TranslationInterface from '@/components/TranslationInterface';
 import TranslationHistory from '@/components/TranslationHistory';
+import Phrasebook from '@/components/Phrasebook';
 import ConversationMode from '@/components/ConversationMode';
+import ConversationRoom from '@/components/ConversationRoom';
 import QuickAccess from '@/components/QuickAccess';
-import { getLanguages, getTranslationHistory } from '@/lib/cosmic';
+import GlossaryManager from '@/components/GlossaryManager';
+import DocumentTranslator from '@/components/DocumentTranslator';
+import VoiceSettingsPanel from '@/components/VoiceSettingsPanel';
+import { getLanguages } from '@/lib/api';
 import { getSpeechSupport } from '@/lib/speech';
-import type { Language, Translation } from '@/types';
+import { getDefaultLanguages, registerLanguages } from '@/lib/languages';
+import type { Language, Translation, PhrasebookEntry } from '@/types';
 
 export default function HomePage() {
-  const [activeTab, setActiveTab] = useState<'translate' | 'conversation' | 'history'>('translate');
+  const [activeTab, setActiveTab] = useState<'translate' | 'conversation' | 'documents' | 'history' | 'phrasebook' | 'glossary' | 'voice'>('translate');
   const [languages, setLanguages] = useState<Language[]>([]);
-  const [translations, setTranslations] = useState<Translation[]>([]);
   const [sourceLang, setSourceLang] = useState('English');
   const [targetLang, setTargetLang] = useState('Spanish');
   const [isLoading, setIsLoading] = useState(true);
+  const [conversationMode, setConversationMode] = useState<'device' | 'room'>('device');
+  const [roomCode, setRoomCode] = useState('');
+
+  const { data: session } = useSession();
+  const userId = session?.user.id;
 
   const speechSupport = getSpeechSupport();
 
@@ -27,104 +38,10 @@ export default function HomePage() {
         
         // Load languages (with fallback if none exist in CMS)
         const fetchedLanguages = await getLanguages();
-        const defaultLanguages: Language[] = fetchedLanguages.length > 0 ? fetchedLanguages : [
-          {
-            id: '1',
-            slug: 'english',
-            title: 'English',
-            type: 'languages',
-            created_at: new Date().toISOString(),
-            modified_at: new Date().toISOString(),
-            metadata: {
-              code: 'en',
-              native_name: 'English',
-              flag_emoji: '🇺🇸',
-              voice_supported: true,
-              translation_quality: 'high'
-            }
-          },
-          {
-            id: '2',
-            slug: 'spanish',
-            title: 'Spanish',
-            type: 'languages',
-            created_at: new Date().toISOString(),
-            modified_at: new Date().toISOString(),
-            metadata: {
-              code: 'es',
-              native_name: 'Español',
-              flag_emoji: '🇪🇸',
-              voice_supported: true,
-              translation_quality: 'high'
-            }
-          },
-          {
-            id: '3',
-            slug: 'french',
-            title: 'French',
-            type: 'languages',
-            created_at: new Date().toISOString(),
-            modified_at: new Date().toISOString(),
-            metadata: {
-              code: 'fr',
-              native_name: 'Français',
-              flag_emoji: '🇫🇷',
-              voice_supported: true,
-              translation_quality: 'high'
-            }
-          },
-          {
-            id: '4',
-            slug: 'german',
-            title: 'German',
-            type: 'languages',
-            created_at: new Date().toISOString(),
-            modified_at: new Date().toISOString(),
-            metadata: {
-              code: 'de',
-              native_name: 'Deutsch',
-              flag_emoji: '🇩🇪',
-              voice_supported: true,
-              translation_quality: 'high'
-            }
-          },
-          {
-            id: '5',
-            slug: 'chinese',
-            title: 'Chinese',
-            type: 'languages',
-            created_at: new Date().toISOString(),
-            modified_at: new Date().toISOString(),
-            metadata: {
-              code: 'zh',
-              native_name: '中文',
-              flag_emoji: '🇨🇳',
-              voice_supported: true,
-              translation_quality: 'high'
-            }
-          },
-          {
-            id: '6',
-            slug: 'japanese',
-            title: 'Japanese',
-            type: 'languages',
-            created_at: new Date().toISOString(),
-            modified_at: new Date().toISOString(),
-            metadata: {
-              code: 'ja',
-              native_name: '日本語',
-              flag_emoji: '🇯🇵',
-              voice_supported: true,
-              translation_quality: 'high'
-            }
-          }
-        ];
+        const defaultLanguages = fetchedLanguages.length > 0 ? fetchedLanguages : getDefaultLanguages();
+        registerLanguages(defaultLanguages);
 
         setLanguages(defaultLanguages);
-
-        // Load translation history
-        const fetchedTranslations = await getTranslationHistory();
-        setTranslations(fetchedTranslations);
       } catch (error) {
         console.error('Failed to load data:', error);
       } finally {
@@ -135,17 +52,23 @@ export default function HomePage() {
     loadData();
   }, []);
 
+  // Join links look like /?room=CODE
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('room');
+    if (code) {
+      setRoomCode(code);
+      setConversationMode('room');
+      setActiveTab('conversation');
+    }
+  }, []);
+
   const handleLanguagePairSelect = (source: string, target: string) => {
     setSourceLang(source);
     setTargetLang(target);
     setActiveTab('translate');
   };
 
-  const handleTranslationDelete = (deletedId: string) => {
-    setTranslations(prev => prev.filter(t => t.id !== deletedId));
-  };
-
-  const handleTranslationReuse = (translation: Translation) => {
+  const handleTranslationReuse = (translation: Translation | PhrasebookEntry) => {
     setSourceLang(translation.metadata.source_language);
     setTargetLang(translation.metadata.target_language);
     setActiveTab('translate');
@@ -191,7 +114,7 @@ export default function HomePage() {
             <div className="text-center">
               <Users className="w-8 h-8 text-primary mx-auto mb-2" />
               <h3 className="font-semibold text-foreground">Conversation Mode</h3>
-              <p className="text-sm text-muted-foreground">Real-time two-way conversations</p>
+              <p className="text-sm text-muted-foreground">Real-time multi-party conversations</p>
             </div>
           </div>
         </div>
@@ -226,6 +149,18 @@ export default function HomePage() {
             <MessageSquare className="w-4 h-4" />
             Conversation
           </button>
+
+          <button
+            onClick={() => setActiveTab('documents')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-md transition-colors ${
+              activeTab === 'documents'
+                ? 'bg-background text-foreground shadow-sm'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            <FileText className="w-4 h-4" />
+            Documents
+          </button>
           
           <button
             onClick={() => setActiveTab('history')}
@@ -238,6 +173,42 @@ export default function HomePage() {
             <Clock className="w-4 h-4" />
             History
           </button>
+
+          <button
+            onClick={() => setActiveTab('phrasebook')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-md transition-colors ${
+              activeTab === 'phrasebook'
+                ? 'bg-background text-foreground shadow-sm'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            <Star className="w-4 h-4" />
+            Phrasebook
+          </button>
+
+          <button
+            onClick={() => setActiveTab('glossary')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-md transition-colors ${
+              activeTab === 'glossary'
+                ? 'bg-background text-foreground shadow-sm'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            <BookOpen className="w-4 h-4" />
+            Glossary
+          </button>
+
+          <button
+            onClick={() => setActiveTab('voice')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-md transition-colors ${
+              activeTab === 'voice'
+                ? 'bg-background text-foreground shadow-sm'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            Voice
+          </button>
         </div>
       </div>
 
@@ -252,15 +223,86 @@ export default function HomePage() {
         )}
         
         {activeTab === 'conversation' && (
-          <ConversationMode languages={languages} />
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              <div className="inline-flex bg-muted rounded-lg p-1 text-sm">
+                <button
+                  onClick={() => setConversationMode('device')}
+                  className={`px-3 py-1.5 rounded-md transition-colors ${
+                    conversationMode === 'device'
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  This device
+                </button>
+                <button
+                  onClick={() => setConversationMode('room')}
+                  className={`px-3 py-1.5 rounded-md transition-colors ${
+                    conversationMode === 'room'
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  Shared room
+                </button>
+              </div>
+            </div>
+
+            {conversationMode === 'device' ? (
+              <ConversationMode languages={languages} />
+            ) : (
+              <ConversationRoom languages={languages} initialCode={roomCode} />
+            )}
+          </div>
+        )}
+
+        {activeTab === 'documents' && (
+          <DocumentTranslator languages={languages} />
         )}
         
         {activeTab === 'history' && (
-          <TranslationHistory 
-            translations={translations}
-            onDelete={handleTranslationDelete}
-            onReuse={handleTranslationReuse}
-          />
+          userId ? (
+            <TranslationHistory key={userId} onReuse={handleTranslationReuse} />
+          ) : (
+            <div className="text-center py-12">
+              <Clock className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold text-foreground mb-2">Sign in to keep a history</h3>
+              <p className="text-muted-foreground mb-4">Translations are saved to your account once you sign in</p>
+              <a
+                href="/signin"
+                className="inline-flex px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+              >
+                Sign in
+              </a>
+            </div>
+          )
+        )}
+
+        {activeTab === 'phrasebook' && (
+          userId ? (
+            <Phrasebook key={userId} onReuse={handleTranslationReuse} />
+          ) : (
+            <div className="text-center py-12">
+              <Star className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold text-foreground mb-2">Sign in to keep a phrasebook</h3>
+              <p className="text-muted-foreground mb-4">Star translations to save them to your account once you sign in</p>
+              <a
+                href="/signin"
+                className="inline-flex px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+              >
+                Sign in
+              </a>
+            </div>
+          )
+        )}
+
+        {activeTab === 'glossary' && (
+          <GlossaryManager languages={languages} canEdit={Boolean(session?.user.isAdmin)} />
+        )}
+
+        {activeTab === 'voice' && (
+          <VoiceSettingsPanel languages={languages} userId={userId} />
         )}
       </div>
 
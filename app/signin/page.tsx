@@ -0,0 +1,130 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { signIn, getProviders, type ClientSafeProvider } from 'next-auth/react';
+import { LogIn, UserPlus } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+
+export default function SignInPage() {
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [providers, setProviders] = useState<ClientSafeProvider[]>([]);
+
+  useEffect(() => {
+    getProviders()
+      .then(available => setProviders(Object.values(available || {})))
+      .catch(() => setProviders([]));
+  }, []);
+
+  // OAuth providers redirect away; the local stub signs in by email only
+  const oauthProviders = providers.filter(provider => provider.type === 'oauth');
+  const hasLocalStub = providers.some(provider => provider.id === 'local');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const result = await signIn('credentials', { email, password, mode, redirect: false });
+
+      if (!result || result.error) {
+        toast.error(result?.error && result.error !== 'CredentialsSignin'
+          ? result.error
+          : 'Invalid email or password');
+        return;
+      }
+
+      window.location.href = '/';
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const signInLocally = async () => {
+    const result = await signIn('local', { email, redirect: false });
+    if (!result || result.error) {
+      toast.error('Enter a valid email address');
+      return;
+    }
+    window.location.href = '/';
+  };
+
+  return (
+    <div className="max-w-sm mx-auto py-12 space-y-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-foreground">
+          {mode === 'signin' ? 'Sign in' : 'Create an account'}
+        </h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Keep your translation history and settings across devices
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-card border border-border rounded-lg p-6 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className="w-full p-2 border border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={mode === 'signup' ? 8 : undefined}
+            className="w-full p-2 border border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {mode === 'signin' ? <LogIn className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />}
+          {isSubmitting ? 'Please wait...' : mode === 'signin' ? 'Sign in' : 'Create account'}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => setMode(mode === 'signin' ? 'signup' : 'signin')}
+          className="w-full text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          {mode === 'signin' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+
+      {(oauthProviders.length > 0 || hasLocalStub) && (
+        <div className="space-y-2">
+          {oauthProviders.map(provider => (
+            <button
+              key={provider.id}
+              onClick={() => signIn(provider.id, { callbackUrl: '/' })}
+              className="w-full px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+            >
+              Continue with {provider.name}
+            </button>
+          ))}
+          {hasLocalStub && (
+            <button
+              onClick={signInLocally}
+              className="w-full px-4 py-2 border border-dashed border-border text-muted-foreground rounded-lg hover:text-foreground transition-colors"
+            >
+              Continue with local test account (email only)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,41 +1,44 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Mic, MicOff, Volume2, Users, MessageSquare } from 'lucide-react';
-import { translateText } from '@/lib/translation';
-import { saveConversationSession } from '@/lib/cosmic';
+import { Mic, MicOff, Volume2, Users, MessageSquare, Ear, EarOff } from 'lucide-react';
+import { translateText, saveConversationSession, ApiError } from '@/lib/api';
 import { SpeechRecognition, SpeechSynthesis, getSpeechSupport } from '@/lib/speech';
-import { getLanguageFlag, generateSessionId, formatDate } from '@/lib/utils';
+import { generateSessionId, formatDate } from '@/lib/utils';
+import { getLanguageFlag } from '@/lib/languages';
+import { getVoiceSettings } from '@/lib/voice-settings';
 import { toast } from 'react-hot-toast';
-import LanguageSelector from './LanguageSelector';
-import type { Language } from '@/types';
+import ConversationParticipants, { createParticipant, getParticipantColors } from './ConversationParticipants';
+import type { Language, ConversationParticipant, ConversationMessage } from '@/types';
 
 interface ConversationModeProps {
   languages: Language[];
 }
 
-interface ConversationMessage {
-  id: string;
-  text: string;
-  translation: string;
-  sender: 'user_1' | 'user_2';
-  timestamp: string;
-  originalLanguage: string;
-  translatedLanguage: string;
+function initialParticipants(): ConversationParticipant[] {
+  const first = createParticipant([], 'English');
+  return [first, createParticipant([first], 'Spanish')];
 }
 
 export default function ConversationMode({ languages }: ConversationModeProps) {
-  const [user1Language, setUser1Language] = useState('English');
-  const [user2Language, setUser2Language] = useState('Spanish');
+  const [participants, setParticipants] = useState<ConversationParticipant[]>(initialParticipants);
   const [messages, setMessages] = useState<ConversationMessage[]>([]);
-  const [currentSpeaker, setCurrentSpeaker] = useState<'user_1' | 'user_2' | null>(null);
+  const [currentSpeaker, setCurrentSpeaker] = useState<string | null>(null);
   const [isListening, setIsListening] = useState(false);
+  // Hands-free: keep listening as handsFreeSpeaker, translating each utterance
+  const [handsFree, setHandsFree] = useState(false);
+  const [handsFreeSpeaker, setHandsFreeSpeaker] = useState<string | null>(null);
+  const [alternateSpeakers, setAlternateSpeakers] = useState(true);
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [, setVoicesLoaded] = useState(0);
   const [sessionId] = useState(generateSessionId());
   const [sessionStartTime] = useState(new Date());
 
   const speechRecognition = useRef<SpeechRecognition | null>(null);
   const speechSynthesis = useRef<SpeechSynthesis | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Latest utterance handler, so hands-free recognition always sees current participants
+  const segmentHandler = useRef<(text: string, speakerId: string) => void>(() => {});
 
   const speechSupport = getSpeechSupport();
 
@@ -45,35 +48,74 @@ export default function ConversationMode({ languages }: ConversationModeProps) {
     }
     if (speechSupport.synthesis) {
       speechSynthesis.current = new SpeechSynthesis();
+      // Re-render once the browser has loaded its voices
+      return speechSynthesis.current.onVoicesChanged(() => setVoicesLoaded(count => count + 1));
     }
-  }, [speechSupport]);
+  }, [speechSupport.recognition, speechSupport.synthesis]);
 
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
+  const handsFreeLanguage = participants.find(participant => participant.id === handsFreeSpeaker)?.language;
+
+  // (Re)start hands-free listening whenever the speaker or their language changes
+  useEffect(() => {
+    const recognition = speechRecognition.current;
+    if (!handsFree || !handsFreeSpeaker || !handsFreeLanguage || !recognition) return;
+
+    const speakerId = handsFreeSpeaker;
+    recognition.startHandsFree(
+      handsFreeLanguage,
+      (transcript) => segmentHandler.current(transcript, speakerId),
+      (error) => {
+        setHandsFree(false);
+        toast.error(`Speech recognition error: ${error}`);
+      },
+      { onInterim: setInterimTranscript }
+    );
+
+    return () => recognition.stopListening();
+  }, [handsFree, handsFreeSpeaker, handsFreeLanguage]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const startListening = (speaker: 'user_1' | 'user_2') => {
+  const findParticipant = (id: string) => participants.find(participant => participant.id === id);
+
+  // Languages the other participants need, each once
+  const listenerLanguages = (speaker: ConversationParticipant): string[] =>
+    Array.from(new Set(
+      participants
+        .filter(participant => participant.id !== speaker.id && participant.language !== speaker.language)
+        .map(participant => participant.language)
+    ));
+
+  // Saved voice preferences, with the voice of the first participant who
+  // speaks the language taking precedence
+  const settingsFor = (language: string) => {
+    const settings = getVoiceSettings(language);
+    const participantVoice = participants.find(participant => participant.language === language && participant.voice)?.voice;
+    return { ...settings, voice: participantVoice || settings.voice };
+  };
+
+  const startListening = (speaker: ConversationParticipant) => {
     if (!speechRecognition.current || !speechSupport.recognition) {
       toast.error('Speech recognition not supported');
       return;
     }
 
-    const language = speaker === 'user_1' ? user1Language : user2Language;
-    
-    setCurrentSpeaker(speaker);
+    setCurrentSpeaker(speaker.id);
     setIsListening(true);
 
     speechRecognition.current.startListening(
-      language,
+      speaker.language,
       (transcript, isFinal) => {
         if (isFinal) {
           setIsListening(false);
           setCurrentSpeaker(null);
-          handleMessage(transcript, speaker, language);
+          handleMessage(transcript, speaker);
         }
       },
       (error) => {
@@ -84,6 +126,42 @@ export default function ConversationMode({ languages }: ConversationModeProps) {
     );
   };
 
+  const toggleHandsFree = () => {
+    if (handsFree) {
+      setHandsFree(false);
+      setInterimTranscript('');
+      return;
+    }
+
+    if (!speechRecognition.current || !speechSupport.recognition) {
+      toast.error('Speech recognition not supported');
+      return;
+    }
+
+    stopListening();
+    if (!participants.some(participant => participant.id === handsFreeSpeaker)) {
+      setHandsFreeSpeaker(participants[0]?.id || null);
+    }
+    setHandsFree(true);
+  };
+
+  // After someone speaks, hand the turn to the next participant
+  const nextSpeaker = (speakerId: string) => {
+    const index = participants.findIndex(participant => participant.id === speakerId);
+    return participants[(index + 1) % participants.length]?.id || speakerId;
+  };
+
+  segmentHandler.current = (text, speakerId) => {
+    const speaker = findParticipant(speakerId);
+    if (!speaker) return;
+
+    handleMessage(text, speaker).then(() => {
+      if (alternateSpeakers) {
+        setHandsFreeSpeaker(current => current === speakerId ? nextSpeaker(speakerId) : current);
+      }
+    });
+  };
+
   const stopListening = () => {
     if (speechRecognition.current) {
       speechRecognition.current.stopListening();
@@ -92,29 +170,38 @@ export default function ConversationMode({ languages }: ConversationModeProps) {
     }
   };
 
-  const handleMessage = async (text: string, sender: 'user_1' | 'user_2', originalLanguage: string) => {
-    const targetLanguage = sender === 'user_1' ? user2Language : user1Language;
-    
+  // Translate an utterance into every other participant's language
+  const handleMessage = async (text: string, speaker: ConversationParticipant) => {
+    const targetLanguages = listenerLanguages(speaker);
+
     try {
-      const result = await translateText(text, originalLanguage, targetLanguage);
-      
+      const results = await Promise.all(targetLanguages.map(targetLanguage =>
+        translateText({ text, sourceLanguage: speaker.language, targetLanguage })
+      ));
+
+      const translations: Record<string, string> = {};
+      targetLanguages.forEach((language, index) => {
+        translations[language] = results[index]?.translatedText || '';
+      });
+
       const message: ConversationMessage = {
         id: generateSessionId(),
         text,
-        translation: result.translatedText,
-        sender,
-        timestamp: new Date().toISOString(),
-        originalLanguage,
-        translatedLanguage: targetLanguage
+        sender: speaker.id,
+        language: speaker.language,
+        translations,
+        timestamp: new Date().toISOString()
       };
 
       setMessages(prev => [...prev, message]);
 
-      // Auto-speak the translation
+      // Auto-speak each translation, one after another
       if (speechSynthesis.current && speechSupport.synthesis) {
-        setTimeout(() => {
-          speechSynthesis.current?.speak(result.translatedText, targetLanguage);
-        }, 500);
+        for (const language of targetLanguages) {
+          await speechSynthesis.current
+            .speak(translations[language] || '', language, settingsFor(language))
+            .catch(() => undefined);
+        }
       }
 
     } catch (error) {
@@ -128,7 +215,7 @@ export default function ConversationMode({ languages }: ConversationModeProps) {
       return;
     }
 
-    speechSynthesis.current.speak(text, language);
+    speechSynthesis.current.speak(text, language, settingsFor(language));
   };
 
   const saveSession = async () => {
@@ -141,24 +228,17 @@ export default function ConversationMode({ languages }: ConversationModeProps) {
       const sessionDuration = Math.round((Date.now() - sessionStartTime.getTime()) / 1000 / 60); // minutes
       
       await saveConversationSession({
-        participants: {
-          user_1_language: user1Language,
-          user_2_language: user2Language
-        },
-        messages: messages.map(msg => ({
-          id: msg.id,
-          text: msg.text,
-          translation: msg.translation,
-          sender: msg.sender,
-          timestamp: msg.timestamp
-        })),
+        participants,
+        messages,
         status: 'completed',
         duration: sessionDuration
       });
 
       toast.success('Conversation saved successfully');
     } catch (error) {
-      toast.error('Failed to save conversation');
+      toast.error(error instanceof ApiError && error.status === 401
+        ? 'Sign in to save conversations'
+        : 'Failed to save conversation');
     }
   };
 
@@ -197,82 +277,88 @@ export default function ConversationMode({ languages }: ConversationModeProps) {
         </div>
       </div>
 
-      {/* Language setup */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <div className="bg-card border border-border rounded-lg p-4">
-          <div className="flex items-center gap-2 mb-3">
-            <span className="w-3 h-3 bg-blue-500 rounded-full"></span>
-            <span className="font-medium">Speaker 1</span>
-          </div>
-          <LanguageSelector
-            languages={languages}
-            value={user1Language}
-            onChange={setUser1Language}
-            label=""
-          />
-        </div>
+      {/* Participants */}
+      <ConversationParticipants
+        participants={participants}
+        languages={languages}
+        getVoices={(language) => speechSynthesis.current?.getVoices(language) || []}
+        onChange={setParticipants}
+      />
 
-        <div className="bg-card border border-border rounded-lg p-4">
-          <div className="flex items-center gap-2 mb-3">
-            <span className="w-3 h-3 bg-green-500 rounded-full"></span>
-            <span className="font-medium">Speaker 2</span>
-          </div>
-          <LanguageSelector
-            languages={languages}
-            value={user2Language}
-            onChange={setUser2Language}
-            label=""
-          />
+      {/* Hands-free */}
+      {speechSupport.recognition && (
+        <div className="flex flex-wrap items-center gap-4">
+          <button
+            onClick={toggleHandsFree}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+              handsFree
+                ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+            }`}
+          >
+            {handsFree ? <EarOff className="w-4 h-4" /> : <Ear className="w-4 h-4" />}
+            {handsFree ? 'Stop Hands-free' : 'Hands-free'}
+          </button>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={alternateSpeakers}
+              onChange={(e) => setAlternateSpeakers(e.target.checked)}
+              className="rounded border-input"
+            />
+            Alternate speakers after each turn
+          </label>
+          {handsFree && interimTranscript && (
+            <p className="w-full text-sm italic text-muted-foreground">{interimTranscript}</p>
+          )}
         </div>
-      </div>
+      )}
 
       {/* Voice controls */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <button
-          onClick={() => isListening ? stopListening() : startListening('user_1')}
-          disabled={currentSpeaker === 'user_2' || !speechSupport.recognition}
-          className={`flex items-center justify-center gap-3 p-6 rounded-lg border-2 transition-all ${
-            currentSpeaker === 'user_1'
-              ? 'border-blue-500 bg-blue-500/10 text-blue-600'
-              : 'border-border bg-card text-foreground hover:border-blue-500/50'
-          } disabled:opacity-50 disabled:cursor-not-allowed`}
-        >
-          {currentSpeaker === 'user_1' ? (
-            <>
-              <MicOff className="w-6 h-6" />
-              <span>Stop Speaking ({user1Language})</span>
-            </>
-          ) : (
-            <>
-              <Mic className="w-6 h-6" />
-              <span>Speak in {user1Language}</span>
-            </>
-          )}
-          <span>{getLanguageFlag(user1Language)}</span>
-        </button>
-
-        <button
-          onClick={() => isListening ? stopListening() : startListening('user_2')}
-          disabled={currentSpeaker === 'user_1' || !speechSupport.recognition}
-          className={`flex items-center justify-center gap-3 p-6 rounded-lg border-2 transition-all ${
-            currentSpeaker === 'user_2'
-              ? 'border-green-500 bg-green-500/10 text-green-600'
-              : 'border-border bg-card text-foreground hover:border-green-500/50'
-          } disabled:opacity-50 disabled:cursor-not-allowed`}
-        >
-          {currentSpeaker === 'user_2' ? (
-            <>
-              <MicOff className="w-6 h-6" />
-              <span>Stop Speaking ({user2Language})</span>
-            </>
-          ) : (
-            <>
-              <Mic className="w-6 h-6" />
-              <span>Speak in {user2Language}</span>
-            </>
-          )}
-          <span>{getLanguageFlag(user2Language)}</span>
-        </button>
+        {participants.map((participant) => {
+          const colors = getParticipantColors(participant);
+          const isSpeaking = handsFree ? handsFreeSpeaker === participant.id : currentSpeaker === participant.id;
+
+          return (
+            <button
+              key={participant.id}
+              onClick={() => {
+                if (handsFree) {
+                  setHandsFreeSpeaker(participant.id);
+                } else if (isListening) {
+                  stopListening();
+                } else {
+                  startListening(participant);
+                }
+              }}
+              disabled={(!handsFree && currentSpeaker !== null && !isSpeaking) || !speechSupport.recognition}
+              className={`flex items-center justify-center gap-3 p-6 rounded-lg border-2 transition-all ${
+                isSpeaking
+                  ? colors.active
+                  : `border-border bg-card text-foreground ${colors.hover}`
+              } disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              {handsFree ? (
+                <>
+                  <Ear className="w-6 h-6" />
+                  <span>{isSpeaking ? `Listening to ${participant.name}` : `Switch to ${participant.name}`}</span>
+                </>
+              ) : isSpeaking ? (
+                <>
+                  <MicOff className="w-6 h-6" />
+                  <span>Stop Speaking ({participant.name})</span>
+                </>
+              ) : (
+                <>
+                  <Mic className="w-6 h-6" />
+                  <span>{participant.name}: speak in {participant.language}</span>
+                </>
+              )}
+              <span>{getLanguageFlag(participant.language)}</span>
+            </button>
+          );
+        })}
       </div>
 
       {/* Messages */}
@@ -281,61 +367,60 @@ export default function ConversationMode({ languages }: ConversationModeProps) {
           <div className="flex items-center justify-center h-full text-muted-foreground">
             <div className="text-center">
               <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
-              <p>Start a conversation by speaking in either language</p>
+              <p>Start a conversation by speaking in any participant&apos;s language</p>
             </div>
           </div>
         ) : (
           <div className="space-y-4">
-            {messages.map((message, index) => (
-              <div
-                key={message.id}
-                className={`flex ${message.sender === 'user_1' ? 'justify-start' : 'justify-end'}`}
-              >
-                <div className={`max-w-md p-3 rounded-lg ${
-                  message.sender === 'user_1'
-                    ? 'bg-blue-500/10 border border-blue-500/20'
-                    : 'bg-green-500/10 border border-green-500/20'
-                }`}>
-                  <div className="flex items-center gap-2 mb-2">
-                    <span className={`w-2 h-2 rounded-full ${
-                      message.sender === 'user_1' ? 'bg-blue-500' : 'bg-green-500'
-                    }`}></span>
-                    <span className="text-xs text-muted-foreground">
-                      {getLanguageFlag(message.originalLanguage)} {message.originalLanguage}
-                    </span>
-                    <button
-                      onClick={() => speakMessage(message.text, message.originalLanguage)}
-                      className="p-1 text-muted-foreground hover:text-foreground transition-colors"
-                      title="Speak original"
-                    >
-                      <Volume2 className="w-3 h-3" />
-                    </button>
-                  </div>
-                  
-                  <p className="text-sm text-foreground mb-2">{message.text}</p>
-                  
-                  <div className="border-t border-border/50 pt-2">
-                    <div className="flex items-center gap-2 mb-1">
+            {messages.map((message) => {
+              const sender = findParticipant(message.sender);
+              const colors = sender ? getParticipantColors(sender) : null;
+
+              return (
+                <div key={message.id} className="flex justify-start">
+                  <div className={`max-w-md p-3 rounded-lg ${colors?.bubble || 'bg-secondary/50 border border-border'}`}>
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className={`w-2 h-2 rounded-full ${colors?.dot || 'bg-muted-foreground'}`}></span>
+                      <span className="text-xs font-medium text-foreground">{sender?.name || 'Former participant'}</span>
                       <span className="text-xs text-muted-foreground">
-                        {getLanguageFlag(message.translatedLanguage)} {message.translatedLanguage}
+                        {getLanguageFlag(message.language)} {message.language}
                       </span>
                       <button
-                        onClick={() => speakMessage(message.translation, message.translatedLanguage)}
+                        onClick={() => speakMessage(message.text, message.language)}
                         className="p-1 text-muted-foreground hover:text-foreground transition-colors"
-                        title="Speak translation"
+                        title="Speak original"
                       >
                         <Volume2 className="w-3 h-3" />
                       </button>
                     </div>
-                    <p className="text-sm font-medium text-foreground">{message.translation}</p>
-                  </div>
-                  
-                  <div className="text-xs text-muted-foreground mt-2">
-                    {formatDate(message.timestamp)}
+                    
+                    <p className="text-sm text-foreground mb-2">{message.text}</p>
+                    
+                    {Object.entries(message.translations).map(([language, translation]) => (
+                      <div key={language} className="border-t border-border/50 pt-2 mt-2">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-xs text-muted-foreground">
+                            {getLanguageFlag(language)} {language}
+                          </span>
+                          <button
+                            onClick={() => speakMessage(translation, language)}
+                            className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+                            title="Speak translation"
+                          >
+                            <Volume2 className="w-3 h-3" />
+                          </button>
+                        </div>
+                        <p className="text-sm font-medium text-foreground">{translation}</p>
+                      </div>
+                    ))}
+                    
+                    <div className="text-xs text-muted-foreground mt-2">
+                      {formatDate(message.timestamp)}
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
             <div ref={messagesEndRef} />
           </div>
         )}
@@ -0,0 +1,181 @@
+'use client';
+
+import { Plus, X } from 'lucide-react';
+import LanguageSelector from './LanguageSelector';
+import { generateSessionId } from '@/lib/utils';
+import type { Language, ConversationParticipant } from '@/types';
+
+interface ParticipantColor {
+  dot: string;
+  bubble: string;
+  active: string;
+  hover: string;
+}
+
+// Full class names so Tailwind keeps them in the build
+export const PARTICIPANT_COLORS: Record<string, ParticipantColor> = {
+  blue: {
+    dot: 'bg-blue-500',
+    bubble: 'bg-blue-500/10 border border-blue-500/20',
+    active: 'border-blue-500 bg-blue-500/10 text-blue-600',
+    hover: 'hover:border-blue-500/50'
+  },
+  green: {
+    dot: 'bg-green-500',
+    bubble: 'bg-green-500/10 border border-green-500/20',
+    active: 'border-green-500 bg-green-500/10 text-green-600',
+    hover: 'hover:border-green-500/50'
+  },
+  purple: {
+    dot: 'bg-purple-500',
+    bubble: 'bg-purple-500/10 border border-purple-500/20',
+    active: 'border-purple-500 bg-purple-500/10 text-purple-600',
+    hover: 'hover:border-purple-500/50'
+  },
+  orange: {
+    dot: 'bg-orange-500',
+    bubble: 'bg-orange-500/10 border border-orange-500/20',
+    active: 'border-orange-500 bg-orange-500/10 text-orange-600',
+    hover: 'hover:border-orange-500/50'
+  },
+  pink: {
+    dot: 'bg-pink-500',
+    bubble: 'bg-pink-500/10 border border-pink-500/20',
+    active: 'border-pink-500 bg-pink-500/10 text-pink-600',
+    hover: 'hover:border-pink-500/50'
+  },
+  teal: {
+    dot: 'bg-teal-500',
+    bubble: 'bg-teal-500/10 border border-teal-500/20',
+    active: 'border-teal-500 bg-teal-500/10 text-teal-600',
+    hover: 'hover:border-teal-500/50'
+  }
+};
+
+const COLOR_NAMES = Object.keys(PARTICIPANT_COLORS);
+
+export const MIN_PARTICIPANTS = 2;
+export const MAX_PARTICIPANTS = COLOR_NAMES.length;
+
+export function getParticipantColors(participant: ConversationParticipant): ParticipantColor {
+  return PARTICIPANT_COLORS[participant.color] || PARTICIPANT_COLORS.blue as ParticipantColor;
+}
+
+// New participant with the first color nobody is using yet
+export function createParticipant(
+  existing: ConversationParticipant[],
+  language: string
+): ConversationParticipant {
+  const usedColors = new Set(existing.map(participant => participant.color));
+
+  return {
+    id: generateSessionId(),
+    name: `Speaker ${existing.length + 1}`,
+    language,
+    color: COLOR_NAMES.find(color => !usedColors.has(color)) || 'blue'
+  };
+}
+
+interface ConversationParticipantsProps {
+  participants: ConversationParticipant[];
+  languages: Language[];
+  getVoices: (language: string) => SpeechSynthesisVoice[];
+  onChange: (participants: ConversationParticipant[]) => void;
+}
+
+export default function ConversationParticipants({
+  participants,
+  languages,
+  getVoices,
+  onChange
+}: ConversationParticipantsProps) {
+  const updateParticipant = (id: string, changes: Partial<ConversationParticipant>) => {
+    onChange(participants.map(participant => participant.id === id ? { ...participant, ...changes } : participant));
+  };
+
+  const addParticipant = () => {
+    const language = languages.find(l => !participants.some(p => p.language === l.title))?.title || 'English';
+    onChange([...participants, createParticipant(participants, language)]);
+  };
+
+  const removeParticipant = (id: string) => {
+    onChange(participants.filter(participant => participant.id !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {participants.map((participant) => {
+          const voices = getVoices(participant.language);
+
+          return (
+            <div key={participant.id} className="bg-card border border-border rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className={`w-3 h-3 rounded-full ${getParticipantColors(participant).dot}`}></span>
+                <input
+                  type="text"
+                  value={participant.name}
+                  onChange={(e) => updateParticipant(participant.id, { name: e.target.value })}
+                  className="flex-1 bg-transparent font-medium text-foreground focus:outline-none"
+                  aria-label="Participant name"
+                />
+                {participants.length > MIN_PARTICIPANTS && (
+                  <button
+                    onClick={() => removeParticipant(participant.id)}
+                    className="p-1 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                    title="Remove participant"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              <LanguageSelector
+                languages={languages}
+                value={participant.language}
+                onChange={(language) => updateParticipant(participant.id, { language, voice: undefined })}
+                label=""
+              />
+
+              <div className="flex items-center gap-2">
+                {COLOR_NAMES.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => updateParticipant(participant.id, { color })}
+                    className={`w-5 h-5 rounded-full ${PARTICIPANT_COLORS[color]?.dot} ${
+                      participant.color === color ? 'ring-2 ring-offset-2 ring-ring' : ''
+                    }`}
+                    title={color}
+                  />
+                ))}
+              </div>
+
+              {voices.length > 0 && (
+                <select
+                  value={participant.voice || ''}
+                  onChange={(e) => updateParticipant(participant.id, { voice: e.target.value || undefined })}
+                  className="w-full p-2 text-sm border border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value="">Default voice</option>
+                  {voices.map(voice => (
+                    <option key={voice.name} value={voice.name}>{voice.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {participants.length < MAX_PARTICIPANTS && (
+        <button
+          onClick={addParticipant}
+          className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Participant
+        </button>
+      )}
+    </div>
+  );
+}
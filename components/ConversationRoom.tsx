@@ -0,0 +1,436 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Mic, MicOff, Send, Copy, LogOut, Users, MessageSquare } from 'lucide-react';
+import LanguageSelector from './LanguageSelector';
+import { getParticipantColors } from './ConversationParticipants';
+import {
+  createRoom,
+  joinRoom,
+  leaveRoom,
+  sendRoomMessage,
+  closeRoom,
+  getRoomEventsUrl
+} from '@/lib/api';
+import { SpeechRecognition, SpeechSynthesis, getSpeechSupport } from '@/lib/speech';
+import { copyToClipboard, formatDate } from '@/lib/utils';
+import { getLanguageFlag } from '@/lib/languages';
+import { getVoiceSettings } from '@/lib/voice-settings';
+import { toast } from 'react-hot-toast';
+import type { Language, ConversationParticipant, ConversationMessage, ConversationRoom as Room } from '@/types';
+
+interface ConversationRoomProps {
+  languages: Language[];
+  // Code from a join link
+  initialCode?: string;
+}
+
+export default function ConversationRoom({ languages, initialCode = '' }: ConversationRoomProps) {
+  const [code, setCode] = useState(initialCode.toUpperCase());
+  const [name, setName] = useState('');
+  const [language, setLanguage] = useState('English');
+  const [me, setMe] = useState<ConversationParticipant | null>(null);
+  // Secret that identifies us to the room; never shown to others
+  const [token, setToken] = useState('');
+  const [participants, setParticipants] = useState<ConversationParticipant[]>([]);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [autoSpeak, setAutoSpeak] = useState(true);
+  const [isListening, setIsListening] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [qrCode, setQrCode] = useState('');
+
+  const speechRecognition = useRef<SpeechRecognition | null>(null);
+  const speechSynthesis = useRef<SpeechSynthesis | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const autoSpeakRef = useRef(autoSpeak);
+  autoSpeakRef.current = autoSpeak;
+
+  const speechSupport = getSpeechSupport();
+  const joinLink = me && typeof window !== 'undefined' ? `${window.location.origin}/?room=${code}` : '';
+
+  useEffect(() => {
+    if (speechSupport.recognition) {
+      speechRecognition.current = new SpeechRecognition();
+    }
+    if (speechSupport.synthesis) {
+      speechSynthesis.current = new SpeechSynthesis();
+    }
+  }, [speechSupport.recognition, speechSupport.synthesis]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  useEffect(() => {
+    if (!joinLink) return;
+    QRCode.toDataURL(joinLink, { margin: 1, width: 160 })
+      .then(setQrCode)
+      .catch(() => setQrCode(''));
+  }, [joinLink]);
+
+  const resetRoom = () => {
+    setMe(null);
+    setToken('');
+    setParticipants([]);
+    setMessages([]);
+    setQrCode('');
+  };
+
+  // Room events for the joined participant
+  useEffect(() => {
+    if (!me || !token) return;
+
+    const events = new EventSource(getRoomEventsUrl(code, token));
+
+    events.addEventListener('snapshot', (event) => {
+      const room: Room = JSON.parse((event as MessageEvent).data);
+      setParticipants(room.participants);
+      setMessages(room.messages);
+    });
+
+    events.addEventListener('participant-joined', (event) => {
+      const participant: ConversationParticipant = JSON.parse((event as MessageEvent).data);
+      setParticipants(prev => [...prev.filter(p => p.id !== participant.id), participant]);
+    });
+
+    events.addEventListener('participant-left', (event) => {
+      const { participantId } = JSON.parse((event as MessageEvent).data);
+      setParticipants(prev => prev.filter(p => p.id !== participantId));
+    });
+
+    events.addEventListener('message', (event) => {
+      const message: ConversationMessage = JSON.parse((event as MessageEvent).data);
+      setMessages(prev => [...prev, message]);
+
+      if (message.sender !== me.id && autoSpeakRef.current && speechSynthesis.current) {
+        speechSynthesis.current
+          .speak(message.translations[me.language] || message.text, me.language, {
+            ...getVoiceSettings(me.language),
+            ...(me.voice ? { voice: me.voice } : {})
+          })
+          .catch(() => undefined);
+      }
+    });
+
+    events.addEventListener('closed', () => {
+      events.close();
+      toast.success('The room was closed');
+      resetRoom();
+    });
+
+    return () => events.close();
+  }, [me, token, code]);
+
+  const enterRoom = async (roomCode: string) => {
+    const joined = await joinRoom(roomCode, { name: name.trim(), language });
+    setCode(roomCode);
+    setToken(joined.token);
+    setMe(joined.participant);
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Enter your name');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const room = await createRoom();
+      await enterRoom(room.code);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create room');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!name.trim() || !code.trim()) {
+      toast.error('Enter your name and the room code');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await enterRoom(code.trim().toUpperCase());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to join room');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const sendMessage = async (text: string) => {
+    if (!me || !text.trim()) return;
+
+    setIsBusy(true);
+    try {
+      await sendRoomMessage(code, token, text.trim());
+      setDraft('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send message');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleListening = () => {
+    if (!me || !speechRecognition.current) return;
+
+    if (isListening) {
+      speechRecognition.current.stopListening();
+      setIsListening(false);
+      return;
+    }
+
+    setIsListening(true);
+    speechRecognition.current.startListening(
+      me.language,
+      (transcript, isFinal) => {
+        if (isFinal) {
+          setIsListening(false);
+          sendMessage(transcript);
+        }
+      },
+      (error) => {
+        setIsListening(false);
+        toast.error(`Speech recognition error: ${error}`);
+      }
+    );
+  };
+
+  const handleLeave = async () => {
+    if (!me) return;
+
+    try {
+      await leaveRoom(code, token);
+    } catch (error) {
+      console.error('Failed to leave room:', error);
+    }
+    resetRoom();
+  };
+
+  const handleClose = async () => {
+    if (!me || !confirm('Close the room for everyone and save the conversation?')) return;
+
+    try {
+      const conversation = await closeRoom(code, token);
+      toast.success(conversation ? 'Conversation saved' : 'Room closed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close room');
+    }
+    resetRoom();
+  };
+
+  const handleCopyLink = async () => {
+    const success = await copyToClipboard(joinLink);
+    if (success) {
+      toast.success('Join link copied');
+    } else {
+      toast.error('Failed to copy');
+    }
+  };
+
+  // Lobby: create a room or join one by code
+  if (!me) {
+    return (
+      <div className="max-w-xl mx-auto p-6 space-y-6">
+        <div className="flex items-center gap-2">
+          <Users className="w-5 h-5 text-primary" />
+          <h2 className="text-2xl font-bold text-foreground">Shared Room</h2>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Everyone joins from their own device and reads the conversation in their own language.
+        </p>
+
+        <div className="translation-card space-y-4">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Your name"
+            className="w-full p-3 border border-input rounded-lg bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <LanguageSelector
+            languages={languages}
+            value={language}
+            onChange={setLanguage}
+            label="Your language"
+          />
+
+          <div className="flex flex-col md:flex-row gap-3">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="Room code"
+              maxLength={6}
+              className="flex-1 p-3 border border-input rounded-lg bg-background text-foreground placeholder:text-muted-foreground font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            <button
+              onClick={handleJoin}
+              disabled={isBusy}
+              className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Join Room
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={isBusy}
+              className="px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Create Room
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Users className="w-5 h-5 text-primary" />
+          <h2 className="text-2xl font-bold text-foreground">Room <span className="font-mono">{code}</span></h2>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+          >
+            Close &amp; Save
+          </button>
+          <button
+            onClick={handleLeave}
+            className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+          >
+            <LogOut className="w-4 h-4" />
+            Leave
+          </button>
+        </div>
+      </div>
+
+      {/* Invite and participants */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-card border border-border rounded-lg p-4 flex flex-col items-center gap-3">
+          {qrCode && <img src={qrCode} alt={`QR code to join room ${code}`} className="w-40 h-40" />}
+          <button
+            onClick={handleCopyLink}
+            className="flex items-center gap-2 text-sm text-primary hover:underline"
+          >
+            <Copy className="w-4 h-4" />
+            Copy join link
+          </button>
+        </div>
+
+        <div className="md:col-span-2 bg-card border border-border rounded-lg p-4">
+          <h3 className="text-sm font-medium text-muted-foreground mb-3">In this room</h3>
+          <div className="space-y-2">
+            {participants.map(participant => (
+              <div key={participant.id} className="flex items-center gap-2 text-sm">
+                <span className={`w-3 h-3 rounded-full ${getParticipantColors(participant).dot}`}></span>
+                <span className="font-medium text-foreground">
+                  {participant.name}{participant.id === me.id ? ' (you)' : ''}
+                </span>
+                <span className="text-muted-foreground">
+                  {getLanguageFlag(participant.language)} {participant.language}
+                </span>
+              </div>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer mt-4">
+            <input
+              type="checkbox"
+              checked={autoSpeak}
+              onChange={(e) => setAutoSpeak(e.target.checked)}
+              className="w-4 h-4 text-primary bg-background border-border rounded focus:ring-ring focus:ring-2"
+            />
+            <span className="text-sm text-foreground">Read incoming messages aloud</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="bg-card border border-border rounded-lg p-4 min-h-[300px] max-h-[500px] overflow-y-auto custom-scrollbar">
+        {messages.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-muted-foreground">
+            <div className="text-center">
+              <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <p>Messages will appear here in {me.language}</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {messages.map((message) => {
+              const sender = participants.find(p => p.id === message.sender);
+              const isMine = message.sender === me.id;
+              const text = isMine ? message.text : message.translations[me.language] || message.text;
+
+              return (
+                <div key={message.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-md p-3 rounded-lg ${sender ? getParticipantColors(sender).bubble : 'bg-secondary/50 border border-border'}`}>
+                    <div className="text-xs text-muted-foreground mb-1">
+                      {isMine ? 'You' : sender?.name || 'Former participant'}
+                    </div>
+                    <p className="text-sm font-medium text-foreground">{text}</p>
+                    {!isMine && message.language !== me.language && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {getLanguageFlag(message.language)} {message.text}
+                      </p>
+                    )}
+                    <div className="text-xs text-muted-foreground mt-2">
+                      {formatDate(message.timestamp)}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+            <div ref={messagesEndRef} />
+          </div>
+        )}
+      </div>
+
+      {/* Compose */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          sendMessage(draft);
+        }}
+        className="flex items-center gap-2"
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={`Type in ${me.language}...`}
+          className="flex-1 p-3 border border-input rounded-lg bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        {speechSupport.recognition && (
+          <button
+            type="button"
+            onClick={toggleListening}
+            className={`p-3 rounded-lg transition-colors ${
+              isListening ? 'bg-destructive text-destructive-foreground' : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+            }`}
+            title={isListening ? 'Stop listening' : 'Speak'}
+          >
+            {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isBusy || !draft.trim()}
+          className="p-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Send"
+        >
+          <Send className="w-5 h-5" />
+        </button>
+      </form>
+    </div>
+  );
+}
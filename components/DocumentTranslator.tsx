@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { FileText, Upload, Download, AlertCircle } from 'lucide-react';
+import LanguageSelector from './LanguageSelector';
+import { getDocuments, getDocument, uploadDocument, getDocumentDownloadUrl, translateSubtitleFile } from '@/lib/api';
+import { formatDate, downloadBlob } from '@/lib/utils';
+import { getLanguageFlag } from '@/lib/languages';
+import { toast } from 'react-hot-toast';
+import type { Language, DocumentTranslation } from '@/types';
+
+interface DocumentTranslatorProps {
+  languages: Language[];
+}
+
+const ACCEPTED_TYPES = '.txt,.md,.markdown,.html,.htm,.docx,.srt,.vtt';
+const POLL_INTERVAL_MS = 2000;
+
+function isSubtitleFile(file: File | null): boolean {
+  return Boolean(file && /\.(srt|vtt)$/i.test(file.name));
+}
+
+export default function DocumentTranslator({ languages }: DocumentTranslatorProps) {
+  const [sourceLang, setSourceLang] = useState('English');
+  const [targetLang, setTargetLang] = useState('Spanish');
+  const [documents, setDocuments] = useState<DocumentTranslation[]>([]);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [maxCharsPerLine, setMaxCharsPerLine] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getDocuments()
+      .then(setDocuments)
+      .catch(() => toast.error('Failed to load documents'));
+  }, []);
+
+  // Poll documents that are still being translated
+  const processingIds = documents
+    .filter(doc => doc.metadata.status === 'processing')
+    .map(doc => doc.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!processingIds) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const updated = await Promise.all(processingIds.split(',').map(id => getDocument(id)));
+        setDocuments(prev => prev.map(doc => updated.find(u => u.id === doc.id) || doc));
+
+        updated
+          .filter(doc => doc.metadata.status === 'completed')
+          .forEach(doc => toast.success(`${doc.metadata.original_file.name} translated`));
+      } catch (error) {
+        console.error('Failed to poll documents:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [processingIds]);
+
+  const handleUpload = async () => {
+    if (!selectedFile) {
+      toast.error('Choose a file to translate');
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      // Subtitles are small enough to translate in one request
+      if (isSubtitleFile(selectedFile)) {
+        const { blob, fileName } = await translateSubtitleFile(
+          selectedFile,
+          sourceLang,
+          targetLang,
+          Number(maxCharsPerLine) || undefined
+        );
+        downloadBlob(blob, fileName);
+        toast.success('Subtitles translated');
+      } else {
+        const document = await uploadDocument(selectedFile, sourceLang, targetLang);
+        setDocuments(prev => [document, ...prev]);
+        toast.success('Document uploaded. Translation started');
+      }
+
+      setSelectedFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload document');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <FileText className="w-5 h-5 text-primary" />
+        <h2 className="text-2xl font-bold text-foreground">Document Translation</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <LanguageSelector
+          languages={languages}
+          value={sourceLang}
+          onChange={setSourceLang}
+          label="From"
+        />
+        <LanguageSelector
+          languages={languages}
+          value={targetLang}
+          onChange={setTargetLang}
+          label="To"
+        />
+      </div>
+
+      {/* Upload */}
+      <div className="translation-card flex flex-col md:flex-row items-center gap-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_TYPES}
+          onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
+          className="flex-1 text-sm text-foreground file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-secondary file:text-secondary-foreground hover:file:bg-secondary/80"
+        />
+        <button
+          onClick={handleUpload}
+          disabled={!selectedFile || isUploading}
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          {isUploading ? 'Uploading...' : 'Translate Document'}
+        </button>
+      </div>
+
+      {isSubtitleFile(selectedFile) && (
+        <label className="flex items-center gap-3 text-sm text-foreground">
+          <span>Max characters per line</span>
+          <input
+            type="number"
+            min={10}
+            value={maxCharsPerLine}
+            onChange={(e) => setMaxCharsPerLine(e.target.value)}
+            placeholder="Keep original"
+            className="w-36 p-2 border border-input rounded-lg bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </label>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Supported formats: plain text, Markdown, HTML and Word (.docx) up to 10 MB, and subtitles (.srt, .vtt) up to 2 MB.
+        Subtitles download as soon as they are translated.
+      </p>
+
+      {/* Documents */}
+      {documents.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          No documents translated yet
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {documents.map((doc: DocumentTranslation) => (
+            <div key={doc.id} className="history-item">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">{doc.metadata.original_file.name}</p>
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <span>{getLanguageFlag(doc.metadata.source_language)}</span>
+                    <span>{doc.metadata.source_language}</span>
+                    <span>→</span>
+                    <span>{getLanguageFlag(doc.metadata.target_language)}</span>
+                    <span>{doc.metadata.target_language}</span>
+                  </div>
+                </div>
+
+                {doc.metadata.status === 'completed' && (
+                  <a
+                    href={getDocumentDownloadUrl(doc.id)}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors whitespace-nowrap"
+                  >
+                    <Download className="w-4 h-4" />
+                    Download
+                  </a>
+                )}
+              </div>
+
+              {doc.metadata.status === 'processing' && (
+                <div className="mt-3">
+                  <div className="h-2 bg-secondary rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-primary transition-all"
+                      style={{ width: `${doc.metadata.progress}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">Translating... {doc.metadata.progress}%</p>
+                </div>
+              )}
+
+              {doc.metadata.status === 'failed' && (
+                <div className="flex items-center gap-2 mt-3 text-sm text-destructive">
+                  <AlertCircle className="w-4 h-4" />
+                  <span>{doc.metadata.error || 'Translation failed'}</span>
+                </div>
+              )}
+
+              <div className="text-xs text-muted-foreground mt-3 pt-3 border-t border-border">
+                {formatDate(doc.created_at)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
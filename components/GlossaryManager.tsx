@@ -0,0 +1,263 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BookOpen, Pencil, Trash2, Plus, X } from 'lucide-react';
+import LanguageSelector from './LanguageSelector';
+import {
+  getGlossaryEntries,
+  saveGlossaryEntry,
+  updateGlossaryEntry,
+  deleteGlossaryEntry
+} from '@/lib/api';
+import { getLanguageFlag } from '@/lib/languages';
+import { toast } from 'react-hot-toast';
+import type { Language, GlossaryEntry } from '@/types';
+
+interface GlossaryManagerProps {
+  languages: Language[];
+  canEdit: boolean;
+}
+
+const emptyForm = {
+  sourceTerm: '',
+  targetTerm: '',
+  caseSensitive: false,
+  doNotTranslate: false
+};
+
+export default function GlossaryManager({ languages, canEdit }: GlossaryManagerProps) {
+  const [sourceLang, setSourceLang] = useState('English');
+  const [targetLang, setTargetLang] = useState('Spanish');
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadEntries() {
+      setIsLoading(true);
+      try {
+        const fetched = await getGlossaryEntries(sourceLang, targetLang);
+        if (!cancelled) setEntries(fetched);
+      } catch (error) {
+        if (!cancelled) toast.error('Failed to load glossary');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    loadEntries();
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceLang, targetLang]);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.sourceTerm.trim() || (!form.targetTerm.trim() && !form.doNotTranslate)) {
+      toast.error('Enter a source term and its translation');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const data = { ...form, sourceLanguage: sourceLang, targetLanguage: targetLang };
+
+      if (editingId) {
+        const updated = await updateGlossaryEntry(editingId, data);
+        setEntries(prev => prev.map(entry => entry.id === editingId ? updated : entry));
+        toast.success('Glossary entry updated');
+      } else {
+        const created = await saveGlossaryEntry(data);
+        setEntries(prev => [...prev, created]);
+        toast.success('Glossary entry added');
+      }
+
+      resetForm();
+    } catch (error) {
+      toast.error('Failed to save glossary entry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (entry: GlossaryEntry) => {
+    setEditingId(entry.id);
+    setForm({
+      sourceTerm: entry.metadata.source_term,
+      targetTerm: entry.metadata.do_not_translate ? '' : entry.metadata.target_term,
+      caseSensitive: entry.metadata.case_sensitive,
+      doNotTranslate: entry.metadata.do_not_translate
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this glossary entry?')) return;
+
+    try {
+      await deleteGlossaryEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+      if (editingId === id) resetForm();
+      toast.success('Glossary entry deleted');
+    } catch (error) {
+      toast.error('Failed to delete glossary entry');
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <BookOpen className="w-5 h-5 text-primary" />
+        <h2 className="text-2xl font-bold text-foreground">Glossary</h2>
+      </div>
+
+      {/* Language pair */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <LanguageSelector
+          languages={languages}
+          value={sourceLang}
+          onChange={setSourceLang}
+          label="Source language"
+        />
+        <LanguageSelector
+          languages={languages}
+          value={targetLang}
+          onChange={setTargetLang}
+          label="Target language"
+        />
+      </div>
+
+      {/* Entry form */}
+      {canEdit ? (
+        <form onSubmit={handleSubmit} className="translation-card space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <input
+              type="text"
+              value={form.sourceTerm}
+              onChange={(e) => setForm({ ...form, sourceTerm: e.target.value })}
+              placeholder={`Term in ${sourceLang}`}
+              className="w-full p-3 border border-input rounded-lg bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            <input
+              type="text"
+              value={form.doNotTranslate ? form.sourceTerm : form.targetTerm}
+              onChange={(e) => setForm({ ...form, targetTerm: e.target.value })}
+              placeholder={`Term in ${targetLang}`}
+              disabled={form.doNotTranslate}
+              className="w-full p-3 border border-input rounded-lg bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring disabled:opacity-50"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.caseSensitive}
+                  onChange={(e) => setForm({ ...form, caseSensitive: e.target.checked })}
+                  className="w-4 h-4 text-primary bg-background border-border rounded focus:ring-ring focus:ring-2"
+                />
+                <span className="text-sm text-foreground">Case sensitive</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.doNotTranslate}
+                  onChange={(e) => setForm({ ...form, doNotTranslate: e.target.checked })}
+                  className="w-4 h-4 text-primary bg-background border-border rounded focus:ring-ring focus:ring-2"
+                />
+                <span className="text-sm text-foreground">Do not translate</span>
+              </label>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                {editingId ? 'Update Entry' : 'Add Entry'}
+              </button>
+            </div>
+          </div>
+        </form>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          The glossary applies to every translation. Only admins can change it.
+        </p>
+      )}
+
+      {/* Entries */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          No glossary entries for {getLanguageFlag(sourceLang)} {sourceLang} → {getLanguageFlag(targetLang)} {targetLang}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry: GlossaryEntry) => (
+            <div key={entry.id} className="history-item flex items-center justify-between">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="font-medium text-foreground truncate">{entry.metadata.source_term}</span>
+                <span className="text-muted-foreground">→</span>
+                <span className="text-foreground truncate">{entry.metadata.target_term}</span>
+                {entry.metadata.do_not_translate && (
+                  <span className="text-xs bg-secondary text-secondary-foreground px-2 py-1 rounded-full whitespace-nowrap">
+                    Do not translate
+                  </span>
+                )}
+                {entry.metadata.case_sensitive && (
+                  <span className="text-xs bg-secondary text-secondary-foreground px-2 py-1 rounded-full whitespace-nowrap">
+                    Aa
+                  </span>
+                )}
+              </div>
+
+              {canEdit && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handleEdit(entry)}
+                    className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                    title="Edit entry"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(entry.id)}
+                    className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors"
+                    title="Delete entry"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { ChevronDown } from 'lucide-react';
-import { getLanguageFlag } from '@/lib/utils';
+import { getLanguageFlag } from '@/lib/languages';
 import { useState, useRef, useEffect } from 'react';
 import type { Language } from '@/types';
 
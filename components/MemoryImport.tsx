@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { Database, Upload } from 'lucide-react';
+import { importTranslationMemory, getMemoryImport } from '@/lib/api';
+import { toast } from 'react-hot-toast';
+import type { MemoryImportJob } from '@/types';
+
+const ACCEPTED_TYPES = '.tmx,.xlf,.xliff,.sdlxliff,.mqxliff';
+const POLL_INTERVAL_MS = 2000;
+
+function CountList({ title, counts }: { title: string; counts: Record<string, number> }) {
+  const entries = Object.entries(counts).sort(([, a], [, b]) => b - a);
+  if (entries.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-foreground mb-2">{title}</h4>
+      <ul className="space-y-1 text-sm">
+        {entries.map(([label, count]) => (
+          <li key={label} className="flex justify-between gap-4 text-muted-foreground">
+            <span className="break-all">{label}</span>
+            <span className="text-foreground">{count.toLocaleString()}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function MemoryImport() {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [jobs, setJobs] = useState<MemoryImportJob[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Poll imports that are still running
+  const processingIds = jobs
+    .filter(job => job.status === 'processing')
+    .map(job => job.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!processingIds) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const updated = await Promise.all(processingIds.split(',').map(id => getMemoryImport(id)));
+        setJobs(prev => prev.map(job => updated.find(u => u.id === job.id) || job));
+
+        updated.forEach(job => {
+          if (job.status === 'completed') {
+            toast.success(`Imported ${job.report.added.toLocaleString()} unit${job.report.added === 1 ? '' : 's'} from ${job.report.fileName}`);
+          } else if (job.status === 'failed') {
+            toast.error(`Import of ${job.report.fileName} failed`);
+          }
+        });
+      } catch (error) {
+        console.error('Failed to poll memory imports:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [processingIds]);
+
+  const handleImport = async () => {
+    if (!selectedFile) {
+      toast.error('Choose a TMX or XLIFF file to import');
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const job = await importTranslationMemory(selectedFile);
+      setJobs(prev => [job, ...prev]);
+      toast.success('Import started');
+
+      setSelectedFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import translation memory');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center gap-2">
+        <Database className="w-5 h-5 text-primary" />
+        <h2 className="text-2xl font-bold text-foreground">Translation Memory</h2>
+      </div>
+
+      <div className="translation-card flex flex-col md:flex-row items-center gap-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_TYPES}
+          onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
+          className="flex-1 text-sm text-foreground file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-secondary file:text-secondary-foreground hover:file:bg-secondary/80"
+        />
+        <button
+          onClick={handleImport}
+          disabled={!selectedFile || isImporting}
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          {isImporting ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        TMX and XLIFF (1.2 and 2.0) files up to 20 MB. Imported units are treated as approved translations and
+        used as exact matches before the model is called, for every user. Units already imported are skipped.
+      </p>
+
+      {jobs.map(({ id, status, error, report }) => (
+        <div key={id} className="bg-card border border-border rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="font-semibold text-foreground break-all">{report.fileName}</h3>
+            <div className="flex items-center gap-2">
+              {status === 'processing' && (
+                <span className="text-xs text-muted-foreground">
+                  Importing... {Math.floor(((report.added + report.skipped + report.invalid + report.failed) / Math.max(1, report.total)) * 100)}%
+                </span>
+              )}
+              <span className="text-xs bg-secondary text-secondary-foreground px-2 py-1 rounded-full uppercase">
+                {report.format}
+              </span>
+            </div>
+          </div>
+
+          {status === 'failed' && (
+            <p className="text-sm text-destructive">{error || 'The import failed'}</p>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Added', value: report.added },
+              { label: 'Skipped', value: report.skipped },
+              { label: 'Invalid', value: report.invalid },
+              { label: 'Units', value: report.total }
+            ].map(({ label, value }) => (
+              <div key={label}>
+                <p className="text-sm text-muted-foreground">{label}</p>
+                <p className="text-2xl font-bold text-foreground">{value.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+
+          {report.failed > 0 && (
+            <p className="text-sm text-destructive">
+              {report.failed.toLocaleString()} valid unit{report.failed === 1 ? '' : 's'} could not be saved. Import the file again to retry them.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <CountList title="Added by language pair" counts={report.addedByPair} />
+            <CountList title="Invalid units" counts={report.invalidReasons} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
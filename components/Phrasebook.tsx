@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Star, RotateCcw, Copy, Volume2, FolderOpen } from 'lucide-react';
+import { copyToClipboard } from '@/lib/utils';
+import { getLanguageFlag, getTextDirection } from '@/lib/languages';
+import { getPhrasebookEntries, movePhrasebookEntry, removeFromPhrasebook, ApiError } from '@/lib/api';
+import { SpeechSynthesis, getSpeechSupport } from '@/lib/speech';
+import { toast } from 'react-hot-toast';
+import type { PhrasebookEntry } from '@/types';
+
+interface PhrasebookProps {
+  onReuse: (entry: PhrasebookEntry) => void;
+}
+
+// Select value that prompts for a new collection name
+const NEW_COLLECTION = '__new__';
+
+function chipClass(active: boolean): string {
+  return `flex items-center gap-1 text-xs px-3 py-1 rounded-full border transition-colors ${
+    active
+      ? 'bg-primary text-primary-foreground border-primary'
+      : 'border-border text-muted-foreground hover:text-foreground'
+  }`;
+}
+
+export default function Phrasebook({ onReuse }: PhrasebookProps) {
+  const [entries, setEntries] = useState<PhrasebookEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState<string | null>(null);
+  // null shows every collection; '' shows unsorted entries
+  const [collection, setCollection] = useState<string | null>(null);
+
+  const speechSynthesis = new SpeechSynthesis();
+  const speechSupport = getSpeechSupport();
+
+  useEffect(() => {
+    async function loadEntries() {
+      try {
+        setEntries(await getPhrasebookEntries());
+      } catch (error) {
+        toast.error('Failed to load phrasebook');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadEntries();
+  }, []);
+
+  // Named collections with their entry counts, alphabetically
+  const collections = useMemo(() => {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => {
+      if (entry.metadata.collection) {
+        counts.set(entry.metadata.collection, (counts.get(entry.metadata.collection) || 0) + 1);
+      }
+    });
+    return Array.from(counts.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [entries]);
+
+  const unsortedCount = entries.filter(entry => !entry.metadata.collection).length;
+  const visible = collection === null
+    ? entries
+    : entries.filter(entry => entry.metadata.collection === collection);
+
+  // A collection that lost its last entry disappears, so fall back to all
+  useEffect(() => {
+    if (collection && !collections.some(([name]) => name === collection)) {
+      setCollection(null);
+    }
+  }, [collection, collections]);
+
+  const handleMove = async (entry: PhrasebookEntry, value: string) => {
+    let target = value;
+    if (value === NEW_COLLECTION) {
+      const name = prompt('New collection name')?.trim();
+      if (!name) return;
+      target = name;
+    }
+    if (target === entry.metadata.collection) return;
+
+    setIsUpdating(entry.id);
+    try {
+      const updated = await movePhrasebookEntry(entry.id, target);
+      setEntries(prev => prev.map(e => e.id === entry.id
+        ? { ...e, metadata: { ...e.metadata, collection: updated.metadata.collection } }
+        : e));
+      toast.success(target ? `Moved to ${target}` : 'Moved to unsorted');
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to move phrase');
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  const handleRemove = async (entry: PhrasebookEntry) => {
+    setIsUpdating(entry.id);
+    try {
+      await removeFromPhrasebook(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+      toast.success('Removed from phrasebook');
+    } catch (error) {
+      // Already gone or not ours: either way it should leave the list
+      if (error instanceof ApiError && (error.status === 403 || error.status === 404)) {
+        setEntries(prev => prev.filter(e => e.id !== entry.id));
+        toast.error(error.message);
+        return;
+      }
+      toast.error('Failed to remove phrase');
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  const handleCopy = async (text: string) => {
+    const success = await copyToClipboard(text);
+    if (success) {
+      toast.success('Copied to clipboard');
+    } else {
+      toast.error('Failed to copy');
+    }
+  };
+
+  const handleSpeak = async (text: string, language: string) => {
+    if (!speechSupport.synthesis) {
+      toast.error('Speech synthesis not supported');
+      return;
+    }
+
+    try {
+      await speechSynthesis.speak(text, language);
+    } catch (error) {
+      toast.error('Failed to speak text');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Star className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
+        <h3 className="text-lg font-semibold text-foreground mb-2">Your phrasebook is empty</h3>
+        <p className="text-muted-foreground">Star a translation in the translator or your history to keep it here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-foreground">Phrasebook</h2>
+        <span className="text-sm text-muted-foreground">
+          {entries.length} phrase{entries.length === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      {/* Collections */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => setCollection(null)} className={chipClass(collection === null)}>
+          All ({entries.length})
+        </button>
+        {collections.map(([name, count]) => (
+          <button key={name} onClick={() => setCollection(name)} className={chipClass(collection === name)}>
+            <FolderOpen className="w-3 h-3" />
+            {name} ({count})
+          </button>
+        ))}
+        {unsortedCount > 0 && collections.length > 0 && (
+          <button onClick={() => setCollection('')} className={chipClass(collection === '')}>
+            Unsorted ({unsortedCount})
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {visible.map(entry => (
+          <div key={entry.id} className="history-item">
+            <div className="flex items-start justify-between mb-3">
+              <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                <span>{getLanguageFlag(entry.metadata.source_language)}</span>
+                <span>{entry.metadata.source_language}</span>
+                <span>→</span>
+                <span>{getLanguageFlag(entry.metadata.target_language)}</span>
+                <span>{entry.metadata.target_language}</span>
+              </div>
+
+              <div className="flex items-center gap-1">
+                <select
+                  value={entry.metadata.collection}
+                  onChange={(e) => handleMove(entry, e.target.value)}
+                  disabled={isUpdating === entry.id}
+                  className="text-xs p-1 border border-input rounded-lg bg-background text-foreground disabled:opacity-50"
+                  aria-label="Collection"
+                >
+                  <option value="">Unsorted</option>
+                  {collections.map(([name]) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                  <option value={NEW_COLLECTION}>New collection…</option>
+                </select>
+
+                {speechSupport.synthesis && (
+                  <button
+                    onClick={() => handleSpeak(entry.metadata.translated_text, entry.metadata.target_language)}
+                    className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                    title="Speak translation"
+                  >
+                    <Volume2 className="w-4 h-4" />
+                  </button>
+                )}
+
+                <button
+                  onClick={() => handleCopy(entry.metadata.translated_text)}
+                  className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                  title="Copy translation"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+
+                <button
+                  onClick={() => onReuse(entry)}
+                  className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                  title="Reuse language pair"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+
+                <button
+                  onClick={() => handleRemove(entry)}
+                  disabled={isUpdating === entry.id}
+                  className="p-1.5 rounded-lg text-primary hover:bg-accent transition-colors disabled:opacity-50"
+                  title="Remove from phrasebook"
+                >
+                  <Star className="w-4 h-4 fill-current" />
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-muted-foreground" dir={getTextDirection(entry.metadata.source_language)}>
+                {entry.metadata.source_text}
+              </p>
+              <p className="text-foreground font-medium text-lg" dir={getTextDirection(entry.metadata.target_language)}>
+                {entry.metadata.translated_text}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { getPopularLanguagePairs, getLanguageFlag } from '@/lib/utils';
+import { getPopularLanguagePairs, getLanguageFlag } from '@/lib/languages';
 
 interface QuickAccessProps {
   onLanguagePairSelect: (source: string, target: string) => void;
@@ -1,28 +1,164 @@
 'use client';
 
-import { useState } from 'react';
-import { Trash2, RotateCcw, Copy, Volume2 } from 'lucide-react';
-import { formatDate, copyToClipboard, getLanguageFlag } from '@/lib/utils';
-import { deleteTranslation } from '@/lib/cosmic';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Trash2, RotateCcw, Copy, Volume2, Download, Search, X, Star } from 'lucide-react';
+import { formatDate, copyToClipboard, downloadBlob } from '@/lib/utils';
+import { getLanguageFlag } from '@/lib/languages';
+import {
+  getTranslationHistory,
+  deleteTranslation,
+  getPhrasebookEntries,
+  addToPhrasebook,
+  removeFromPhrasebook,
+  getHistoryExportUrl,
+  getConversationExportUrl,
+  synthesizeSpeech,
+  ApiError,
+  type ExportFormat
+} from '@/lib/api';
 import { SpeechSynthesis, getSpeechSupport } from '@/lib/speech';
 import { toast } from 'react-hot-toast';
-import type { Translation } from '@/types';
+import type { Translation, TranslationMethod, TranslationHistoryQuery } from '@/types';
 
 interface TranslationHistoryProps {
-  translations: Translation[];
-  onDelete: (id: string) => void;
   onReuse: (translation: Translation) => void;
 }
 
-export default function TranslationHistory({ 
-  translations, 
-  onDelete, 
-  onReuse 
-}: TranslationHistoryProps) {
+const PAGE_SIZE = 20;
+const SEARCH_DELAY_MS = 300;
+const METHODS: TranslationMethod[] = ['text', 'voice', 'document'];
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'tmx', label: 'TMX' },
+  { format: 'xliff', label: 'XLIFF' }
+];
+const DATE_RANGES = [
+  { label: 'Today', days: 1 },
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 }
+];
+
+// Start of the day `days - 1` days ago, in local time
+function startOfRange(days: number): string {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  return start.toISOString();
+}
+
+function chipClass(active: boolean): string {
+  return `flex items-center gap-1 text-xs px-3 py-1 rounded-full border transition-colors ${
+    active
+      ? 'bg-primary text-primary-foreground border-primary'
+      : 'border-border text-muted-foreground hover:text-foreground'
+  }`;
+}
+
+export default function TranslationHistory({ onReuse }: TranslationHistoryProps) {
+  const [translations, setTranslations] = useState<Translation[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  // Phrasebook entry ids by the translation they star
+  const [starred, setStarred] = useState<Map<string, string>>(new Map());
+  const [isStarring, setIsStarring] = useState<string | null>(null);
+
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [method, setMethod] = useState<TranslationMethod | null>(null);
+  const [days, setDays] = useState<number | null>(null);
+  const [pair, setPair] = useState<{ source: string; target: string } | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [reviewOnly, setReviewOnly] = useState(false);
+
   const speechSynthesis = new SpeechSynthesis();
   const speechSupport = getSpeechSupport();
 
+  // Ignore pages for filters that have since changed
+  const latestRequest = useRef(0);
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const filters = useMemo<TranslationHistoryQuery>(() => ({
+    search: search || undefined,
+    method: method || undefined,
+    from: days ? startOfRange(days) : undefined,
+    sourceLanguage: pair?.source,
+    targetLanguage: pair?.target,
+    sessionId: sessionId || undefined,
+    needsReview: reviewOnly
+  }), [search, method, days, pair, sessionId, reviewOnly]);
+
+  const hasFilters = Boolean(search || method || days || pair || sessionId || reviewOnly);
+
+  const loadPage = useCallback(async (skip: number) => {
+    const requestId = ++latestRequest.current;
+    setIsLoading(true);
+
+    try {
+      const page = await getTranslationHistory({ ...filters, skip, limit: PAGE_SIZE });
+      if (requestId !== latestRequest.current) return;
+
+      setTranslations(prev => skip === 0 ? page.translations : [...prev, ...page.translations]);
+      setTotal(page.total);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      if (requestId === latestRequest.current) {
+        toast.error('Failed to load translation history');
+        setHasMore(false);
+      }
+    } finally {
+      if (requestId === latestRequest.current) setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    getPhrasebookEntries()
+      .then(entries => setStarred(new Map(entries.map(entry => [entry.metadata.translation, entry.id]))))
+      .catch(error => console.error('Failed to load phrasebook:', error));
+  }, []);
+
+  // New filters start again from the first page
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const target = sentinel.current;
+    if (!target || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadPage(translations.length);
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, loadPage, translations.length]);
+
+  const onDelete = (id: string) => {
+    setTranslations(prev => prev.filter(t => t.id !== id));
+    setTotal(prev => Math.max(0, prev - 1));
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setSearch('');
+    setMethod(null);
+    setDays(null);
+    setPair(null);
+    setSessionId(null);
+    setReviewOnly(false);
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this translation?')) return;
     
@@ -32,12 +168,41 @@ export default function TranslationHistory({
       onDelete(id);
       toast.success('Translation deleted');
     } catch (error) {
+      // Already gone or not ours: either way it should leave the list
+      if (error instanceof ApiError && (error.status === 403 || error.status === 404)) {
+        onDelete(id);
+        toast.error(error.message);
+        return;
+      }
       toast.error('Failed to delete translation');
     } finally {
       setIsDeleting(null);
     }
   };
 
+  const handleStar = async (translation: Translation) => {
+    const entryId = starred.get(translation.id);
+
+    setIsStarring(translation.id);
+    try {
+      const next = new Map(starred);
+      if (entryId) {
+        await removeFromPhrasebook(entryId);
+        next.delete(translation.id);
+        toast.success('Removed from phrasebook');
+      } else {
+        const entry = await addToPhrasebook(translation.id);
+        next.set(translation.id, entry.id);
+        toast.success('Added to phrasebook');
+      }
+      setStarred(next);
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : 'Failed to update phrasebook');
+    } finally {
+      setIsStarring(null);
+    }
+  };
+
   const handleCopy = async (text: string) => {
     const success = await copyToClipboard(text);
     if (success) {
@@ -60,7 +225,16 @@ export default function TranslationHistory({
     }
   };
 
-  if (translations.length === 0) {
+  const handleDownloadAudio = async (text: string, language: string) => {
+    try {
+      const { blob, fileName } = await synthesizeSpeech({ text, language, download: true });
+      downloadBlob(blob, fileName);
+    } catch (error) {
+      toast.error('Failed to generate audio');
+    }
+  };
+
+  if (!isLoading && translations.length === 0 && !hasFilters) {
     return (
       <div className="text-center py-12">
         <div className="text-4xl mb-4">📚</div>
@@ -72,27 +246,177 @@ export default function TranslationHistory({
 
   return (
     <div className="space-y-4">
-      <h2 className="text-xl font-bold text-foreground mb-4">Translation History</h2>
-      
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-foreground">Translation History</h2>
+        <span className="text-sm text-muted-foreground">
+          {total} translation{total === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      {/* Search and filters */}
+      <div className="space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search original and translated text..."
+            className="w-full pl-9 pr-3 py-2 border border-input rounded-lg bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {METHODS.map(option => (
+            <button
+              key={option}
+              onClick={() => setMethod(method === option ? null : option)}
+              className={chipClass(method === option)}
+            >
+              {option}
+            </button>
+          ))}
+
+          <span className="w-px h-4 bg-border" />
+
+          {DATE_RANGES.map(range => (
+            <button
+              key={range.days}
+              onClick={() => setDays(days === range.days ? null : range.days)}
+              className={chipClass(days === range.days)}
+            >
+              {range.label}
+            </button>
+          ))}
+
+          <span className="w-px h-4 bg-border" />
+
+          <button onClick={() => setReviewOnly(!reviewOnly)} className={chipClass(reviewOnly)}>
+            Needs review
+          </button>
+
+          {pair && (
+            <button onClick={() => setPair(null)} className={chipClass(true)} title="Clear language pair">
+              {pair.source} → {pair.target}
+              <X className="w-3 h-3" />
+            </button>
+          )}
+
+          {sessionId && (
+            <button onClick={() => setSessionId(null)} className={chipClass(true)} title="Clear session">
+              Session {sessionId.slice(0, 8)}
+              <X className="w-3 h-3" />
+            </button>
+          )}
+
+          {hasFilters && (
+            <button
+              onClick={clearFilters}
+              className="text-xs text-muted-foreground hover:text-foreground underline"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Export with the current filters; XLIFF holds a single language pair */}
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <Download className="w-3 h-3" />
+        {[
+          { label: 'History', url: (format: ExportFormat) => getHistoryExportUrl(format, filters) },
+          {
+            label: 'Conversations',
+            url: (format: ExportFormat) => getConversationExportUrl(format, {
+              sourceLanguage: pair?.source,
+              targetLanguage: pair?.target,
+              from: filters.from
+            })
+          }
+        ].map(({ label, url }) => (
+          <div key={label} className="flex items-center gap-1">
+            <span>{label}:</span>
+            {EXPORT_FORMATS.map(({ format, label: formatLabel }) => (
+              format === 'xliff' && !pair ? (
+                <span
+                  key={format}
+                  className="px-2 py-0.5 rounded border border-border opacity-50 cursor-not-allowed"
+                  title="Pick a language pair to export XLIFF"
+                >
+                  {formatLabel}
+                </span>
+              ) : (
+                <a
+                  key={format}
+                  href={url(format)}
+                  className="px-2 py-0.5 rounded border border-border hover:text-foreground transition-colors"
+                  title={`Export ${label.toLowerCase()} as ${formatLabel}`}
+                >
+                  {formatLabel}
+                </a>
+              )
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {!isLoading && translations.length === 0 && (
+        <p className="text-center py-8 text-muted-foreground">No translations match these filters</p>
+      )}
+
       <div className="space-y-3">
         {translations.map((translation: Translation) => (
           <div key={translation.id} className="history-item">
             <div className="flex items-start justify-between mb-3">
               <div className="flex items-center gap-3">
-                <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                <button
+                  onClick={() => setPair({
+                    source: translation.metadata.source_language,
+                    target: translation.metadata.target_language
+                  })}
+                  className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
+                  title="Show only this language pair"
+                >
                   <span>{getLanguageFlag(translation.metadata.source_language)}</span>
                   <span>{translation.metadata.source_language}</span>
                   <span>→</span>
                   <span>{getLanguageFlag(translation.metadata.target_language)}</span>
                   <span>{translation.metadata.target_language}</span>
-                </div>
+                </button>
                 
                 <span className="text-xs bg-secondary text-secondary-foreground px-2 py-1 rounded-full">
                   {translation.metadata.translation_method}
                 </span>
+
+                {translation.metadata.session_id && (
+                  <button
+                    onClick={() => setSessionId(translation.metadata.session_id || null)}
+                    className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                    title="Show only this session"
+                  >
+                    Session {translation.metadata.session_id.slice(0, 8)}
+                  </button>
+                )}
+
+                {translation.metadata.needs_review && (
+                  <span className="text-xs bg-destructive/10 text-destructive px-2 py-1 rounded-full">
+                    Needs review
+                  </span>
+                )}
               </div>
 
               <div className="flex items-center gap-1">
+                <button
+                  onClick={() => handleStar(translation)}
+                  disabled={isStarring === translation.id}
+                  className={`p-1.5 rounded-lg hover:bg-accent transition-colors disabled:opacity-50 ${
+                    starred.has(translation.id) ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                  title={starred.has(translation.id) ? 'Remove from phrasebook' : 'Add to phrasebook'}
+                >
+                  <Star className={`w-4 h-4 ${starred.has(translation.id) ? 'fill-current' : ''}`} />
+                </button>
+
                 <button
                   onClick={() => handleCopy(translation.metadata.translated_text)}
                   className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
@@ -110,6 +434,14 @@ export default function TranslationHistory({
                     <Volume2 className="w-4 h-4" />
                   </button>
                 )}
+
+                <button
+                  onClick={() => handleDownloadAudio(translation.metadata.translated_text, translation.metadata.target_language)}
+                  className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                  title="Download audio"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
                 
                 <button
                   onClick={() => onReuse(translation)}
@@ -147,8 +479,13 @@ export default function TranslationHistory({
                 {formatDate(translation.created_at)}
               </div>
               
-              {translation.metadata.confidence_score && translation.metadata.confidence_score > 0 && (
-                <div className="text-xs text-muted-foreground">
+              {translation.metadata.confidence_method === 'unavailable' ? (
+                <div className="text-xs text-muted-foreground">Confidence unavailable</div>
+              ) : translation.metadata.confidence_score && translation.metadata.confidence_score > 0 && (
+                <div
+                  className="text-xs text-muted-foreground"
+                  title={translation.metadata.confidence_method ? `Derived from: ${translation.metadata.confidence_method}` : undefined}
+                >
                   Confidence: {Math.round((translation.metadata.confidence_score ?? 0) * 100)}%
                 </div>
               )}
@@ -156,6 +493,13 @@ export default function TranslationHistory({
           </div>
         ))}
       </div>
+
+      <div ref={sentinel} />
+      {isLoading && (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
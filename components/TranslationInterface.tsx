@@ -1,14 +1,15 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { ArrowRightLeft, Volume2, Mic, MicOff, Copy, Star, RotateCcw } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { ArrowRightLeft, Volume2, Mic, MicOff, Copy, Star, RotateCcw, Database, AlertTriangle, Download } from 'lucide-react';
 import LanguageSelector from './LanguageSelector';
-import { translateText, detectLanguage } from '@/lib/translation';
-import { saveTranslation } from '@/lib/cosmic';
+import { streamTranslation, saveTranslation, addToPhrasebook, removeFromPhrasebook, synthesizeSpeech, getQuotaStatus, subscribeQuotaStatus, ApiError, type QuotaStatus } from '@/lib/api';
 import { SpeechRecognition, SpeechSynthesis, getSpeechSupport } from '@/lib/speech';
-import { validateTranslationInput, copyToClipboard, debounce } from '@/lib/utils';
+import { validateTranslationInput, copyToClipboard, debounce, downloadBlob } from '@/lib/utils';
+import { getTextDirection } from '@/lib/languages';
 import { toast } from 'react-hot-toast';
-import type { Language } from '@/types';
+import type { Language, Translation, PhrasebookEntry, MemoryMatch, TranslationSource, GlossaryViolation, ConfidenceDetails, LanguageDetection } from '@/types';
 
 interface TranslationInterfaceProps {
   languages: Language[];
@@ -16,6 +17,24 @@ interface TranslationInterfaceProps {
   initialTargetLang?: string;
 }
 
+// Tooltip explaining how the confidence score was derived
+function describeConfidence(details: ConfidenceDetails | null): string {
+  if (!details) return '';
+
+  const parts: string[] = [];
+  if (details.tokenProbability !== undefined) {
+    parts.push(`token probability ${Math.round(details.tokenProbability * 100)}%`);
+  }
+  if (details.backTranslationSimilarity !== undefined) {
+    parts.push(`back-translation match ${Math.round(details.backTranslationSimilarity * 100)}%`);
+  }
+  if (details.backTranslation) {
+    parts.push(`back-translation: "${details.backTranslation}"`);
+  }
+
+  return details.method === 'memory' ? 'Exact translation memory match' : parts.join(', ');
+}
+
 export default function TranslationInterface({ 
   languages, 
   initialSourceLang = 'English',
@@ -27,17 +46,41 @@ export default function TranslationInterface({
   const [targetLang, setTargetLang] = useState(initialTargetLang);
   const [isTranslating, setIsTranslating] = useState(false);
   const [isListening, setIsListening] = useState(false);
-  const [confidence, setConfidence] = useState(0);
+  const [confidence, setConfidence] = useState<number | null>(null);
+  const [confidenceDetails, setConfidenceDetails] = useState<ConfidenceDetails | null>(null);
   const [alternatives, setAlternatives] = useState<string[]>([]);
+  const [translationSource, setTranslationSource] = useState<TranslationSource | null>(null);
+  const [memoryMatches, setMemoryMatches] = useState<MemoryMatch[]>([]);
+  const [glossaryViolations, setGlossaryViolations] = useState<GlossaryViolation[]>([]);
   const [autoDetect, setAutoDetect] = useState(false);
+  const [audioFormat, setAudioFormat] = useState<'mp3' | 'wav'>('mp3');
+  const [isDownloadingAudio, setIsDownloadingAudio] = useState(false);
+  // Detection that was too uncertain to switch the source language
+  const [uncertainDetection, setUncertainDetection] = useState<LanguageDetection | null>(null);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  // History record of the current result, and its phrasebook entry once starred
+  const [savedTranslation, setSavedTranslation] = useState<Translation | null>(null);
+  const [starredEntry, setStarredEntry] = useState<PhrasebookEntry | null>(null);
+  const [isStarring, setIsStarring] = useState(false);
+
+  const { status: sessionStatus } = useSession();
+  // Read inside the debounced translate callback, which outlives renders
+  const signedIn = useRef(false);
+  signedIn.current = sessionStatus === 'authenticated';
 
   const speechRecognition = useRef<SpeechRecognition | null>(null);
   const speechSynthesis = useRef<SpeechSynthesis | null>(null);
   const sourceTextAreaRef = useRef<HTMLTextAreaElement>(null);
   const translatedTextAreaRef = useRef<HTMLTextAreaElement>(null);
+  const latestRequest = useRef(0);
 
   const speechSupport = getSpeechSupport();
 
+  useEffect(() => {
+    setQuota(getQuotaStatus());
+    return subscribeQuotaStatus(setQuota);
+  }, []);
+
   useEffect(() => {
     if (speechSupport.recognition) {
       speechRecognition.current = new SpeechRecognition();
@@ -47,6 +90,19 @@ export default function TranslationInterface({
     }
   }, [speechSupport]);
 
+  // Clear everything derived from the last translation result
+  const resetResult = () => {
+    setAlternatives([]);
+    setConfidence(null);
+    setConfidenceDetails(null);
+    setTranslationSource(null);
+    setMemoryMatches([]);
+    setGlossaryViolations([]);
+    setUncertainDetection(null);
+    setSavedTranslation(null);
+    setStarredEntry(null);
+  };
+
   // Debounced translation function
   const debouncedTranslate = useCallback(
     debounce(async (text: string, source: string, target: string) => {
@@ -58,39 +114,63 @@ export default function TranslationInterface({
         return;
       }
 
+      // Ignore output from streams superseded by a newer request
+      const requestId = ++latestRequest.current;
+      const isCurrent = () => requestId === latestRequest.current;
+
       setIsTranslating(true);
+      setTranslatedText('');
+      resetResult();
       try {
-        // Auto-detect language if enabled
-        let actualSourceLang = source;
-        if (autoDetect && text.length > 10) {
-          const detectedLang = await detectLanguage(text);
-          if (detectedLang && detectedLang !== 'Unknown') {
-            actualSourceLang = detectedLang;
-            setSourceLang(detectedLang);
+        // Render partial output as it streams in; auto-detection runs server-side
+        const result = await streamTranslation(
+          { text, sourceLanguage: source, targetLanguage: target, autoDetect },
+          (delta) => {
+            if (isCurrent()) setTranslatedText(prev => prev + delta);
           }
+        );
+        if (!isCurrent()) return;
+
+        // The server only reports a detected language on an unambiguous match
+        const actualSourceLang = result.detectedLanguage || source;
+        if (result.detectedLanguage) {
+          setSourceLang(result.detectedLanguage);
+        } else if (result.detection && !result.detection.unambiguous
+          && result.detection.candidates.some(candidate => candidate.language)) {
+          setUncertainDetection(result.detection);
         }
 
-        const result = await translateText(text, actualSourceLang, target);
         setTranslatedText(result.translatedText);
         setConfidence(result.confidence);
+        setConfidenceDetails(result.confidenceDetails || null);
         setAlternatives(result.alternatives || []);
+        setTranslationSource(result.source || null);
+        setMemoryMatches(result.source === 'memory' ? [] : result.memoryMatches || []);
+        setGlossaryViolations(result.glossaryViolations || []);
 
-        // Save translation to history
-        await saveTranslation({
-          sourceText: text,
-          translatedText: result.translatedText,
-          sourceLanguage: actualSourceLang,
-          targetLanguage: target,
-          method: 'text',
-          confidence: result.confidence
-        });
+        // Save translation to the signed-in user's history
+        if (signedIn.current) {
+          const saved = await saveTranslation({
+            sourceText: text,
+            translatedText: result.translatedText,
+            sourceLanguage: actualSourceLang,
+            targetLanguage: target,
+            method: 'text',
+            confidenceToken: result.confidenceToken
+          });
+          if (isCurrent()) setSavedTranslation(saved);
+        }
 
         toast.success('Translation completed');
       } catch (error) {
         console.error('Translation error:', error);
-        toast.error('Translation failed. Please try again.');
+        if (!isCurrent()) return;
+        // Rate limit and quota errors say when to try again
+        toast.error(error instanceof ApiError && error.status === 429
+          ? error.message
+          : 'Translation failed. Please try again.');
       } finally {
-        setIsTranslating(false);
+        if (isCurrent()) setIsTranslating(false);
       }
     }, 1000),
     [autoDetect]
@@ -102,8 +182,7 @@ export default function TranslationInterface({
       debouncedTranslate(text, sourceLang, targetLang);
     } else {
       setTranslatedText('');
-      setAlternatives([]);
-      setConfidence(0);
+      resetResult();
     }
   };
 
@@ -165,6 +244,25 @@ export default function TranslationInterface({
     }
   };
 
+  const downloadAudio = async () => {
+    if (!translatedText.trim()) return;
+
+    setIsDownloadingAudio(true);
+    try {
+      const { blob, fileName } = await synthesizeSpeech({
+        text: translatedText,
+        language: targetLang,
+        format: audioFormat,
+        download: true
+      });
+      downloadBlob(blob, fileName);
+    } catch (error) {
+      toast.error('Failed to generate audio');
+    } finally {
+      setIsDownloadingAudio(false);
+    }
+  };
+
   const copyTranslation = async () => {
     if (!translatedText.trim()) {
       toast.error('No translation to copy');
@@ -179,11 +277,39 @@ export default function TranslationInterface({
     }
   };
 
+  // Star or unstar the current translation in the phrasebook
+  const toggleStar = async () => {
+    if (!signedIn.current) {
+      toast.error('Sign in to save phrases');
+      return;
+    }
+    if (!savedTranslation) {
+      toast.error('This translation has not been saved yet');
+      return;
+    }
+
+    setIsStarring(true);
+    try {
+      if (starredEntry) {
+        await removeFromPhrasebook(starredEntry.id);
+        setStarredEntry(null);
+        toast.success('Removed from phrasebook');
+      } else {
+        setStarredEntry(await addToPhrasebook(savedTranslation.id));
+        toast.success('Added to phrasebook');
+      }
+    } catch (error) {
+      console.error('Phrasebook error:', error);
+      toast.error(error instanceof ApiError ? error.message : 'Failed to update phrasebook');
+    } finally {
+      setIsStarring(false);
+    }
+  };
+
   const clearText = () => {
     setSourceText('');
     setTranslatedText('');
-    setAlternatives([]);
-    setConfidence(0);
+    resetResult();
     if (sourceTextAreaRef.current) {
       sourceTextAreaRef.current.focus();
     }
@@ -205,6 +331,24 @@ export default function TranslationInterface({
         </label>
       </div>
 
+      {uncertainDetection && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <span>Not sure about the source language. Did you mean:</span>
+          {uncertainDetection.candidates.map(({ code, language, confidence }) => language && (
+            <button
+              key={code}
+              onClick={() => {
+                setSourceLang(language.title);
+                setUncertainDetection(null);
+              }}
+              className="px-2 py-1 rounded-full bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+            >
+              {language.title} ({Math.round(confidence * 100)}%)
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Language selectors */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
         <LanguageSelector
@@ -278,11 +422,17 @@ export default function TranslationInterface({
             placeholder="Enter text to translate..."
             disabled={isTranslating || isListening}
             className="translation-input min-h-[120px]"
+            dir={getTextDirection(sourceLang)}
             maxLength={5000}
           />
           
           <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
-            <span>{sourceText.length}/5000 characters</span>
+            <span>
+              {sourceText.length}/5000 characters
+              {quota?.charactersRemaining !== undefined && (
+                <> · {quota.charactersRemaining.toLocaleString()} left today</>
+              )}
+            </span>
             {isListening && (
               <span className="text-primary animate-pulse">Listening...</span>
             )}
@@ -304,6 +454,27 @@ export default function TranslationInterface({
                   <Volume2 className="w-4 h-4" />
                 </button>
               )}
+              {translatedText && !isTranslating && (
+                <div className="flex items-center">
+                  <button
+                    onClick={downloadAudio}
+                    disabled={isDownloadingAudio}
+                    className="p-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors disabled:opacity-50"
+                    title={`Download audio (${audioFormat.toUpperCase()})`}
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <select
+                    value={audioFormat}
+                    onChange={(e) => setAudioFormat(e.target.value as 'mp3' | 'wav')}
+                    className="text-xs bg-transparent text-muted-foreground focus:outline-none"
+                    aria-label="Audio format"
+                  >
+                    <option value="mp3">MP3</option>
+                    <option value="wav">WAV</option>
+                  </select>
+                </div>
+              )}
               {translatedText && (
                 <button
                   onClick={copyTranslation}
@@ -313,11 +484,28 @@ export default function TranslationInterface({
                   <Copy className="w-4 h-4" />
                 </button>
               )}
+              {translatedText && !isTranslating && (
+                <button
+                  onClick={toggleStar}
+                  disabled={isStarring}
+                  className={`p-2 rounded-lg hover:bg-accent transition-colors disabled:opacity-50 ${
+                    starredEntry ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                  title={starredEntry ? 'Remove from phrasebook' : 'Add to phrasebook'}
+                >
+                  <Star className={`w-4 h-4 ${starredEntry ? 'fill-current' : ''}`} />
+                </button>
+              )}
             </div>
           </div>
           
-          <div className="translation-result">
-            {isTranslating ? (
+          <div className="translation-result" dir={getTextDirection(targetLang)}>
+            {isTranslating && translatedText ? (
+              <p className="text-foreground leading-relaxed">
+                {translatedText}
+                <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-primary animate-pulse" />
+              </p>
+            ) : isTranslating ? (
               <div className="flex items-center justify-center h-full">
                 <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
                 <span className="ml-2 text-muted-foreground">Translating...</span>
@@ -326,10 +514,40 @@ export default function TranslationInterface({
               <div className="space-y-3">
                 <p className="text-foreground leading-relaxed">{translatedText}</p>
                 
-                {confidence > 0 && (
+                {confidenceDetails?.method === 'unavailable' ? (
                   <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Star className="w-3 h-3" />
+                    <span>Confidence unavailable</span>
+                  </div>
+                ) : confidence !== null && (
+                  <div
+                    className="flex items-center gap-2 text-xs text-muted-foreground"
+                    title={describeConfidence(confidenceDetails)}
+                  >
                     <Star className="w-3 h-3" />
                     <span>Confidence: {Math.round(confidence * 100)}%</span>
+                    {confidenceDetails?.needsReview && (
+                      <span className="bg-destructive/10 text-destructive px-2 py-0.5 rounded-full">
+                        Needs review
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {translationSource === 'memory' && (
+                  <div className="flex items-center gap-2 text-xs text-primary">
+                    <Database className="w-3 h-3" />
+                    <span>From translation memory</span>
+                  </div>
+                )}
+
+                {glossaryViolations.length > 0 && (
+                  <div className="flex items-start gap-2 text-xs text-destructive">
+                    <AlertTriangle className="w-3 h-3 mt-0.5" />
+                    <span>
+                      Missing glossary terms:{' '}
+                      {glossaryViolations.map(v => `"${v.expectedTerm}" (for "${v.sourceTerm}")`).join(', ')}
+                    </span>
                   </div>
                 )}
               </div>
@@ -340,6 +558,30 @@ export default function TranslationInterface({
         </div>
       </div>
 
+      {/* Fuzzy translation memory matches */}
+      {memoryMatches.length > 0 && (
+        <div className="translation-card">
+          <h3 className="text-sm font-medium text-muted-foreground mb-3">Similar translations from memory:</h3>
+          <div className="space-y-2">
+            {memoryMatches.map((match: MemoryMatch, index: number) => (
+              <button
+                key={match.translationId || index}
+                onClick={() => setTranslatedText(match.translatedText)}
+                className="w-full text-left p-2 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors text-sm"
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="text-xs text-muted-foreground truncate">{match.sourceText}</span>
+                  <span className="text-xs font-medium text-primary whitespace-nowrap">
+                    {Math.round(match.similarity * 100)}% match
+                  </span>
+                </div>
+                <span>{match.translatedText}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Alternative translations */}
       {alternatives.length > 0 && (
         <div className="translation-card">
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BarChart3, RefreshCw } from 'lucide-react';
+import { getUsageSummary, ApiError } from '@/lib/api';
+import { toast } from 'react-hot-toast';
+import type { UsageBucket, UsageSummary } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function formatCost(usd: number): string {
+  return `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString();
+}
+
+function UsageTable({ title, buckets }: { title: string; buckets: UsageBucket[] }) {
+  return (
+    <div className="bg-card border border-border rounded-lg p-4">
+      <h3 className="font-semibold text-foreground mb-3">{title}</h3>
+      {buckets.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No usage in this range</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto custom-scrollbar">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="py-2 pr-2 font-medium"></th>
+                <th className="py-2 px-2 font-medium text-right">Requests</th>
+                <th className="py-2 px-2 font-medium text-right">Tokens</th>
+                <th className="py-2 pl-2 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {buckets.map(bucket => (
+                <tr key={bucket.key} className="border-b border-border last:border-0">
+                  <td className="py-2 pr-2 text-foreground break-all">{bucket.key}</td>
+                  <td className="py-2 px-2 text-right text-muted-foreground">{bucket.requests}</td>
+                  <td className="py-2 px-2 text-right text-muted-foreground">
+                    {formatTokens(bucket.promptTokens + bucket.completionTokens)}
+                  </td>
+                  <td className="py-2 pl-2 text-right text-foreground">{formatCost(bucket.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function UsageDashboard() {
+  const [from, setFrom] = useState(() => isoDay(Date.now() - 29 * DAY_MS));
+  const [to, setTo] = useState(() => isoDay(Date.now()));
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadUsage() {
+      setIsLoading(true);
+      try {
+        const fetched = await getUsageSummary(from, to);
+        if (!cancelled) setSummary(fetched);
+      } catch (error) {
+        if (!cancelled) {
+          toast.error(error instanceof ApiError ? error.message : 'Failed to load usage');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    loadUsage();
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, refreshKey]);
+
+  const totals = summary?.totals;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-primary" />
+          <h2 className="text-2xl font-bold text-foreground">Usage</h2>
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => e.target.value && setFrom(e.target.value)}
+            className="p-2 border border-input rounded-lg bg-background text-foreground"
+          />
+          <span className="text-muted-foreground">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => e.target.value && setTo(e.target.value)}
+            className="p-2 border border-input rounded-lg bg-background text-foreground"
+          />
+          <button
+            onClick={() => setRefreshKey(key => key + 1)}
+            disabled={isLoading}
+            className="p-2 rounded-lg bg-secondary text-secondary-foreground hover:bg-secondary/80 disabled:opacity-50 transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {totals && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: 'Requests', value: totals.requests.toLocaleString() },
+            { label: 'Prompt tokens', value: formatTokens(totals.promptTokens) },
+            { label: 'Completion tokens', value: formatTokens(totals.completionTokens) },
+            { label: 'Spend', value: formatCost(totals.costUsd) }
+          ].map(({ label, value }) => (
+            <div key={label} className="bg-card border border-border rounded-lg p-4">
+              <p className="text-sm text-muted-foreground">{label}</p>
+              <p className="text-2xl font-bold text-foreground">{value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <UsageTable title="By day" buckets={summary.byDay} />
+          <UsageTable title="By user" buckets={summary.byUser} />
+          <UsageTable title="By language pair" buckets={summary.byLanguagePair} />
+          <UsageTable title="By method" buckets={summary.byMethod} />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Costs use list prices per model; calls whose provider reports no token counts are estimated from text length.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useSession, signOut } from 'next-auth/react';
+import { LogIn, LogOut, User, BarChart3, Database } from 'lucide-react';
+
+export default function UserMenu() {
+  const { data: session, status } = useSession();
+
+  if (status === 'loading') {
+    return <div className="w-20 h-8 rounded-lg bg-muted animate-pulse" />;
+  }
+
+  if (!session) {
+    return (
+      <a
+        href="/signin"
+        className="flex items-center gap-2 px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+      >
+        <LogIn className="w-4 h-4" />
+        Sign in
+      </a>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="flex items-center gap-2 text-sm text-foreground">
+        <User className="w-4 h-4 text-muted-foreground" />
+        {session.user.name || session.user.email}
+      </span>
+      {session.user.isAdmin && (
+        <>
+          <a
+            href="/admin/usage"
+            className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+            title="Usage and spend"
+          >
+            <BarChart3 className="w-4 h-4" />
+          </a>
+          <a
+            href="/admin/memory"
+            className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+            title="Import translation memory"
+          >
+            <Database className="w-4 h-4" />
+          </a>
+        </>
+      )}
+      <button
+        onClick={() => signOut({ callbackUrl: '/' })}
+        className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+        title="Sign out"
+      >
+        <LogOut className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
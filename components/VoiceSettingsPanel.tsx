@@ -0,0 +1,250 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { SlidersHorizontal, Play, Check, RotateCcw } from 'lucide-react';
+import LanguageSelector from './LanguageSelector';
+import { SpeechSynthesis } from '@/lib/speech';
+import { getUserProfile, saveUserProfile } from '@/lib/api';
+import { getLanguageInfo } from '@/lib/languages';
+import {
+  DEFAULT_VOICE_PREFERENCES,
+  getVoicePreferences,
+  setVoicePreferences,
+  subscribeVoicePreferences,
+  normalizeVoicePreferences
+} from '@/lib/voice-settings';
+import { toast } from 'react-hot-toast';
+import type { Language, UserProfile, VoicePreferences } from '@/types';
+
+interface VoiceSettingsPanelProps {
+  languages: Language[];
+  // Signed-in user whose profile stores the preferences, if any
+  userId?: string;
+}
+
+const SLIDERS: Array<{ key: 'speed' | 'pitch' | 'volume'; label: string; min: number; max: number; step: number }> = [
+  { key: 'speed', label: 'Speed', min: 0.5, max: 2, step: 0.1 },
+  { key: 'pitch', label: 'Pitch', min: 0, max: 2, step: 0.1 },
+  { key: 'volume', label: 'Volume', min: 0, max: 1, step: 0.05 }
+];
+
+// Short phrase in the language itself, so previews sound like real use
+function previewText(language: string): string {
+  const info = getLanguageInfo(language);
+  return info ? `${info.nativeName}. 1, 2, 3.` : `${language}. 1, 2, 3.`;
+}
+
+export default function VoiceSettingsPanel({ languages, userId }: VoiceSettingsPanelProps) {
+  const [preferences, setPreferences] = useState<VoicePreferences>(DEFAULT_VOICE_PREFERENCES);
+  const [language, setLanguage] = useState('Spanish');
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const speechSynthesis = useRef<SpeechSynthesis | null>(null);
+
+  // Stored preferences are only readable in the browser
+  useEffect(() => {
+    setPreferences(getVoicePreferences());
+    return subscribeVoicePreferences(setPreferences);
+  }, []);
+
+  useEffect(() => {
+    speechSynthesis.current = new SpeechSynthesis();
+    const synthesis = speechSynthesis.current;
+
+    const loadVoices = () => setVoices(synthesis.getVoices(language));
+    loadVoices();
+    return synthesis.onVoicesChanged(loadVoices);
+  }, [language]);
+
+  // A profile's settings win over this device's on first load
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    getUserProfile()
+      .then(fetched => {
+        if (cancelled || !fetched) return;
+        setProfile(fetched);
+        if (fetched.metadata.voice_settings) {
+          setVoicePreferences(normalizeVoicePreferences(fetched.metadata.voice_settings));
+        }
+      })
+      .catch(() => {
+        if (!cancelled) toast.error('Failed to load your profile');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const update = (changes: Partial<VoicePreferences>) => {
+    setVoicePreferences({ ...getVoicePreferences(), ...changes });
+  };
+
+  const chooseVoice = (voiceName: string | undefined) => {
+    const chosen = { ...getVoicePreferences().voices };
+    if (voiceName) {
+      chosen[language] = voiceName;
+    } else {
+      delete chosen[language];
+    }
+    update({ voices: chosen });
+  };
+
+  const preview = (voiceName?: string) => {
+    const { speed, pitch, volume } = preferences;
+    speechSynthesis.current?.stop();
+    speechSynthesis.current
+      ?.speak(previewText(language), language, { speed, pitch, volume, voice: voiceName })
+      .catch(() => toast.error('Failed to play preview'));
+  };
+
+  const reset = () => {
+    setVoicePreferences(DEFAULT_VOICE_PREFERENCES);
+    toast.success('Voice settings reset');
+  };
+
+  const saveToProfile = async () => {
+    if (!userId || !profile) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await saveUserProfile({
+        email: profile.metadata.email,
+        preferredLanguages: profile.metadata.preferred_languages,
+        voiceSettings: preferences,
+        theme: profile.metadata.theme,
+        autoDetect: profile.metadata.auto_detect,
+        saveHistory: profile.metadata.save_history
+      });
+      setProfile(saved);
+      toast.success('Voice settings saved to your profile');
+    } catch (error) {
+      toast.error('Failed to save voice settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectedVoice = preferences.voices?.[language];
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-primary" />
+          <h2 className="text-2xl font-bold text-foreground">Voice Settings</h2>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {profile && (
+            <button
+              onClick={saveToProfile}
+              disabled={isSaving}
+              className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSaving ? 'Saving...' : 'Save to Profile'}
+            </button>
+          )}
+          <button
+            onClick={reset}
+            className="flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        These settings apply whenever text is spoken: translations, history and conversations.
+        {!profile && ' They are kept on this device.'}
+      </p>
+
+      {/* Speed, pitch and volume */}
+      <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+        {SLIDERS.map(({ key, label, min, max, step }) => (
+          <label key={key} className="flex items-center gap-4">
+            <span className="w-20 text-sm font-medium text-foreground">{label}</span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={preferences[key]}
+              onChange={(e) => update({ [key]: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="w-12 text-right text-sm text-muted-foreground">{preferences[key].toFixed(2)}</span>
+          </label>
+        ))}
+      </div>
+
+      {/* Voice per language */}
+      <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+        <LanguageSelector
+          languages={languages}
+          value={language}
+          onChange={setLanguage}
+          label="Voice for"
+        />
+
+        {voices.length === 0 ? (
+          <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+            <p>No voice is installed for {language} on this device, so speech is generated on the server.</p>
+            <button
+              onClick={() => preview()}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+            >
+              <Play className="w-3 h-3" />
+              Preview
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+            {[undefined, ...voices].map((voice) => {
+              const name = voice?.name;
+              const isSelected = selectedVoice === name || (!name && !voices.some(v => v.name === selectedVoice));
+
+              return (
+                <div
+                  key={name || 'default'}
+                  className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${
+                    isSelected ? 'border-primary bg-primary/5' : 'border-border hover:bg-accent'
+                  }`}
+                >
+                  <button
+                    onClick={() => chooseVoice(name)}
+                    className="flex-1 flex items-center gap-3 text-left"
+                  >
+                    <span className={`w-4 h-4 rounded-full border flex items-center justify-center ${
+                      isSelected ? 'border-primary bg-primary text-primary-foreground' : 'border-input'
+                    }`}>
+                      {isSelected && <Check className="w-3 h-3" />}
+                    </span>
+                    <span className="text-sm text-foreground">{name || 'Default voice'}</span>
+                    {voice && (
+                      <span className="text-xs text-muted-foreground">
+                        {voice.lang}{voice.localService ? '' : ' · online'}
+                      </span>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => preview(name)}
+                    className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                    title="Preview voice"
+                  >
+                    <Play className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
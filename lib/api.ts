@@ -0,0 +1,552 @@
+import { readSSE } from '@/lib/sse';
+import type {
+  Language,
+  Translation,
+  TranslationHistoryQuery,
+  TranslationHistoryPage,
+  UserProfile,
+  ConversationSession,
+  ConversationParticipant,
+  ConversationMessage,
+  ConversationRoom,
+  GlossaryEntry,
+  PhrasebookEntry,
+  DocumentTranslation,
+  TranslationResponse,
+  LanguageDetection,
+  TranslationMethod,
+  VoicePreferences,
+  Theme,
+  UsageSummary,
+  MemoryImportJob
+} from '@/types';
+
+// Browser-side client for the app's API routes. Components use this instead
+// of lib/cosmic and lib/translation, which hold server secrets.
+
+export interface TranslateParams {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  autoDetect?: boolean;
+}
+
+// Allowance left according to the latest rate-limited response. Translation
+// routes report it in X-RateLimit-* and X-Quota-* headers.
+export interface QuotaStatus {
+  requestsRemaining?: number;
+  charactersRemaining?: number;
+  charactersLimit?: number;
+  // Seconds until the daily quota resets
+  resetSeconds?: number;
+}
+
+let quotaStatus: QuotaStatus | null = null;
+const quotaListeners = new Set<(status: QuotaStatus) => void>();
+
+function headerNumber(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name);
+  return value === null ? undefined : Number(value);
+}
+
+function readQuotaHeaders(headers: Headers) {
+  if (!headers.has('X-RateLimit-Remaining') && !headers.has('X-Quota-Characters-Remaining')) return;
+
+  const status: QuotaStatus = {
+    requestsRemaining: headerNumber(headers, 'X-RateLimit-Remaining'),
+    charactersRemaining: headerNumber(headers, 'X-Quota-Characters-Remaining'),
+    charactersLimit: headerNumber(headers, 'X-Quota-Characters-Limit'),
+    resetSeconds: headerNumber(headers, 'X-Quota-Reset')
+  };
+  quotaStatus = status;
+  quotaListeners.forEach(listener => listener(status));
+}
+
+// Latest known quota, or null before any translation request
+export function getQuotaStatus(): QuotaStatus | null {
+  return quotaStatus;
+}
+
+// Be told when the quota changes; returns an unsubscribe function
+export function subscribeQuotaStatus(listener: (status: QuotaStatus) => void): () => void {
+  quotaListeners.add(listener);
+  return () => quotaListeners.delete(listener);
+}
+
+// Error from an API route, carrying the HTTP status
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Fetch JSON from an API route, surfacing the route's error message
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: typeof init?.body === 'string'
+      ? { 'Content-Type': 'application/json', ...init.headers }
+      : init?.headers
+  });
+  readQuotaHeaders(response.headers);
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ApiError(data.error || `Request failed with status ${response.status}`, response.status);
+  }
+
+  return data as T;
+}
+
+// Get all supported languages
+export async function getLanguages(): Promise<Language[]> {
+  const data = await request<{ languages: Language[] }>('/api/languages');
+  return data.languages;
+}
+
+// Translate text in one request
+export async function translateText(params: TranslateParams): Promise<TranslationResponse> {
+  return request<TranslationResponse>('/api/translate', {
+    method: 'POST',
+    body: JSON.stringify(params)
+  });
+}
+
+// Translate through /api/translate in streaming mode. onDelta receives the
+// partial translation as it arrives; the promise resolves with the final result.
+export async function streamTranslation(
+  params: TranslateParams,
+  onDelta: (delta: string) => void
+): Promise<TranslationResponse> {
+  const response = await fetch('/api/translate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...params, stream: true })
+  });
+  readQuotaHeaders(response.headers);
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || 'Translation failed', response.status);
+  }
+
+  for await (const event of readSSE(response.body)) {
+    const data = JSON.parse(event.data);
+
+    if (event.event === 'delta') {
+      onDelta(data.text);
+    } else if (event.event === 'done') {
+      return data as TranslationResponse;
+    } else if (event.event === 'error') {
+      throw new Error(data.error || 'Translation failed');
+    }
+  }
+
+  throw new Error('Translation stream ended unexpectedly');
+}
+
+// Detect the language of given text
+export async function detectLanguage(text: string, maxCandidates?: number): Promise<LanguageDetection> {
+  return request<LanguageDetection>('/api/detect', {
+    method: 'POST',
+    body: JSON.stringify({ text, maxCandidates })
+  });
+}
+
+// Transcribe recorded speech on the server (browsers without speech recognition)
+export async function transcribeAudio(audio: Blob, language: string): Promise<{ text: string }> {
+  const formData = new FormData();
+  // The extension helps Whisper-style servers recognise the container
+  const extension = audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'mp4' : 'webm';
+  formData.append('audio', audio, `recording.${extension}`);
+  formData.append('language', language);
+
+  return request<{ text: string }>('/api/transcribe', {
+    method: 'POST',
+    body: formData
+  });
+}
+
+// Synthesize speech on the server; resolves with the audio and its file name
+export async function synthesizeSpeech(params: {
+  text: string;
+  language: string;
+  voice?: string;
+  speed?: number;
+  format?: 'mp3' | 'wav';
+  download?: boolean;
+}): Promise<{ blob: Blob; fileName: string }> {
+  const response = await fetch('/api/speak', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params)
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || 'Speech synthesis failed', response.status);
+  }
+
+  const blob = await response.blob();
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const encodedName = disposition.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+  const extension = blob.type === 'audio/wav' ? 'wav' : 'mp3';
+
+  return {
+    blob,
+    fileName: encodedName ? decodeURIComponent(encodedName) : `speech.${extension}`
+  };
+}
+
+// Get a page of translation history, newest first, with optional filters and search
+export async function getTranslationHistory(query: TranslationHistoryQuery = {}): Promise<TranslationHistoryPage> {
+  const params = new URLSearchParams();
+  if (query.search) params.set('q', query.search);
+  if (query.sourceLanguage) params.set('sourceLanguage', query.sourceLanguage);
+  if (query.targetLanguage) params.set('targetLanguage', query.targetLanguage);
+  if (query.method) params.set('method', query.method);
+  if (query.sessionId) params.set('sessionId', query.sessionId);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.needsReview) params.set('needsReview', 'true');
+  if (query.limit) params.set('limit', String(query.limit));
+  if (query.skip) params.set('skip', String(query.skip));
+
+  const search = params.toString();
+  return request<TranslationHistoryPage>(search ? `/api/history?${search}` : '/api/history');
+}
+
+// Save a translation to history
+export async function saveTranslation(data: {
+  sourceText: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  method: TranslationMethod;
+  sessionId?: string;
+  // From the translation response; the server takes the score from it
+  confidenceToken?: string;
+}): Promise<Translation> {
+  const result = await request<{ translation: Translation }>('/api/history', {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+  return result.translation;
+}
+
+// Delete a translation from history
+export async function deleteTranslation(translationId: string): Promise<void> {
+  await request<{ success: boolean }>(`/api/history?id=${encodeURIComponent(translationId)}`, {
+    method: 'DELETE'
+  });
+}
+
+export type ExportFormat = 'csv' | 'json' | 'tmx' | 'xliff';
+
+// URL that downloads translation history matching the query
+export function getHistoryExportUrl(format: ExportFormat, query: TranslationHistoryQuery = {}): string {
+  const params = new URLSearchParams({ type: 'history', format });
+  if (query.search) params.set('q', query.search);
+  if (query.sourceLanguage) params.set('sourceLanguage', query.sourceLanguage);
+  if (query.targetLanguage) params.set('targetLanguage', query.targetLanguage);
+  if (query.method) params.set('method', query.method);
+  if (query.sessionId) params.set('sessionId', query.sessionId);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.needsReview) params.set('needsReview', 'true');
+  return `/api/export?${params}`;
+}
+
+// URL that downloads saved conversation transcripts, or one with conversationId
+export function getConversationExportUrl(format: ExportFormat, options: {
+  conversationId?: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  from?: string;
+  to?: string;
+} = {}): string {
+  const params = new URLSearchParams({ type: 'conversations', format });
+  if (options.conversationId) params.set('id', options.conversationId);
+  if (options.sourceLanguage) params.set('sourceLanguage', options.sourceLanguage);
+  if (options.targetLanguage) params.set('targetLanguage', options.targetLanguage);
+  if (options.from) params.set('from', options.from);
+  if (options.to) params.set('to', options.to);
+  return `/api/export?${params}`;
+}
+
+// Get the signed-in user's saved conversations
+export async function getConversationSessions(): Promise<ConversationSession[]> {
+  const data = await request<{ conversations: ConversationSession[] }>('/api/conversations');
+  return data.conversations;
+}
+
+// Delete a saved conversation
+export async function deleteConversationSession(conversationId: string): Promise<void> {
+  await request<{ success: boolean }>(`/api/conversations?id=${encodeURIComponent(conversationId)}`, {
+    method: 'DELETE'
+  });
+}
+
+// Save a conversation session
+export async function saveConversationSession(data: {
+  participants: ConversationParticipant[];
+  messages: ConversationMessage[];
+  status: 'active' | 'completed';
+  duration?: number;
+}): Promise<ConversationSession> {
+  const result = await request<{ conversation: ConversationSession }>('/api/conversations', {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+  return result.conversation;
+}
+
+// Create a shared conversation room
+export async function createRoom(): Promise<ConversationRoom> {
+  const data = await request<{ room: ConversationRoom }>('/api/rooms', { method: 'POST' });
+  return data.room;
+}
+
+// Join a room by its code; the token is needed for everything after joining
+export async function joinRoom(
+  code: string,
+  participant: { name: string; language: string; voice?: string }
+): Promise<{ participant: ConversationParticipant; token: string }> {
+  return request<{ participant: ConversationParticipant; token: string }>('/api/rooms/participants', {
+    method: 'POST',
+    body: JSON.stringify({ code, ...participant })
+  });
+}
+
+// Leave a room
+export async function leaveRoom(code: string, token: string): Promise<void> {
+  const params = new URLSearchParams({ code, token });
+  await request<{ success: boolean }>(`/api/rooms/participants?${params}`, { method: 'DELETE' });
+}
+
+// Send a message to everyone in the room
+export async function sendRoomMessage(code: string, token: string, text: string): Promise<ConversationMessage> {
+  const data = await request<{ message: ConversationMessage }>('/api/rooms/messages', {
+    method: 'POST',
+    body: JSON.stringify({ code, token, text })
+  });
+  return data.message;
+}
+
+// Close a room for everyone; resolves with the saved conversation, if any
+export async function closeRoom(code: string, token: string): Promise<ConversationSession | null> {
+  const params = new URLSearchParams({ code, token });
+  const data = await request<{ conversation: ConversationSession | null }>(`/api/rooms?${params}`, {
+    method: 'DELETE'
+  });
+  return data.conversation;
+}
+
+// Server-Sent Events URL for a participant's room events (use with EventSource)
+export function getRoomEventsUrl(code: string, token: string): string {
+  return `/api/rooms/events?${new URLSearchParams({ code, token })}`;
+}
+
+// Get the signed-in user's profile, or null if none exists yet
+export async function getUserProfile(): Promise<UserProfile | null> {
+  try {
+    const data = await request<{ profile: UserProfile }>('/api/profiles');
+    return data.profile;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Create or update the signed-in user's profile
+export async function saveUserProfile(data: {
+  email: string;
+  preferredLanguages: string[];
+  voiceSettings: VoicePreferences;
+  theme: Theme;
+  autoDetect: boolean;
+  saveHistory: boolean;
+}): Promise<UserProfile> {
+  const result = await request<{ profile: UserProfile }>('/api/profiles', {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+  return result.profile;
+}
+
+export interface GlossaryEntryParams {
+  sourceTerm: string;
+  targetTerm: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  caseSensitive: boolean;
+  doNotTranslate: boolean;
+}
+
+// Get glossary entries, optionally limited to one language pair
+export async function getGlossaryEntries(
+  sourceLanguage?: string,
+  targetLanguage?: string
+): Promise<GlossaryEntry[]> {
+  const params = new URLSearchParams();
+  if (sourceLanguage) params.set('sourceLanguage', sourceLanguage);
+  if (targetLanguage) params.set('targetLanguage', targetLanguage);
+
+  const data = await request<{ entries: GlossaryEntry[] }>(`/api/glossaries?${params}`);
+  return data.entries;
+}
+
+// Create a glossary entry
+export async function saveGlossaryEntry(data: GlossaryEntryParams): Promise<GlossaryEntry> {
+  const result = await request<{ entry: GlossaryEntry }>('/api/glossaries', {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+  return result.entry;
+}
+
+// Update a glossary entry
+export async function updateGlossaryEntry(entryId: string, data: GlossaryEntryParams): Promise<GlossaryEntry> {
+  const result = await request<{ entry: GlossaryEntry }>(`/api/glossaries?id=${encodeURIComponent(entryId)}`, {
+    method: 'PUT',
+    body: JSON.stringify(data)
+  });
+  return result.entry;
+}
+
+// Delete a glossary entry
+export async function deleteGlossaryEntry(entryId: string): Promise<void> {
+  await request<{ success: boolean }>(`/api/glossaries?id=${encodeURIComponent(entryId)}`, {
+    method: 'DELETE'
+  });
+}
+
+// Get the signed-in user's phrasebook, optionally one collection
+export async function getPhrasebookEntries(collection?: string): Promise<PhrasebookEntry[]> {
+  const url = collection === undefined
+    ? '/api/phrasebook'
+    : `/api/phrasebook?collection=${encodeURIComponent(collection)}`;
+  const data = await request<{ entries: PhrasebookEntry[] }>(url);
+  return data.entries;
+}
+
+// Star a saved translation into the phrasebook
+export async function addToPhrasebook(translationId: string, collection?: string): Promise<PhrasebookEntry> {
+  const result = await request<{ entry: PhrasebookEntry }>('/api/phrasebook', {
+    method: 'POST',
+    body: JSON.stringify({ translationId, collection })
+  });
+  return result.entry;
+}
+
+// Move a phrasebook entry to another collection ('' for unsorted)
+export async function movePhrasebookEntry(entryId: string, collection: string): Promise<PhrasebookEntry> {
+  const result = await request<{ entry: PhrasebookEntry }>(`/api/phrasebook?id=${encodeURIComponent(entryId)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ collection })
+  });
+  return result.entry;
+}
+
+// Unstar a phrasebook entry
+export async function removeFromPhrasebook(entryId: string): Promise<void> {
+  await request<{ success: boolean }>(`/api/phrasebook?id=${encodeURIComponent(entryId)}`, {
+    method: 'DELETE'
+  });
+}
+
+// Get all document translations
+export async function getDocuments(): Promise<DocumentTranslation[]> {
+  const data = await request<{ documents: DocumentTranslation[] }>('/api/documents');
+  return data.documents;
+}
+
+// Poll a single document translation
+export async function getDocument(documentId: string): Promise<DocumentTranslation> {
+  const data = await request<{ document: DocumentTranslation }>(`/api/documents?id=${encodeURIComponent(documentId)}`);
+  return data.document;
+}
+
+// Upload a document and start translating it in the background
+export async function uploadDocument(
+  file: File,
+  sourceLanguage: string,
+  targetLanguage: string
+): Promise<DocumentTranslation> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('sourceLanguage', sourceLanguage);
+  formData.append('targetLanguage', targetLanguage);
+
+  const data = await request<{ document: DocumentTranslation }>('/api/documents', {
+    method: 'POST',
+    body: formData
+  });
+  return data.document;
+}
+
+// URL that downloads a finished document translation
+export function getDocumentDownloadUrl(documentId: string): string {
+  return `/api/documents/download?id=${encodeURIComponent(documentId)}`;
+}
+
+// Translate an SRT or WebVTT file; resolves with the translated file
+export async function translateSubtitleFile(
+  file: File,
+  sourceLanguage: string,
+  targetLanguage: string,
+  maxCharsPerLine?: number
+): Promise<{ blob: Blob; fileName: string }> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('sourceLanguage', sourceLanguage);
+  formData.append('targetLanguage', targetLanguage);
+  if (maxCharsPerLine) {
+    formData.append('maxCharsPerLine', String(maxCharsPerLine));
+  }
+
+  const response = await fetch('/api/subtitles', { method: 'POST', body: formData });
+  readQuotaHeaders(response.headers);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(data.error || 'Subtitle translation failed', response.status);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const encodedName = disposition.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+
+  return {
+    blob: await response.blob(),
+    fileName: encodedName ? decodeURIComponent(encodedName) : file.name
+  };
+}
+
+// Start importing a TMX or XLIFF file into translation memory; admins only.
+// Poll the job with getMemoryImport until it is no longer processing.
+export async function importTranslationMemory(file: File): Promise<MemoryImportJob> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const data = await request<{ job: MemoryImportJob }>('/api/memory/import', {
+    method: 'POST',
+    body: formData
+  });
+  return data.job;
+}
+
+// Get a translation memory import's status and report
+export async function getMemoryImport(importId: string): Promise<MemoryImportJob> {
+  const data = await request<{ job: MemoryImportJob }>(`/api/memory/import?id=${encodeURIComponent(importId)}`);
+  return data.job;
+}
+
+// Token usage and spend between two UTC days ("YYYY-MM-DD"); admins only
+export async function getUsageSummary(from?: string, to?: string): Promise<UsageSummary> {
+  const params = new URLSearchParams();
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  const query = params.toString();
+  return request<UsageSummary>(query ? `/api/usage?${query}` : '/api/usage');
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ownershipError } from '@/lib/auth';
+
+vi.mock('@/lib/cosmic', () => ({
+  getUserProfile: vi.fn(),
+  saveUserProfile: vi.fn()
+}));
+
+describe('ownershipError', () => {
+  it('allows the owner', () => {
+    expect(ownershipError({ metadata: { user_id: 'github-1' } }, 'github-1', 'Translation')).toBeNull();
+  });
+
+  it('reports a missing object as not found', () => {
+    expect(ownershipError(null, 'github-1', 'Translation')).toEqual({
+      error: 'Translation not found',
+      status: 404
+    });
+  });
+
+  it('refuses other users and objects without an owner', () => {
+    const forbidden = { error: 'You do not have access to this document', status: 403 };
+
+    expect(ownershipError({ metadata: { user_id: 'github-2' } }, 'github-1', 'Document')).toEqual(forbidden);
+    expect(ownershipError({ metadata: { user_id: '' } }, 'github-1', 'Document')).toEqual(forbidden);
+    expect(ownershipError({ metadata: {} }, 'github-1', 'Document')).toEqual(forbidden);
+  });
+});
@@ -0,0 +1,251 @@
+import 'server-only';
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { getServerSession, type NextAuthOptions, type DefaultSession } from 'next-auth';
+import type { Provider } from 'next-auth/providers/index';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import GitHubProvider from 'next-auth/providers/github';
+import GoogleProvider from 'next-auth/providers/google';
+import { getUserProfile, saveUserProfile } from '@/lib/cosmic';
+import { DEFAULT_VOICE_PREFERENCES } from '@/lib/voice-settings';
+
+// Authentication
+//
+// NextAuth with JWT sessions. Every account maps to one Cosmic `users` object
+// whose slug is the user id stored on translations and conversations:
+// "user-<hash>" for email and password, "<provider>-<account id>" for OAuth.
+// Email accounts are created by signing up; OAuth and local-stub accounts get
+// their profile on first sign-in. The local stub (AUTH_LOCAL_STUB=true) signs
+// anyone in by email alone, for offline development and tests. User ids listed
+// in ADMIN_USER_IDS (comma-separated) are admins. Admin rights go by user id,
+// not email: email sign-up doesn't verify the address, so anyone could
+// register an admin's email, while an id names one existing account.
+
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & { id: string; isAdmin?: boolean };
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    userId?: string;
+  }
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isAdminUserId(userId?: string | null): boolean {
+  if (!userId) return false;
+  const admins = (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map(admin => admin.trim())
+    .filter(Boolean);
+  return admins.includes(userId);
+}
+
+function hashId(value: string): string {
+  return createHash('sha256').update(value.trim().toLowerCase()).digest('hex').slice(0, 24);
+}
+
+function emailUserId(email: string): string {
+  return `user-${hashId(email)}`;
+}
+
+function localUserId(email: string): string {
+  return `local-${hashId(email)}`;
+}
+
+function scryptAsync(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, 64, (error, key) => error ? reject(error) : resolve(key));
+  });
+}
+
+// Stored as "scrypt$<salt>$<hash>"
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const key = await scryptAsync(password, salt);
+  return `scrypt$${salt}$${key.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Create the user's profile if this is their first sign-in
+async function ensureUserProfile(userId: string, email: string, name: string, provider: string) {
+  const existing = await getUserProfile(userId);
+  if (existing) return;
+
+  await saveUserProfile({
+    userId,
+    email,
+    name,
+    authProvider: provider,
+    preferredLanguages: [],
+    voiceSettings: DEFAULT_VOICE_PREFERENCES,
+    theme: 'system',
+    autoDetect: false,
+    saveHistory: true
+  });
+}
+
+function buildProviders(): Provider[] {
+  const providers: Provider[] = [
+    CredentialsProvider({
+      id: 'credentials',
+      name: 'Email',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
+        // "signup" creates the account, anything else signs in
+        mode: { label: 'Mode', type: 'text' }
+      },
+      async authorize(credentials) {
+        const email = credentials?.email?.trim().toLowerCase() || '';
+        const password = credentials?.password || '';
+
+        if (!EMAIL_PATTERN.test(email) || !password) return null;
+
+        const userId = emailUserId(email);
+        const profile = await getUserProfile(userId);
+
+        if (credentials?.mode === 'signup') {
+          if (profile) {
+            throw new Error('An account with this email already exists');
+          }
+          if (password.length < MIN_PASSWORD_LENGTH) {
+            throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+          }
+
+          const name = email.split('@')[0] || email;
+          await saveUserProfile({
+            userId,
+            email,
+            name,
+            authProvider: 'credentials',
+            passwordHash: await hashPassword(password),
+            preferredLanguages: [],
+            voiceSettings: DEFAULT_VOICE_PREFERENCES,
+            theme: 'system',
+            autoDetect: false,
+            saveHistory: true
+          });
+          return { id: userId, email, name };
+        }
+
+        const passwordHash = profile?.metadata.password_hash;
+        if (!profile || !passwordHash || !(await verifyPassword(password, passwordHash))) {
+          return null;
+        }
+
+        return { id: userId, email, name: profile.metadata.name || email };
+      }
+    })
+  ];
+
+  if (process.env.GITHUB_ID && process.env.GITHUB_SECRET) {
+    providers.push(GitHubProvider({
+      clientId: process.env.GITHUB_ID,
+      clientSecret: process.env.GITHUB_SECRET
+    }));
+  }
+
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    providers.push(GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET
+    }));
+  }
+
+  if (process.env.AUTH_LOCAL_STUB === 'true') {
+    providers.push(CredentialsProvider({
+      id: 'local',
+      name: 'Local test account',
+      credentials: {
+        email: { label: 'Email', type: 'email' }
+      },
+      async authorize(credentials) {
+        const email = credentials?.email?.trim().toLowerCase() || '';
+        if (!EMAIL_PATTERN.test(email)) return null;
+
+        return { id: localUserId(email), email, name: email.split('@')[0] || email };
+      }
+    }));
+  }
+
+  return providers;
+}
+
+export const authOptions: NextAuthOptions = {
+  providers: buildProviders(),
+  session: { strategy: 'jwt' },
+  pages: { signIn: '/signin' },
+  callbacks: {
+    async signIn({ user, account }) {
+      // Email accounts already have a profile from signing up
+      if (!account || account.provider === 'credentials') return true;
+
+      const userId = account.provider === 'local'
+        ? user.id
+        : `${account.provider}-${account.providerAccountId}`;
+
+      try {
+        await ensureUserProfile(userId, user.email || '', user.name || user.email || 'User', account.provider);
+      } catch (error) {
+        // Sign-in still succeeds; the profile is created on a later sign-in
+        console.error('Failed to create user profile:', error);
+      }
+      return true;
+    },
+    async jwt({ token, user, account }) {
+      if (account && user) {
+        token.userId = account.type === 'oauth'
+          ? `${account.provider}-${account.providerAccountId}`
+          : user.id;
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      if (session.user && token.userId) {
+        session.user.id = token.userId;
+        session.user.isAdmin = isAdminUserId(token.userId);
+      }
+      return session;
+    }
+  }
+};
+
+// Id of the signed-in user, or null
+export async function getCurrentUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  return session?.user?.id || null;
+}
+
+// Whether the signed-in user is an admin
+export async function isCurrentUserAdmin(): Promise<boolean> {
+  const session = await getServerSession(authOptions);
+  return isAdminUserId(session?.user?.id);
+}
+
+// Why the signed-in user may not access a saved object, or null if they may.
+// Objects saved before accounts existed have no owner and stay inaccessible.
+export function ownershipError(
+  object: { metadata: { user_id?: string } } | null,
+  userId: string,
+  label: string
+): { error: string; status: 403 | 404 } | null {
+  if (!object) {
+    return { error: `${label} not found`, status: 404 };
+  }
+  if (object.metadata.user_id !== userId) {
+    return { error: `You do not have access to this ${label.toLowerCase()}`, status: 403 };
+  }
+  return null;
+}
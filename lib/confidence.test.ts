@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { scoreTranslation, signConfidence, verifyConfidence } from '@/lib/confidence';
+import { LocalProvider, setTranslationProvider } from '@/lib/translation-providers';
+import type { TranslationResponse } from '@/types';
+
+vi.mock('@/lib/cosmic', () => ({
+  getTranslationHistory: vi.fn(async () => []),
+  getMemoryUnits: vi.fn(async () => []),
+  saveUsageRecord: vi.fn()
+}));
+
+const text = {
+  sourceText: 'Good morning',
+  translatedText: '[Spanish] Good morning',
+  sourceLanguage: 'English',
+  targetLanguage: 'Spanish'
+};
+
+describe('scoreTranslation', () => {
+  beforeEach(() => {
+    // Back-translating "[Spanish] Good morning" gives back "Good morning"
+    setTranslationProvider(new LocalProvider());
+  });
+
+  it('combines token probability with the back-translation match', async () => {
+    const score = await scoreTranslation({ ...text, logprobs: [Math.log(0.5), Math.log(0.5)] });
+
+    expect(score).toEqual({
+      confidence: 0.7,
+      details: {
+        method: 'combined',
+        tokenProbability: 0.5,
+        backTranslationSimilarity: 1,
+        backTranslation: 'Good morning',
+        needsReview: false
+      }
+    });
+  });
+
+  it('flags translations below the review threshold', async () => {
+    const score = await scoreTranslation({ ...text, logprobs: [Math.log(0.4)], backTranslation: false });
+
+    expect(score.confidence).toBe(0.4);
+    expect(score.details).toMatchObject({ method: 'logprobs', needsReview: true });
+  });
+
+  it('reports no score when there is nothing to go on', async () => {
+    expect(await scoreTranslation({ ...text, backTranslation: false })).toEqual({
+      confidence: null,
+      details: { method: 'unavailable', needsReview: false }
+    });
+  });
+
+  it('scores from log-probabilities alone when back-translation fails', async () => {
+    setTranslationProvider({
+      name: 'broken',
+      complete: async () => { throw new Error('down'); },
+      stream: async function* () {}
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const score = await scoreTranslation({ ...text, logprobs: [Math.log(0.9)] });
+    expect(score.confidence).toBe(0.9);
+    expect(score.details.method).toBe('logprobs');
+  });
+});
+
+describe('signConfidence and verifyConfidence', () => {
+  const result: TranslationResponse = {
+    translatedText: text.translatedText,
+    sourceLanguage: text.sourceLanguage,
+    targetLanguage: text.targetLanguage,
+    confidence: 0.82,
+    confidenceDetails: { method: 'combined', needsReview: false }
+  };
+
+  it('round-trips the score for the same text and translation', () => {
+    expect(verifyConfidence(signConfidence(text.sourceText, result), text)).toEqual({
+      confidence: 0.82,
+      details: { method: 'combined', needsReview: false }
+    });
+  });
+
+  it('rejects tokens for other text, edited payloads and junk', () => {
+    const token = signConfidence(text.sourceText, result);
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ confidence: 1, method: 'memory', needsReview: false })).toString('base64url');
+
+    expect(verifyConfidence(token, { ...text, translatedText: 'Buenos días' })).toBeNull();
+    expect(verifyConfidence(`${forged}.${signature}`, text)).toBeNull();
+    expect(verifyConfidence('not-a-token', text)).toBeNull();
+    expect(verifyConfidence(undefined, text)).toBeNull();
+  });
+});
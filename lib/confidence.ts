@@ -0,0 +1,170 @@
+import 'server-only';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getTranslationProvider } from '@/lib/translation-providers';
+import { normalizeText, similarity } from '@/lib/translation-memory';
+import type { ConfidenceDetails, TranslationResponse } from '@/types';
+
+// Translation confidence scoring
+//
+// Two signals, used when available:
+// - token log-probabilities from the provider (geometric mean probability)
+// - a back-translation into the source language, compared with the source text
+// The score is a weighted mean of whichever signals were collected; translations
+// scoring below the review threshold are flagged for human review.
+
+export const REVIEW_THRESHOLD = Number(process.env.TRANSLATION_REVIEW_THRESHOLD) || 0.7;
+
+const BACK_TRANSLATION_ENABLED = process.env.TRANSLATION_BACK_TRANSLATION !== 'false';
+
+// Weight of the token probability when both signals are present
+const LOGPROB_WEIGHT = 0.6;
+
+// Without NEXTAUTH_SECRET, tokens only verify on the instance that signed them
+const TOKEN_SECRET = process.env.NEXTAUTH_SECRET || randomBytes(32).toString('hex');
+
+export interface ConfidenceScore {
+  // null when there was nothing to score the translation on
+  confidence: number | null;
+  details: ConfidenceDetails;
+}
+
+interface ScoreInput {
+  sourceText: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  logprobs?: number[];
+  // Whether to spend a request on back-translation (when enabled at all)
+  backTranslation?: boolean;
+}
+
+// Exact translation memory hits are imported approved units or the user's own
+// saved translations; translations flagged for review never enter memory
+export const MEMORY_CONFIDENCE: ConfidenceScore = {
+  confidence: 1,
+  details: { method: 'memory', needsReview: false }
+};
+
+// exp(mean log-probability), i.e. the geometric mean token probability
+function tokenProbability(logprobs?: number[]): number | undefined {
+  if (!logprobs || logprobs.length === 0) return undefined;
+
+  const mean = logprobs.reduce((sum, logprob) => sum + logprob, 0) / logprobs.length;
+  return Math.exp(mean);
+}
+
+// Translate the translation back into the source language; undefined on failure
+async function backTranslate(
+  translatedText: string,
+  sourceLanguage: string,
+  targetLanguage: string
+): Promise<string | undefined> {
+  try {
+    const completion = await getTranslationProvider().complete({
+      task: 'translate',
+      prompt: `Translate the following text from ${targetLanguage} to ${sourceLanguage}.
+    Translate literally and provide only the translation:
+    "${translatedText}"`,
+      text: translatedText,
+      sourceLanguage: targetLanguage,
+      targetLanguage: sourceLanguage,
+      temperature: 0,
+      maxTokens: 1000,
+    });
+
+    return completion.text.replace(/^"|"$/g, '');
+  } catch (error) {
+    console.error('Back-translation failed:', error);
+    return undefined;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Score a model translation from its log-probabilities and a back-translation
+export async function scoreTranslation(input: ScoreInput): Promise<ConfidenceScore> {
+  const probability = tokenProbability(input.logprobs);
+
+  const backTranslation = BACK_TRANSLATION_ENABLED && input.backTranslation !== false && input.translatedText.trim()
+    ? await backTranslate(input.translatedText, input.sourceLanguage, input.targetLanguage)
+    : undefined;
+  const backSimilarity = backTranslation !== undefined
+    ? similarity(normalizeText(input.sourceText), normalizeText(backTranslation))
+    : undefined;
+
+  let confidence: number;
+  let method: ConfidenceDetails['method'];
+
+  if (probability !== undefined && backSimilarity !== undefined) {
+    confidence = LOGPROB_WEIGHT * probability + (1 - LOGPROB_WEIGHT) * backSimilarity;
+    method = 'combined';
+  } else if (probability !== undefined) {
+    confidence = probability;
+    method = 'logprobs';
+  } else if (backSimilarity !== undefined) {
+    confidence = backSimilarity;
+    method = 'back-translation';
+  } else {
+    // Nothing to go on: report no score rather than a made-up one. An unscored
+    // translation isn't known to be bad, so it isn't flagged either.
+    return { confidence: null, details: { method: 'unavailable', needsReview: false } };
+  }
+
+  confidence = round(confidence);
+
+  return {
+    confidence,
+    details: {
+      method,
+      tokenProbability: probability !== undefined ? round(probability) : undefined,
+      backTranslationSimilarity: backSimilarity !== undefined ? round(backSimilarity) : undefined,
+      backTranslation,
+      needsReview: confidence < REVIEW_THRESHOLD
+    }
+  };
+}
+
+interface ScoredText {
+  sourceText: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+function tokenSignature(text: ScoredText, payload: string): string {
+  return createHmac('sha256', TOKEN_SECRET)
+    .update(JSON.stringify([text.sourceText, text.translatedText, text.sourceLanguage, text.targetLanguage, payload]))
+    .digest('base64url');
+}
+
+// Sign a translation's score so it can be trusted when the client saves the
+// translation to history later
+export function signConfidence(sourceText: string, result: TranslationResponse): string {
+  const payload = Buffer.from(JSON.stringify({
+    confidence: result.confidence,
+    method: result.confidenceDetails?.method || 'unavailable',
+    needsReview: result.confidenceDetails?.needsReview || false
+  })).toString('base64url');
+
+  return `${payload}.${tokenSignature({ ...result, sourceText }, payload)}`;
+}
+
+// The score signed for exactly this text and translation; null if the token
+// is missing, forged or was issued for something else
+export function verifyConfidence(token: unknown, text: ScoredText): ConfidenceScore | null {
+  if (typeof token !== 'string') return null;
+
+  const [payload = '', signature = ''] = token.split('.');
+  const expected = Buffer.from(tokenSignature(text, payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const { confidence, method, needsReview } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return { confidence, details: { method, needsReview } };
+  } catch (error) {
+    return null;
+  }
+}
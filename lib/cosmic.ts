@@ -1,12 +1,25 @@
+import 'server-only';
 import { createBucketClient } from '@cosmicjs/sdk'
 import type { 
   Language, 
   Translation, 
   UserProfile, 
   ConversationSession, 
-  VoiceSettings, 
+  ConversationParticipant,
+  ConversationMessage,
+  DocumentTranslation,
+  GlossaryEntry,
+  PhrasebookEntry,
+  MemoryUnit,
+  VoicePreferences, 
   Theme, 
-  TranslationMethod 
+  TranslationMethod,
+  ConfidenceMethod,
+  UsageCall,
+  UsageMethod,
+  UsageRecord,
+  TranslationHistoryQuery,
+  TranslationHistoryPage
 } from '@/types';
 
 export const cosmic = createBucketClient({
@@ -37,27 +50,28 @@ export async function getLanguages(): Promise<Language[]> {
   }
 }
 
-// Get translation history for a user
-export async function getTranslationHistory(userId?: string): Promise<Translation[]> {
+// Get a user's most recent translations, newest first
+export async function getTranslationHistory(
+  userId?: string,
+  options: { limit?: number; needsReview?: boolean } = {}
+): Promise<Translation[]> {
   try {
     const query: any = { type: 'translations' };
     if (userId) {
       query['metadata.user_id'] = userId;
     }
+    if (options.needsReview) {
+      query['metadata.needs_review'] = true;
+    }
 
     const response = await cosmic.objects
       .find(query)
       .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .sort('-created_at')
+      .limit(options.limit || 100)
       .depth(1);
-    
-    const translations = response.objects as Translation[];
-    
-    // Sort by creation date (newest first)
-    return translations.sort((a, b) => {
-      const dateA = new Date(a.created_at).getTime();
-      const dateB = new Date(b.created_at).getTime();
-      return dateB - dateA;
-    });
+
+    return response.objects as Translation[];
   } catch (error) {
     if (hasStatus(error) && error.status === 404) {
       return [];
@@ -66,6 +80,74 @@ export async function getTranslationHistory(userId?: string): Promise<Translatio
   }
 }
 
+// Regular expression matching text literally
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// One page of a user's translation history, newest first
+export async function getTranslationHistoryPage(
+  userId: string,
+  options: TranslationHistoryQuery = {}
+): Promise<TranslationHistoryPage> {
+  const limit = options.limit || 20;
+  const skip = options.skip || 0;
+
+  const query: any = { type: 'translations', 'metadata.user_id': userId };
+  if (options.sourceLanguage) {
+    query['metadata.source_language'] = options.sourceLanguage;
+  }
+  if (options.targetLanguage) {
+    query['metadata.target_language'] = options.targetLanguage;
+  }
+  if (options.method) {
+    query['metadata.translation_method'] = options.method;
+  }
+  if (options.sessionId) {
+    query['metadata.session_id'] = options.sessionId;
+  }
+  if (options.needsReview) {
+    query['metadata.needs_review'] = true;
+  }
+  if (options.from || options.to) {
+    query['metadata.created_at'] = {
+      ...(options.from ? { $gte: options.from } : {}),
+      ...(options.to ? { $lte: options.to } : {})
+    };
+  }
+  if (options.search) {
+    const pattern = { $regex: escapeRegex(options.search), $options: 'i' };
+    query.$or = [
+      { 'metadata.source_text': pattern },
+      { 'metadata.translated_text': pattern }
+    ];
+  }
+
+  try {
+    const response = await cosmic.objects
+      .find(query)
+      .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .sort('-created_at')
+      .limit(limit)
+      .skip(skip)
+      .depth(1);
+
+    const translations = response.objects as Translation[];
+    return {
+      translations,
+      total: response.total,
+      skip,
+      limit,
+      hasMore: skip + translations.length < response.total
+    };
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return { translations: [], total: 0, skip, limit, hasMore: false };
+    }
+    throw new Error('Failed to fetch translation history');
+  }
+}
+
 // Save a translation
 export async function saveTranslation(data: {
   sourceText: string;
@@ -75,7 +157,9 @@ export async function saveTranslation(data: {
   method: TranslationMethod;
   userId?: string;
   sessionId?: string;
-  confidence?: number;
+  confidence?: number | null;
+  confidenceMethod?: ConfidenceMethod;
+  needsReview?: boolean;
 }): Promise<Translation> {
   try {
     const response = await cosmic.objects.insertOne({
@@ -89,7 +173,10 @@ export async function saveTranslation(data: {
         translation_method: data.method,
         user_id: data.userId || '',
         session_id: data.sessionId || '',
-        confidence_score: data.confidence || 0,
+        // Left out when the translation couldn't be scored
+        confidence_score: data.confidence ?? undefined,
+        confidence_method: data.confidenceMethod || 'unavailable',
+        needs_review: data.needsReview || false,
         created_at: new Date().toISOString()
       }
     });
@@ -122,8 +209,11 @@ export async function getUserProfile(userId: string): Promise<UserProfile | null
 export async function saveUserProfile(data: {
   userId: string;
   email: string;
+  name?: string;
+  authProvider?: string;
+  passwordHash?: string;
   preferredLanguages: string[];
-  voiceSettings: VoiceSettings;
+  voiceSettings: VoicePreferences;
   theme: Theme;
   autoDetect: boolean;
   saveHistory: boolean;
@@ -133,10 +223,13 @@ export async function saveUserProfile(data: {
     const existingProfile = await getUserProfile(data.userId);
     
     if (existingProfile) {
-      // Update existing profile
+      // Update existing profile, keeping account fields not being changed
       const response = await cosmic.objects.updateOne(existingProfile.id, {
         metadata: {
           email: data.email,
+          name: data.name ?? existingProfile.metadata.name ?? '',
+          auth_provider: data.authProvider ?? existingProfile.metadata.auth_provider ?? '',
+          password_hash: data.passwordHash ?? existingProfile.metadata.password_hash ?? '',
           preferred_languages: data.preferredLanguages,
           voice_settings: data.voiceSettings,
           theme: data.theme,
@@ -154,6 +247,9 @@ export async function saveUserProfile(data: {
         type: 'users',
         metadata: {
           email: data.email,
+          name: data.name || '',
+          auth_provider: data.authProvider || '',
+          password_hash: data.passwordHash || '',
           preferred_languages: data.preferredLanguages,
           voice_settings: data.voiceSettings,
           theme: data.theme,
@@ -170,6 +266,23 @@ export async function saveUserProfile(data: {
   }
 }
 
+// Get a single translation; null if there is none, or the object isn't a translation
+export async function getTranslation(translationId: string): Promise<Translation | null> {
+  try {
+    const response = await cosmic.objects
+      .findOne({ type: 'translations', id: translationId })
+      .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .depth(1);
+
+    return response.object as Translation;
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return null;
+    }
+    throw new Error('Failed to fetch translation');
+  }
+}
+
 // Delete translation from history
 export async function deleteTranslation(translationId: string): Promise<void> {
   try {
@@ -182,18 +295,22 @@ export async function deleteTranslation(translationId: string): Promise<void> {
 
 // Save conversation session
 export async function saveConversationSession(data: {
-  participants: { user_1_language: string; user_2_language: string };
-  messages: any[];
+  participants: ConversationParticipant[];
+  messages: ConversationMessage[];
   status: 'active' | 'completed';
   duration?: number;
+  userId?: string;
 }): Promise<ConversationSession> {
   try {
+    const languages = Array.from(new Set(data.participants.map(participant => participant.language)));
+
     const response = await cosmic.objects.insertOne({
-      title: `Conversation: ${data.participants.user_1_language} ↔ ${data.participants.user_2_language}`,
+      title: `Conversation: ${languages.join(' ↔ ')}`,
       type: 'conversations',
       metadata: {
         participants: data.participants,
         messages: data.messages,
+        user_id: data.userId || '',
         session_duration: data.duration || 0,
         status: data.status
       }
@@ -204,4 +321,494 @@ export async function saveConversationSession(data: {
     console.error('Error saving conversation:', error);
     throw new Error('Failed to save conversation');
   }
-}
\ No newline at end of file
+}
+
+// Get a user's saved conversations (newest first)
+export async function getConversationSessions(userId: string): Promise<ConversationSession[]> {
+  try {
+    const response = await cosmic.objects
+      .find({ type: 'conversations', 'metadata.user_id': userId })
+      .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .depth(1);
+
+    const conversations = response.objects as ConversationSession[];
+
+    return conversations.sort((a, b) => {
+      const dateA = new Date(a.created_at).getTime();
+      const dateB = new Date(b.created_at).getTime();
+      return dateB - dateA;
+    });
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return [];
+    }
+    throw new Error('Failed to fetch conversations');
+  }
+}
+
+// One page of a user's saved conversations, newest first
+export async function getConversationSessionPage(
+  userId: string,
+  options: { limit?: number; skip?: number } = {}
+): Promise<{ conversations: ConversationSession[]; hasMore: boolean }> {
+  const limit = options.limit || 20;
+  const skip = options.skip || 0;
+
+  try {
+    const response = await cosmic.objects
+      .find({ type: 'conversations', 'metadata.user_id': userId })
+      .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .sort('-created_at')
+      .limit(limit)
+      .skip(skip)
+      .depth(1);
+
+    const conversations = response.objects as ConversationSession[];
+    return { conversations, hasMore: skip + conversations.length < response.total };
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return { conversations: [], hasMore: false };
+    }
+    throw new Error('Failed to fetch conversations');
+  }
+}
+
+// Get a single conversation; null if there is none, or the object isn't a conversation
+export async function getConversationSession(conversationId: string): Promise<ConversationSession | null> {
+  try {
+    const response = await cosmic.objects
+      .findOne({ type: 'conversations', id: conversationId })
+      .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .depth(1);
+
+    return response.object as ConversationSession;
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return null;
+    }
+    throw new Error('Failed to fetch conversation');
+  }
+}
+
+// Delete a saved conversation
+export async function deleteConversationSession(conversationId: string): Promise<void> {
+  try {
+    await cosmic.objects.deleteOne(conversationId);
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    throw new Error('Failed to delete conversation');
+  }
+}
+
+// Get a user's phrasebook, newest first, optionally one collection
+export async function getPhrasebookEntries(userId: string, collection?: string): Promise<PhrasebookEntry[]> {
+  try {
+    const query: any = { type: 'phrasebook-entries', 'metadata.user_id': userId };
+    if (collection !== undefined) {
+      query['metadata.collection'] = collection;
+    }
+
+    // Depth 0 keeps the linked translation as its id
+    const response = await cosmic.objects
+      .find(query)
+      .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .sort('-created_at')
+      .depth(0);
+
+    return response.objects as PhrasebookEntry[];
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return [];
+    }
+    throw new Error('Failed to fetch phrasebook');
+  }
+}
+
+// Get a single phrasebook entry; null if there is none, or the object isn't one
+export async function getPhrasebookEntry(entryId: string): Promise<PhrasebookEntry | null> {
+  try {
+    const response = await cosmic.objects
+      .findOne({ type: 'phrasebook-entries', id: entryId })
+      .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .depth(0);
+
+    return response.object as PhrasebookEntry;
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return null;
+    }
+    throw new Error('Failed to fetch phrasebook entry');
+  }
+}
+
+// Star a translation into the phrasebook
+export async function savePhrasebookEntry(translation: Translation, collection: string): Promise<PhrasebookEntry> {
+  try {
+    const { metadata } = translation;
+    const response = await cosmic.objects.insertOne({
+      title: metadata.source_text.slice(0, 80),
+      type: 'phrasebook-entries',
+      metadata: {
+        translation: translation.id,
+        user_id: metadata.user_id || '',
+        source_text: metadata.source_text,
+        translated_text: metadata.translated_text,
+        source_language: metadata.source_language,
+        target_language: metadata.target_language,
+        collection
+      }
+    });
+
+    return response.object as PhrasebookEntry;
+  } catch (error) {
+    console.error('Error saving phrasebook entry:', error);
+    throw new Error('Failed to save phrasebook entry');
+  }
+}
+
+// Move a phrasebook entry to another collection
+export async function updatePhrasebookEntry(entryId: string, collection: string): Promise<PhrasebookEntry> {
+  try {
+    const response = await cosmic.objects.updateOne(entryId, {
+      metadata: { collection }
+    });
+
+    return response.object as PhrasebookEntry;
+  } catch (error) {
+    console.error('Error updating phrasebook entry:', error);
+    throw new Error('Failed to update phrasebook entry');
+  }
+}
+
+// Remove a phrasebook entry
+export async function deletePhrasebookEntry(entryId: string): Promise<void> {
+  try {
+    await cosmic.objects.deleteOne(entryId);
+  } catch (error) {
+    console.error('Error deleting phrasebook entry:', error);
+    throw new Error('Failed to delete phrasebook entry');
+  }
+}
+
+// Get all imported translation memory units
+export async function getMemoryUnits(): Promise<MemoryUnit[]> {
+  try {
+    const response = await cosmic.objects
+      .find({ type: 'memory-units' })
+      .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .depth(0);
+
+    return response.objects as MemoryUnit[];
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return [];
+    }
+    throw new Error('Failed to fetch translation memory');
+  }
+}
+
+// Save a translation memory unit imported from a TMX or XLIFF file
+export async function saveMemoryUnit(data: {
+  sourceText: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  origin: string;
+  userId: string;
+}): Promise<MemoryUnit> {
+  try {
+    const response = await cosmic.objects.insertOne({
+      title: data.sourceText.slice(0, 80),
+      type: 'memory-units',
+      metadata: {
+        source_text: data.sourceText,
+        translated_text: data.translatedText,
+        source_language: data.sourceLanguage,
+        target_language: data.targetLanguage,
+        origin: data.origin,
+        user_id: data.userId
+      }
+    });
+
+    return response.object as MemoryUnit;
+  } catch (error) {
+    console.error('Error saving memory unit:', error);
+    throw new Error('Failed to save memory unit');
+  }
+}
+
+// Save the provider usage of one API request
+export async function saveUsageRecord(data: {
+  userId?: string | null;
+  method: UsageMethod;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  calls: UsageCall[];
+}): Promise<UsageRecord> {
+  const sum = (field: 'prompt_tokens' | 'completion_tokens' | 'cost_usd') =>
+    data.calls.reduce((total, call) => total + call[field], 0);
+
+  try {
+    const response = await cosmic.objects.insertOne({
+      title: `${data.method} usage`,
+      type: 'usage-records',
+      metadata: {
+        user_id: data.userId || '',
+        method: data.method,
+        source_language: data.sourceLanguage || '',
+        target_language: data.targetLanguage || '',
+        calls: data.calls,
+        prompt_tokens: sum('prompt_tokens'),
+        completion_tokens: sum('completion_tokens'),
+        cost_usd: sum('cost_usd'),
+        date: new Date().toISOString().slice(0, 10)
+      }
+    });
+
+    return response.object as UsageRecord;
+  } catch (error) {
+    console.error('Error saving usage record:', error);
+    throw new Error('Failed to save usage record');
+  }
+}
+
+// Get usage records for the UTC days from..to ("YYYY-MM-DD", inclusive)
+export async function getUsageRecords(from: string, to: string): Promise<UsageRecord[]> {
+  const pageSize = 1000;
+  const records: UsageRecord[] = [];
+
+  try {
+    for (let skip = 0; ; skip += pageSize) {
+      const response = await cosmic.objects
+        .find({ type: 'usage-records', 'metadata.date': { $gte: from, $lte: to } })
+        .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+        .limit(pageSize)
+        .skip(skip)
+        .depth(1);
+
+      records.push(...(response.objects as UsageRecord[]));
+      if (records.length >= response.total || response.objects.length < pageSize) break;
+    }
+
+    return records;
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return [];
+    }
+    throw new Error('Failed to fetch usage records');
+  }
+}
+
+// Get glossary entries, optionally limited to one language pair
+export async function getGlossaryEntries(
+  sourceLanguage?: string,
+  targetLanguage?: string
+): Promise<GlossaryEntry[]> {
+  try {
+    const query: any = { type: 'glossaries' };
+    if (sourceLanguage) {
+      query['metadata.source_language'] = sourceLanguage;
+    }
+    if (targetLanguage) {
+      query['metadata.target_language'] = targetLanguage;
+    }
+
+    const response = await cosmic.objects
+      .find(query)
+      .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .depth(1);
+
+    return response.objects as GlossaryEntry[];
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return [];
+    }
+    throw new Error('Failed to fetch glossary');
+  }
+}
+
+// Get a single glossary entry; null if there is none, or the object isn't one
+export async function getGlossaryEntry(entryId: string): Promise<GlossaryEntry | null> {
+  try {
+    const response = await cosmic.objects
+      .findOne({ type: 'glossaries', id: entryId })
+      .props(['id', 'title', 'slug', 'metadata', 'created_at'])
+      .depth(0);
+
+    return response.object as GlossaryEntry;
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return null;
+    }
+    throw new Error('Failed to fetch glossary entry');
+  }
+}
+
+export interface GlossaryEntryData {
+  sourceTerm: string;
+  targetTerm: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  caseSensitive: boolean;
+  doNotTranslate: boolean;
+}
+
+function glossaryMetadata(data: GlossaryEntryData): GlossaryEntry['metadata'] {
+  return {
+    source_term: data.sourceTerm,
+    // A do-not-translate term must appear verbatim in the translation
+    target_term: data.doNotTranslate ? data.sourceTerm : data.targetTerm,
+    source_language: data.sourceLanguage,
+    target_language: data.targetLanguage,
+    case_sensitive: data.caseSensitive,
+    do_not_translate: data.doNotTranslate
+  };
+}
+
+// Create a glossary entry
+export async function saveGlossaryEntry(data: GlossaryEntryData): Promise<GlossaryEntry> {
+  try {
+    const response = await cosmic.objects.insertOne({
+      title: `${data.sourceTerm} (${data.sourceLanguage} → ${data.targetLanguage})`,
+      type: 'glossaries',
+      metadata: glossaryMetadata(data)
+    });
+
+    return response.object as GlossaryEntry;
+  } catch (error) {
+    console.error('Error saving glossary entry:', error);
+    throw new Error('Failed to save glossary entry');
+  }
+}
+
+// Update a glossary entry
+export async function updateGlossaryEntry(entryId: string, data: GlossaryEntryData): Promise<GlossaryEntry> {
+  try {
+    const response = await cosmic.objects.updateOne(entryId, {
+      title: `${data.sourceTerm} (${data.sourceLanguage} → ${data.targetLanguage})`,
+      metadata: glossaryMetadata(data)
+    });
+
+    return response.object as GlossaryEntry;
+  } catch (error) {
+    console.error('Error updating glossary entry:', error);
+    throw new Error('Failed to update glossary entry');
+  }
+}
+
+// Delete a glossary entry
+export async function deleteGlossaryEntry(entryId: string): Promise<void> {
+  try {
+    await cosmic.objects.deleteOne(entryId);
+  } catch (error) {
+    console.error('Error deleting glossary entry:', error);
+    throw new Error('Failed to delete glossary entry');
+  }
+}
+
+// Upload a file to the bucket's media library
+export async function uploadMedia(file: {
+  buffer: Buffer;
+  name: string;
+  type: string;
+}): Promise<{ url: string; name: string }> {
+  try {
+    const response = await cosmic.media.insertOne({
+      media: file.buffer,
+      filename: file.name,
+      contentType: file.type,
+      folder: 'documents'
+    });
+
+    return { url: response.media.url, name: response.media.name };
+  } catch (error) {
+    console.error('Error uploading media:', error);
+    throw new Error('Failed to upload file');
+  }
+}
+
+// Get all document translations (newest first)
+export async function getDocumentTranslations(userId?: string): Promise<DocumentTranslation[]> {
+  try {
+    const query: any = { type: 'documents' };
+    if (userId) {
+      query['metadata.user_id'] = userId;
+    }
+
+    const response = await cosmic.objects
+      .find(query)
+      .props(['id', 'title', 'slug', 'metadata', 'created_at', 'modified_at'])
+      .depth(1);
+
+    const documents = response.objects as DocumentTranslation[];
+
+    return documents.sort((a, b) => {
+      const dateA = new Date(a.created_at).getTime();
+      const dateB = new Date(b.created_at).getTime();
+      return dateB - dateA;
+    });
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return [];
+    }
+    throw new Error('Failed to fetch documents');
+  }
+}
+
+// Get a single document translation
+export async function getDocumentTranslation(documentId: string): Promise<DocumentTranslation | null> {
+  try {
+    const response = await cosmic.objects
+      .findOne({ type: 'documents', id: documentId })
+      .props(['id', 'title', 'slug', 'metadata', 'created_at', 'modified_at'])
+      .depth(1);
+
+    return response.object as DocumentTranslation;
+  } catch (error) {
+    if (hasStatus(error) && error.status === 404) {
+      return null;
+    }
+    throw new Error('Failed to fetch document');
+  }
+}
+
+// Create a document translation in the processing state
+export async function createDocumentTranslation(data: {
+  originalFile: DocumentTranslation['metadata']['original_file'];
+  sourceLanguage: string;
+  targetLanguage: string;
+  userId?: string;
+}): Promise<DocumentTranslation> {
+  try {
+    const response = await cosmic.objects.insertOne({
+      title: `${data.originalFile.name} (${data.sourceLanguage} → ${data.targetLanguage})`,
+      type: 'documents',
+      metadata: {
+        original_file: data.originalFile,
+        source_language: data.sourceLanguage,
+        target_language: data.targetLanguage,
+        status: 'processing',
+        progress: 0,
+        user_id: data.userId || ''
+      }
+    });
+
+    return response.object as DocumentTranslation;
+  } catch (error) {
+    console.error('Error creating document translation:', error);
+    throw new Error('Failed to create document translation');
+  }
+}
+
+// Update status, progress or result of a document translation
+export async function updateDocumentTranslation(
+  documentId: string,
+  metadata: Partial<DocumentTranslation['metadata']>
+): Promise<void> {
+  try {
+    await cosmic.objects.updateOne(documentId, { metadata });
+  } catch (error) {
+    console.error('Error updating document translation:', error);
+    throw new Error('Failed to update document translation');
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import {
+  countDocumentCharacters,
+  detectDocumentFormat,
+  parseDocument,
+  processDocument,
+  splitLongSegment
+} from '@/lib/documents';
+import { translateText } from '@/lib/translation';
+import { uploadMedia } from '@/lib/cosmic';
+
+vi.mock('@/lib/translation', () => ({
+  translateText: vi.fn()
+}));
+
+vi.mock('@/lib/cosmic', () => ({
+  updateDocumentTranslation: vi.fn(async () => ({})),
+  uploadMedia: vi.fn(async () => ({ url: 'https://cdn.example/translated', name: 'translated' }))
+}));
+
+const upper = (translations: string[]) => translations.map(text => text.toUpperCase());
+
+describe('detectDocumentFormat', () => {
+  it('goes by extension, then MIME type', () => {
+    expect(detectDocumentFormat('notes.md')).toBe('markdown');
+    expect(detectDocumentFormat('report.DOCX')).toBe('docx');
+    expect(detectDocumentFormat('page', 'text/html')).toBe('html');
+    expect(detectDocumentFormat('scan.pdf', 'application/pdf')).toBeNull();
+  });
+});
+
+describe('parseDocument', () => {
+  it('splits plain text into paragraphs and keeps the blank lines', async () => {
+    const parsed = await parseDocument(Buffer.from('First line\nstill first\n\n  Second\n'), 'text');
+
+    expect(parsed.segments).toEqual(['First line\nstill first', '  Second\n']);
+    expect((await parsed.rebuild(upper(parsed.segments))).toString()).toBe('FIRST LINE\nSTILL FIRST\n\n  SECOND\n');
+  });
+
+  it('translates markdown text without its markers, code or front matter', async () => {
+    const markdown = [
+      '---',
+      'title: Guide',
+      '---',
+      '# Heading',
+      '',
+      '- [ ] Task item',
+      '',
+      '```js',
+      'const keep = true;',
+      '```',
+      'Paragraph text'
+    ].join('\n');
+    const parsed = await parseDocument(Buffer.from(markdown), 'markdown');
+
+    expect(parsed.segments).toEqual(['Heading', 'Task item', 'Paragraph text']);
+    expect((await parsed.rebuild(upper(parsed.segments))).toString()).toBe(
+      markdown.replace('Heading', 'HEADING').replace('Task item', 'TASK ITEM').replace('Paragraph text', 'PARAGRAPH TEXT')
+    );
+  });
+
+  it('translates HTML text nodes outside scripts and code', async () => {
+    const html = '<p>Fish &amp; chips</p><script>var a = "x";</script><pre>code</pre><!-- note --><b> bold </b>';
+    const parsed = await parseDocument(Buffer.from(html), 'html');
+
+    expect(parsed.segments).toEqual(['Fish & chips', ' bold ']);
+    expect((await parsed.rebuild(['Poisson & frites', 'gras'])).toString()).toBe(
+      '<p>Poisson &amp; frites</p><script>var a = "x";</script><pre>code</pre><!-- note --><b> gras </b>'
+    );
+  });
+
+  it('translates DOCX paragraphs into their first run', async () => {
+    const zip = new JSZip();
+    zip.file('word/document.xml', [
+      '<w:document><w:body>',
+      '<w:p><w:pPr/><w:r><w:t>Hello </w:t></w:r><w:r><w:t xml:space="preserve">world &amp; more</w:t></w:r></w:p>',
+      '<w:p><w:r><w:t></w:t></w:r></w:p>',
+      '</w:body></w:document>'
+    ].join(''));
+    zip.file('word/styles.xml', '<w:styles><w:t>Not content</w:t></w:styles>');
+
+    const parsed = await parseDocument(await zip.generateAsync({ type: 'nodebuffer' }), 'docx');
+    expect(parsed.segments).toEqual(['Hello world & more']);
+
+    const rebuilt = await JSZip.loadAsync(await parsed.rebuild(['Hallo Welt & mehr']));
+    expect(await rebuilt.file('word/document.xml')!.async('string')).toBe([
+      '<w:document><w:body>',
+      '<w:p><w:pPr/><w:r><w:t xml:space="preserve">Hallo Welt &amp; mehr</w:t></w:r><w:r><w:t></w:t></w:r></w:p>',
+      '<w:p><w:r><w:t></w:t></w:r></w:p>',
+      '</w:body></w:document>'
+    ].join(''));
+  });
+});
+
+describe('countDocumentCharacters', () => {
+  it('counts the text sent for translation, not the file size', async () => {
+    const zip = new JSZip();
+    zip.file('word/document.xml', '<w:document><w:body><w:p><w:r><w:t> Hello </w:t></w:r></w:p></w:body></w:document>');
+    zip.file('word/media/image1.png', Buffer.alloc(300000));
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    expect(buffer.length).toBeGreaterThan(300000);
+    expect(countDocumentCharacters(await parseDocument(buffer, 'docx'))).toBe(5);
+  });
+});
+
+describe('splitLongSegment', () => {
+  it('splits at sentence boundaries and hard-splits oversized sentences', () => {
+    expect(splitLongSegment('Short.', 20)).toEqual(['Short.']);
+    expect(splitLongSegment('One two. Three four. Five.', 12)).toEqual(['One two. ', 'Three four. ', 'Five.']);
+    expect(splitLongSegment('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+});
+
+describe('processDocument', () => {
+  beforeEach(() => {
+    vi.mocked(translateText).mockReset();
+    vi.mocked(uploadMedia).mockClear();
+  });
+
+  it('rejoins split pieces without adding spaces', async () => {
+    vi.mocked(translateText).mockImplementation(async (text, sourceLanguage, targetLanguage) => ({
+      translatedText: `[${text}]`,
+      sourceLanguage,
+      targetLanguage,
+      confidence: 1
+    }));
+
+    // Longer than one request, in a script written without spaces
+    const sentence = '这是一个很长的句子。';
+    const text = sentence.repeat(250);
+
+    await processDocument({
+      documentId: 'doc-1',
+      parsed: await parseDocument(Buffer.from(text), 'text'),
+      fileName: 'long.txt',
+      format: 'text',
+      sourceLanguage: 'Chinese',
+      targetLanguage: 'Japanese'
+    });
+
+    const pieces = vi.mocked(translateText).mock.calls.map(call => call[0]);
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(vi.mocked(translateText).mock.calls[0]?.[3]).toMatchObject({ backTranslation: false });
+
+    const output = vi.mocked(uploadMedia).mock.calls[0]?.[0].buffer.toString();
+    expect(output).toBe(pieces.map(piece => `[${piece}]`).join(''));
+    expect(output).not.toContain(' ');
+  });
+});
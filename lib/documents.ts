@@ -0,0 +1,409 @@
+import 'server-only';
+import JSZip from 'jszip';
+import { translateText } from '@/lib/translation';
+import type { TranslateOptions } from '@/lib/translation';
+import { updateDocumentTranslation, uploadMedia } from '@/lib/cosmic';
+
+// Document translation pipeline
+//
+// A document is parsed into translatable segments (paragraphs, HTML text
+// nodes, DOCX paragraphs), translated segment by segment with progress written
+// back to its Cosmic object, then reassembled into the original format.
+
+export type DocumentFormat = 'text' | 'markdown' | 'html' | 'docx';
+
+export interface ParsedDocument {
+  segments: string[];
+  // Rebuild the file with one translation per segment, in order
+  rebuild(translations: string[]): Promise<Buffer>;
+}
+
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+// Longest piece sent in one translation request
+const MAX_SEGMENT_CHARS = 2000;
+// Segments translated between progress updates
+const PROGRESS_CHUNK_SIZE = 5;
+
+const MIME_TYPES: Record<DocumentFormat, string> = {
+  text: 'text/plain; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+// Work out the format from the file name, falling back to the MIME type
+export function detectDocumentFormat(fileName: string, mimeType?: string): DocumentFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+
+  switch (extension) {
+    case 'txt':
+      return 'text';
+    case 'md':
+    case 'markdown':
+      return 'markdown';
+    case 'html':
+    case 'htm':
+      return 'html';
+    case 'docx':
+      return 'docx';
+  }
+
+  if (mimeType === 'text/plain') return 'text';
+  if (mimeType === 'text/markdown') return 'markdown';
+  if (mimeType === 'text/html') return 'html';
+  if (mimeType === MIME_TYPES.docx) return 'docx';
+  return null;
+}
+
+export function getDocumentMimeType(format: DocumentFormat): string {
+  return MIME_TYPES[format];
+}
+
+// "report.docx" -> "report.spanish.docx"
+export function translatedFileName(fileName: string, targetLanguage: string): string {
+  const dot = fileName.lastIndexOf('.');
+  const suffix = targetLanguage.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return dot > 0
+    ? `${fileName.slice(0, dot)}.${suffix}${fileName.slice(dot)}`
+    : `${fileName}.${suffix}`;
+}
+
+// Keep leading/trailing whitespace around a translated segment
+function withSameWhitespace(original: string, translated: string): string {
+  const leading = original.match(/^\s*/)?.[0] || '';
+  const trailing = original.match(/\s*$/)?.[0] || '';
+  return `${leading}${translated.trim()}${trailing}`;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&#39;': "'",
+  '&nbsp;': ' '
+};
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&(amp|lt|gt|quot|apos|#39|nbsp);/g, entity => XML_ENTITIES[entity] || entity);
+}
+
+export function encodeEntities(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Plain text: paragraphs separated by blank lines
+function parsePlainText(content: string): ParsedDocument {
+  const parts = content.split(/(\n[ \t]*\n)/);
+  const indices = parts
+    .map((part, index) => (index % 2 === 0 && part.trim() ? index : -1))
+    .filter(index => index !== -1);
+
+  return {
+    segments: indices.map(index => parts[index] || ''),
+    async rebuild(translations) {
+      const output = [...parts];
+      indices.forEach((partIndex, i) => {
+        output[partIndex] = withSameWhitespace(parts[partIndex] || '', translations[i] || '');
+      });
+      return Buffer.from(output.join(''), 'utf-8');
+    }
+  };
+}
+
+// Markdown: paragraphs are translated as a whole; headings, list items and
+// quotes line by line with their markers kept out of the translated text.
+// Fenced code and front matter pass through untouched.
+const MARKDOWN_PREFIX = /^(\s*(?:#{1,6}\s+|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+|>\s?)+)/;
+
+function parseMarkdown(content: string): ParsedDocument {
+  const lines = content.split('\n');
+  const pieces: Array<{ prefix: string; text: string; translate: boolean }> = [];
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      pieces.push({ prefix: '', text: paragraph.join('\n'), translate: true });
+      paragraph = [];
+    }
+  };
+  const passThrough = (line: string) => {
+    flushParagraph();
+    pieces.push({ prefix: '', text: line, translate: false });
+  };
+
+  let frontMatterEnd = -1;
+  if (lines[0]?.trim() === '---') {
+    frontMatterEnd = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+  }
+
+  lines.forEach((line, index) => {
+    if (index <= frontMatterEnd) {
+      passThrough(line);
+      return;
+    }
+
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      passThrough(line);
+      if (line.trim().startsWith(fence)) fence = null;
+      return;
+    }
+    if (fenceMatch) {
+      passThrough(line);
+      fence = fenceMatch[1] || null;
+      return;
+    }
+
+    if (!line.trim()) {
+      passThrough(line);
+      return;
+    }
+
+    const prefix = line.match(MARKDOWN_PREFIX)?.[1];
+    if (prefix) {
+      flushParagraph();
+      const text = line.slice(prefix.length);
+      pieces.push({ prefix, text, translate: Boolean(text.trim()) });
+      return;
+    }
+
+    paragraph.push(line);
+  });
+  flushParagraph();
+
+  const indices = pieces
+    .map((piece, index) => (piece.translate ? index : -1))
+    .filter(index => index !== -1);
+
+  return {
+    segments: indices.map(index => pieces[index]?.text || ''),
+    async rebuild(translations) {
+      const output = pieces.map(piece => piece.prefix + piece.text);
+      indices.forEach((pieceIndex, i) => {
+        const piece = pieces[pieceIndex];
+        if (!piece) return;
+        output[pieceIndex] = piece.prefix + withSameWhitespace(piece.text, translations[i] || '');
+      });
+      return Buffer.from(output.join('\n'), 'utf-8');
+    }
+  };
+}
+
+// HTML: text nodes outside script/style/code blocks
+function parseHtml(content: string): ParsedDocument {
+  const tokens = content.split(/(<!--[\s\S]*?-->|<[^>]+>)/);
+  const indices: number[] = [];
+  let skipUntil: string | null = null;
+
+  tokens.forEach((token, index) => {
+    if (index % 2 === 1) {
+      const open = token.match(/^<(script|style|code|pre|textarea)\b/i);
+      const close = token.match(/^<\/(script|style|code|pre|textarea)\s*>/i);
+      if (!skipUntil && open) skipUntil = (open[1] || '').toLowerCase();
+      else if (skipUntil && close && (close[1] || '').toLowerCase() === skipUntil) skipUntil = null;
+      return;
+    }
+
+    if (!skipUntil && decodeEntities(token).trim()) {
+      indices.push(index);
+    }
+  });
+
+  return {
+    segments: indices.map(index => decodeEntities(tokens[index] || '')),
+    async rebuild(translations) {
+      const output = [...tokens];
+      indices.forEach((tokenIndex, i) => {
+        output[tokenIndex] = withSameWhitespace(
+          tokens[tokenIndex] || '',
+          encodeEntities(translations[i] || '')
+        );
+      });
+      return Buffer.from(output.join(''), 'utf-8');
+    }
+  };
+}
+
+// DOCX: one segment per paragraph. The translation goes into the paragraph's
+// first text run so paragraph styling survives; inline run formatting within
+// a paragraph is flattened.
+async function parseDocx(buffer: Buffer): Promise<ParsedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const partNames = Object.keys(zip.files).filter(name =>
+    /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/.test(name)
+  );
+
+  // Attributes may not end in "/" so self-closing empty elements are skipped
+  const paragraphPattern = /<w:p(?:\s[^>]*[^/])?>[\s\S]*?<\/w:p>/g;
+  const runPattern = /<w:t(?:\s[^>]*[^/])?>([\s\S]*?)<\/w:t>/g;
+
+  const parts: Array<{ name: string; xml: string }> = [];
+  const segments: string[] = [];
+
+  for (const name of partNames) {
+    const xml = await zip.file(name)!.async('string');
+    parts.push({ name, xml });
+
+    for (const paragraph of xml.match(paragraphPattern) || []) {
+      const text = Array.from(paragraph.matchAll(runPattern), run => decodeEntities(run[1] || '')).join('');
+      if (text.trim()) segments.push(text);
+    }
+  }
+
+  return {
+    segments,
+    async rebuild(translations) {
+      let next = 0;
+
+      for (const part of parts) {
+        const xml = part.xml.replace(paragraphPattern, paragraph => {
+          const text = Array.from(paragraph.matchAll(runPattern), run => decodeEntities(run[1] || '')).join('');
+          if (!text.trim()) return paragraph;
+
+          const translation = encodeEntities(withSameWhitespace(text, translations[next++] || ''));
+          let first = true;
+          return paragraph.replace(runPattern, () => {
+            const run = first
+              ? `<w:t xml:space="preserve">${translation}</w:t>`
+              : '<w:t></w:t>';
+            first = false;
+            return run;
+          });
+        });
+        zip.file(part.name, xml);
+      }
+
+      return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    }
+  };
+}
+
+export async function parseDocument(buffer: Buffer, format: DocumentFormat): Promise<ParsedDocument> {
+  switch (format) {
+    case 'text':
+      return parsePlainText(buffer.toString('utf-8'));
+    case 'markdown':
+      return parseMarkdown(buffer.toString('utf-8'));
+    case 'html':
+      return parseHtml(buffer.toString('utf-8'));
+    case 'docx':
+      return parseDocx(buffer);
+  }
+}
+
+// Split text longer than MAX_SEGMENT_CHARS at sentence boundaries
+export function splitLongSegment(text: string, maxChars: number = MAX_SEGMENT_CHARS): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const sentences = text.match(/[^.!?。！？]+[.!?。！？]*\s*/g) || [text];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    // A single oversized sentence is hard-split
+    for (let start = 0; start < sentence.length; start += maxChars) {
+      const slice = sentence.slice(start, start + maxChars);
+      if (current.length + slice.length > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current += slice;
+    }
+  }
+  if (current) pieces.push(current);
+
+  return pieces;
+}
+
+async function translateSegment(
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  options: TranslateOptions
+): Promise<string> {
+  const pieces = splitLongSegment(text);
+  const translated: string[] = [];
+
+  for (const piece of pieces) {
+    if (!piece.trim()) {
+      translated.push(piece);
+      continue;
+    }
+    const result = await translateText(piece.trim(), sourceLanguage, targetLanguage, options);
+    // Put back the whitespace the split left around the piece, so scripts
+    // written without spaces (Chinese, Japanese, Thai) don't gain any
+    const leading = piece.match(/^\s*/)?.[0] || '';
+    const trailing = piece.slice(leading.length).match(/\s*$/)?.[0] || '';
+    translated.push(leading + result.translatedText + trailing);
+  }
+
+  const joined = translated.join('');
+  return text.trim() ? joined.trim() : joined;
+}
+
+// Characters that will be sent for translation
+export function countDocumentCharacters(parsed: ParsedDocument): number {
+  return parsed.segments.reduce((total, segment) => total + segment.trim().length, 0);
+}
+
+// Translate a parsed document, recording progress on its Cosmic object.
+// Runs after the upload response has been sent.
+export async function processDocument(job: {
+  documentId: string;
+  parsed: ParsedDocument;
+  fileName: string;
+  format: DocumentFormat;
+  sourceLanguage: string;
+  targetLanguage: string;
+  userId?: string | null;
+}): Promise<void> {
+  try {
+    const { parsed } = job;
+    const translations: string[] = [];
+
+    for (let i = 0; i < parsed.segments.length; i++) {
+      translations.push(
+        await translateSegment(parsed.segments[i] || '', job.sourceLanguage, job.targetLanguage, {
+          userId: job.userId,
+          // Scores aren't shown per segment, so skip the extra request each
+          backTranslation: false
+        })
+      );
+
+      const done = i + 1;
+      if (done % PROGRESS_CHUNK_SIZE === 0 && done < parsed.segments.length) {
+        // Leave headroom for reassembly and upload
+        await updateDocumentTranslation(job.documentId, {
+          progress: Math.floor((done / parsed.segments.length) * 95)
+        });
+      }
+    }
+
+    const output = await parsed.rebuild(translations);
+    const name = translatedFileName(job.fileName, job.targetLanguage);
+    const media = await uploadMedia({ buffer: output, name, type: getDocumentMimeType(job.format) });
+
+    await updateDocumentTranslation(job.documentId, {
+      status: 'completed',
+      progress: 100,
+      translated_file: { url: media.url, name }
+    });
+  } catch (error) {
+    console.error('Document translation error:', error);
+    await updateDocumentTranslation(job.documentId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Document translation failed'
+    }).catch((updateError: unknown) => console.error('Failed to record document failure:', updateError));
+  }
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { streamConversationExport, streamHistoryExport } from '@/lib/export';
+import { getConversationSessionPage, getTranslationHistoryPage } from '@/lib/cosmic';
+import type { ConversationSession, Translation, TranslationHistoryPage } from '@/types';
+
+vi.mock('@/lib/cosmic', () => ({
+  getTranslationHistoryPage: vi.fn(),
+  getConversationSessionPage: vi.fn()
+}));
+
+function translation(id: string, sourceText: string, translatedText: string): Translation {
+  return {
+    id,
+    created_at: '2026-03-02T10:00:00.000Z',
+    metadata: {
+      source_text: sourceText,
+      translated_text: translatedText,
+      source_language: 'English',
+      target_language: 'German',
+      translation_method: 'text',
+      confidence_score: 0.9,
+      needs_review: false,
+      created_at: '2026-03-02T10:00:00.000Z',
+      user_id: 'github-1'
+    }
+  } as Translation;
+}
+
+function historyPages(...pages: Translation[][]) {
+  pages.forEach((translations, i) => {
+    vi.mocked(getTranslationHistoryPage).mockResolvedValueOnce({
+      translations,
+      total: pages.flat().length,
+      skip: 0,
+      limit: 100,
+      hasMore: i < pages.length - 1
+    } as TranslationHistoryPage);
+  });
+}
+
+async function read(stream: ReadableStream<Uint8Array> | null): Promise<string> {
+  expect(stream).not.toBeNull();
+  // Keep the byte order mark, which text() would strip
+  return new TextDecoder('utf-8', { ignoreBOM: true }).decode(await new Response(stream).arrayBuffer());
+}
+
+describe('streamHistoryExport', () => {
+  beforeEach(() => {
+    vi.mocked(getTranslationHistoryPage).mockReset();
+  });
+
+  it('writes CSV with a byte order mark and quoted cells, across pages', async () => {
+    historyPages(
+      [translation('1', 'Hello, "world"', 'Hallo, „Welt"')],
+      [],
+      [translation('2', 'Line\nbreak', 'Zeilen\numbruch')]
+    );
+
+    const csv = await read(await streamHistoryExport('github-1', {}, 'csv'));
+
+    expect(csv.split('\r\n')).toEqual([
+      '\uFEFFid,created_at,source_language,target_language,source_text,translated_text,method,confidence,needs_review,session_id',
+      '1,2026-03-02T10:00:00.000Z,English,German,"Hello, ""world""","Hallo, „Welt""",text,0.9,false,',
+      '2,2026-03-02T10:00:00.000Z,English,German,"Line\nbreak","Zeilen\numbruch",text,0.9,false,',
+      ''
+    ]);
+    expect(getTranslationHistoryPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('leaves the owner out of JSON exports', async () => {
+    historyPages([translation('1', 'Hi', 'Hallo'), translation('2', 'Bye', 'Tschüss')]);
+
+    const records = JSON.parse(await read(await streamHistoryExport('github-1', {}, 'json')));
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ id: '1', source_text: 'Hi', translated_text: 'Hallo' });
+    expect(records[0]).not.toHaveProperty('user_id');
+  });
+
+  it('writes TMX units with escaped text', async () => {
+    historyPages([translation('1', 'Fish & <chips>', 'Fisch & Pommes')]);
+
+    const tmx = await read(await streamHistoryExport('github-1', { sourceLanguage: 'English' }, 'tmx'));
+
+    expect(tmx).toContain('<tmx version="1.4">');
+    expect(tmx).toContain('srclang="en"');
+    expect(tmx).toContain('<tuv xml:lang="en"><seg>Fish &amp; &lt;chips&gt;</seg></tuv>');
+    expect(tmx).toContain('<tuv xml:lang="de"><seg>Fisch &amp; Pommes</seg></tuv>');
+    expect(tmx).toContain('<prop type="x-confidence">0.9</prop>');
+    expect(tmx.trimEnd().endsWith('</tmx>')).toBe(true);
+  });
+
+  it('writes XLIFF 2.0 for one language pair', async () => {
+    historyPages([translation('1', 'Hi', 'Hallo')]);
+
+    const xliff = await read(await streamHistoryExport(
+      'github-1',
+      { sourceLanguage: 'English', targetLanguage: 'German' },
+      'xliff'
+    ));
+
+    expect(xliff).toContain('version="2.0" srcLang="en" trgLang="de"');
+    expect(xliff).toContain('<file id="history">\n    <unit id="t1">');
+    expect(xliff).toContain('<source>Hi</source>\n        <target>Hallo</target>');
+  });
+
+  it('refuses an empty XLIFF export but not an empty CSV one', async () => {
+    historyPages([]);
+    expect(await streamHistoryExport('github-1', {}, 'xliff')).toBeNull();
+
+    historyPages([]);
+    expect(await read(await streamHistoryExport('github-1', {}, 'csv'))).toContain('source_text');
+  });
+});
+
+describe('streamConversationExport', () => {
+  const conversation = {
+    id: 'c1',
+    title: 'Trip',
+    created_at: '2026-03-02T10:00:00.000Z',
+    metadata: {
+      participants: [{ id: 'p1', name: 'Ana', language: 'English', color: 'blue' }],
+      messages: [
+        { id: 'm1', text: 'Hello', sender: 'p1', language: 'English', translations: { German: 'Hallo', French: 'Bonjour' }, timestamp: '2026-03-02T10:01:00.000Z' },
+        { id: 'm2', text: 'Hola', sender: 'p1', language: 'Spanish', translations: {}, timestamp: '2026-03-02T10:02:00.000Z' }
+      ]
+    }
+  } as unknown as ConversationSession;
+
+  it('writes one row per translation, and a row for untranslated messages', async () => {
+    const csv = await read(await streamConversationExport('github-1', { conversation }, 'csv'));
+
+    expect(csv.split('\r\n').slice(1, -1)).toEqual([
+      'c1,m1,2026-03-02T10:01:00.000Z,Ana,English,German,Hello,Hallo',
+      'c1,m1,2026-03-02T10:01:00.000Z,Ana,English,French,Hello,Bonjour',
+      'c1,m2,2026-03-02T10:02:00.000Z,Ana,Spanish,,Hola,'
+    ]);
+  });
+
+  it('keeps only the chosen pair in XLIFF, and refuses an export without it', async () => {
+    const pair = { sourceLanguage: 'English', targetLanguage: 'German' };
+    const xliff = await read(await streamConversationExport('github-1', { ...pair, conversation }, 'xliff'));
+
+    expect(xliff).toContain('<file id="cc1">');
+    expect(xliff).toContain('<target>Hallo</target>');
+    expect(xliff).not.toContain('Bonjour');
+    expect(xliff).not.toContain('Hola');
+
+    expect(await streamConversationExport(
+      'github-1',
+      { sourceLanguage: 'English', targetLanguage: 'Japanese', conversation },
+      'xliff'
+    )).toBeNull();
+  });
+
+  it('stops paging once conversations are older than from', async () => {
+    vi.mocked(getConversationSessionPage).mockResolvedValueOnce({
+      conversations: [conversation, { ...conversation, id: 'c0', created_at: '2026-01-01T00:00:00.000Z' }],
+      hasMore: true
+    });
+
+    const json = JSON.parse(await read(await streamConversationExport('github-1', { from: '2026-03-01T00:00:00.000Z' }, 'json')));
+
+    expect(json.map((record: { id: string }) => record.id)).toEqual(['c1']);
+    expect(getConversationSessionPage).toHaveBeenCalledTimes(1);
+  });
+});
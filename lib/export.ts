@@ -0,0 +1,391 @@
+import 'server-only';
+import { getTranslationHistoryPage, getConversationSessionPage } from '@/lib/cosmic';
+import { getLanguageTag } from '@/lib/languages';
+import type { ConversationMessage, ConversationSession, Translation, TranslationHistoryQuery } from '@/types';
+
+// Translation history and conversation export
+//
+// Exports are streamed: records are fetched from Cosmic a page at a time and
+// each page is serialized and sent before the next one is fetched, so large
+// histories never sit in memory whole. CSV and JSON are for people and
+// scripts; TMX 1.4 and XLIFF 2.0 are for CAT tools. An XLIFF document has a
+// single language pair, so XLIFF exports need one, and can't be empty.
+
+export type ExportFormat = 'csv' | 'json' | 'tmx' | 'xliff';
+export type ExportKind = 'history' | 'conversations';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'tmx', 'xliff'];
+
+export interface ExportLanguages {
+  sourceLanguage?: string;
+  targetLanguage?: string;
+}
+
+const PAGE_SIZE = 100;
+const CREATION_TOOL = 'LinguaLink AI';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  tmx: 'application/x-tmx+xml; charset=utf-8',
+  xliff: 'application/xliff+xml; charset=utf-8'
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  tmx: 'tmx',
+  xliff: 'xlf'
+};
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function getExportMimeType(format: ExportFormat): string {
+  return MIME_TYPES[format];
+}
+
+// e.g. "lingualink-history-2024-06-01.tmx"
+export function exportFileName(kind: ExportKind, format: ExportFormat): string {
+  return `lingualink-${kind}-${new Date().toISOString().slice(0, 10)}.${EXTENSIONS[format]}`;
+}
+
+// Serializes one kind of record; item() may return '' to leave a record out
+interface ExportWriter<T> {
+  start(): string;
+  item(record: T, index: number): string;
+  end(): string;
+}
+
+// Escape text for XML content and attributes, dropping characters XML 1.0 forbids
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function csvRow(cells: Array<string | number | boolean | undefined>): string {
+  return cells.map(cell => {
+    const text = cell === undefined ? '' : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\r\n';
+}
+
+// TMX dates are "YYYYMMDDThhmmssZ"
+function tmxDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+}
+
+function tmxStart(languages: ExportLanguages): string {
+  const srclang = languages.sourceLanguage ? getLanguageTag(languages.sourceLanguage) : '*all*';
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + '<tmx version="1.4">\n'
+    + `  <header creationtool="${CREATION_TOOL}" creationtoolversion="1.0" segtype="sentence" o-tmf="${CREATION_TOOL}"`
+    + ` adminlang="en" srclang="${escapeXml(srclang)}" datatype="plaintext" creationdate="${tmxDate(new Date().toISOString())}"/>\n`
+    + '  <body>\n';
+}
+
+const TMX_END = '  </body>\n</tmx>\n';
+
+// One translation unit: the source segment first, then its translations
+function tmxUnit(unit: {
+  id: string;
+  created: string;
+  props: Record<string, string | undefined>;
+  segments: Array<{ language: string; text: string }>;
+}): string {
+  const srclang = getLanguageTag(unit.segments[0]?.language || '');
+  const props = Object.entries(unit.props)
+    .filter(([, value]) => value)
+    .map(([type, value]) => `      <prop type="x-${type}">${escapeXml(value!)}</prop>\n`)
+    .join('');
+  const tuvs = unit.segments
+    .map(segment => `      <tuv xml:lang="${escapeXml(getLanguageTag(segment.language))}"><seg>${escapeXml(segment.text)}</seg></tuv>\n`)
+    .join('');
+
+  return `    <tu tuid="${escapeXml(unit.id)}" srclang="${escapeXml(srclang)}" creationdate="${tmxDate(unit.created)}">\n`
+    + props
+    + tuvs
+    + '    </tu>\n';
+}
+
+function xliffStart(languages: ExportLanguages): string {
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0"'
+    + ` srcLang="${escapeXml(getLanguageTag(languages.sourceLanguage || ''))}"`
+    + ` trgLang="${escapeXml(getLanguageTag(languages.targetLanguage || ''))}">\n`;
+}
+
+const XLIFF_END = '</xliff>\n';
+
+function xliffUnit(unit: {
+  id: string;
+  notes: Record<string, string | undefined>;
+  source: string;
+  target: string;
+}): string {
+  const notes = Object.entries(unit.notes)
+    .filter(([, value]) => value)
+    .map(([category, value]) => `        <note category="${category}">${escapeXml(value!)}</note>\n`)
+    .join('');
+
+  return `    <unit id="${escapeXml(unit.id)}">\n`
+    + (notes ? `      <notes>\n${notes}      </notes>\n` : '')
+    + '      <segment state="translated">\n'
+    + `        <source>${escapeXml(unit.source)}</source>\n`
+    + `        <target>${escapeXml(unit.target)}</target>\n`
+    + '      </segment>\n'
+    + '    </unit>\n';
+}
+
+function historyWriter(format: ExportFormat, languages: ExportLanguages): ExportWriter<Translation> {
+  switch (format) {
+    case 'csv':
+      return {
+        // The byte order mark makes spreadsheet apps read the file as UTF-8
+        start: () => '\uFEFF' + csvRow([
+          'id', 'created_at', 'source_language', 'target_language', 'source_text',
+          'translated_text', 'method', 'confidence', 'needs_review', 'session_id'
+        ]),
+        item: ({ id, created_at, metadata }) => csvRow([
+          id, created_at, metadata.source_language, metadata.target_language, metadata.source_text,
+          metadata.translated_text, metadata.translation_method, metadata.confidence_score,
+          metadata.needs_review ? 'true' : 'false', metadata.session_id
+        ]),
+        end: () => ''
+      };
+    case 'json':
+      return {
+        start: () => '[\n',
+        item: ({ id, created_at, metadata }, index) => {
+          const { user_id: _userId, created_at: _created, ...fields } = metadata;
+          return (index > 0 ? ',\n' : '') + JSON.stringify({ id, created_at, ...fields });
+        },
+        end: () => '\n]\n'
+      };
+    case 'tmx':
+      return {
+        start: () => tmxStart(languages),
+        item: ({ id, created_at, metadata }) => tmxUnit({
+          id,
+          created: created_at,
+          props: {
+            method: metadata.translation_method,
+            confidence: metadata.confidence_score ? String(metadata.confidence_score) : undefined,
+            'needs-review': metadata.needs_review ? 'true' : undefined,
+            session: metadata.session_id
+          },
+          segments: [
+            { language: metadata.source_language, text: metadata.source_text },
+            { language: metadata.target_language, text: metadata.translated_text }
+          ]
+        }),
+        end: () => TMX_END
+      };
+    case 'xliff':
+      return {
+        start: () => xliffStart(languages) + '  <file id="history">\n',
+        item: ({ id, created_at, metadata }) => xliffUnit({
+          id: `t${id}`,
+          notes: {
+            created: created_at,
+            method: metadata.translation_method,
+            'needs-review': metadata.needs_review ? 'true' : undefined
+          },
+          source: metadata.source_text,
+          target: metadata.translated_text
+        }),
+        end: () => '  </file>\n' + XLIFF_END
+      };
+  }
+}
+
+// A conversation's messages in the source language (when given), each with
+// its translations into the target language (when given)
+function conversationMessages(
+  conversation: ConversationSession,
+  languages: ExportLanguages
+): Array<{ message: ConversationMessage; speaker: string; translations: Array<[string, string]> }> {
+  const { participants = [], messages = [] } = conversation.metadata;
+
+  return messages
+    .filter(message => !languages.sourceLanguage || message.language === languages.sourceLanguage)
+    .map(message => ({
+      message,
+      speaker: participants.find(participant => participant.id === message.sender)?.name || message.sender,
+      translations: Object.entries(message.translations || {})
+        .filter(([language]) => !languages.targetLanguage || language === languages.targetLanguage)
+    }))
+    .filter(({ translations }) => !languages.targetLanguage || translations.length > 0);
+}
+
+function conversationWriter(format: ExportFormat, languages: ExportLanguages): ExportWriter<ConversationSession> {
+  switch (format) {
+    case 'csv':
+      return {
+        start: () => '\uFEFF' + csvRow([
+          'conversation_id', 'message_id', 'timestamp', 'speaker', 'source_language',
+          'target_language', 'source_text', 'translated_text'
+        ]),
+        // One row per translation; untranslated messages still get a row
+        item: conversation => conversationMessages(conversation, languages)
+          .flatMap(({ message, speaker, translations }) =>
+            (translations.length > 0 ? translations : [['', ''] as [string, string]]).map(([language, text]) => csvRow([
+              conversation.id, message.id, message.timestamp, speaker, message.language, language, message.text, text
+            ])))
+          .join(''),
+        end: () => ''
+      };
+    case 'json':
+      return {
+        start: () => '[\n',
+        item: (conversation, index) => {
+          const { participants, session_duration, status } = conversation.metadata;
+          const messages = conversationMessages(conversation, languages)
+            .map(({ message, translations }) => ({ ...message, translations: Object.fromEntries(translations) }));
+          return (index > 0 ? ',\n' : '') + JSON.stringify({
+            id: conversation.id,
+            title: conversation.title,
+            created_at: conversation.created_at,
+            participants,
+            session_duration,
+            status,
+            messages
+          });
+        },
+        end: () => '\n]\n'
+      };
+    case 'tmx':
+      return {
+        start: () => tmxStart(languages),
+        item: conversation => conversationMessages(conversation, languages)
+          .filter(({ translations }) => translations.length > 0)
+          .map(({ message, speaker, translations }) => tmxUnit({
+            id: `${conversation.id}-${message.id}`,
+            created: message.timestamp || conversation.created_at,
+            props: { conversation: conversation.id, speaker },
+            segments: [
+              { language: message.language, text: message.text },
+              ...translations.map(([language, text]) => ({ language, text }))
+            ]
+          }))
+          .join(''),
+        end: () => TMX_END
+      };
+    case 'xliff':
+      return {
+        start: () => xliffStart(languages),
+        // One <file> per conversation; XLIFF files can't be empty
+        item: conversation => {
+          const units = conversationMessages(conversation, languages)
+            .map(({ message, speaker, translations }) => xliffUnit({
+              // Unit ids are NMTOKENs
+              id: `m${message.id}`.replace(/[^\w.:-]/g, '_'),
+              notes: { speaker, timestamp: message.timestamp },
+              source: message.text,
+              target: translations[0]?.[1] || ''
+            }))
+            .join('');
+          return units ? `  <file id="c${conversation.id}">\n${units}  </file>\n` : '';
+        },
+        end: () => XLIFF_END
+      };
+  }
+}
+
+// Stream a writer's output over pages of records. Pages are only fetched as
+// the client reads, so a slow download never buffers the whole export. The
+// first output is read ahead, so an export that can't be empty (XLIFF needs
+// at least one <file> with a <unit>) is refused with null before any response
+// is sent.
+async function streamPages<T>(
+  writer: ExportWriter<T>,
+  fetchPage: (skip: number) => Promise<{ records: T[]; fetched: number; hasMore: boolean }>,
+  allowEmpty: boolean
+): Promise<ReadableStream<Uint8Array> | null> {
+  const encoder = new TextEncoder();
+  let skip = 0;
+  let index = 0;
+
+  // Fetch pages until there is output, or there are no more
+  const readChunk = async (): Promise<{ chunk: string; done: boolean }> => {
+    for (;;) {
+      const page = await fetchPage(skip);
+      skip += page.fetched;
+
+      const chunk = page.records.map(record => writer.item(record, index++)).join('');
+      if (!page.hasMore || chunk) {
+        return { chunk, done: !page.hasMore };
+      }
+    }
+  };
+
+  const first = await readChunk();
+  if (!first.chunk && !allowEmpty) return null;
+
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { chunk, done } = started ? await readChunk() : first;
+        const output = (started ? '' : writer.start()) + chunk + (done ? writer.end() : '');
+        started = true;
+
+        controller.enqueue(encoder.encode(output));
+        if (done) controller.close();
+      } catch (error) {
+        console.error('Export failed:', error);
+        controller.error(error);
+      }
+    }
+  });
+}
+
+// Stream a user's translation history matching the query, newest first; null
+// for an XLIFF export with nothing in it
+export function streamHistoryExport(
+  userId: string,
+  query: TranslationHistoryQuery,
+  format: ExportFormat
+): Promise<ReadableStream<Uint8Array> | null> {
+  return streamPages(historyWriter(format, query), async skip => {
+    const page = await getTranslationHistoryPage(userId, { ...query, limit: PAGE_SIZE, skip });
+    return { records: page.translations, fetched: page.translations.length, hasMore: page.hasMore };
+  }, format !== 'xliff');
+}
+
+// Stream one conversation, or the user's conversations created between
+// from and to (ISO timestamps, inclusive), newest first; null for an XLIFF
+// export with nothing in it
+export function streamConversationExport(
+  userId: string,
+  options: ExportLanguages & { conversation?: ConversationSession; from?: string; to?: string },
+  format: ExportFormat
+): Promise<ReadableStream<Uint8Array> | null> {
+  const writer = conversationWriter(format, options);
+  const { conversation, from, to } = options;
+  const allowEmpty = format !== 'xliff';
+
+  if (conversation) {
+    return streamPages(writer, async () => ({ records: [conversation], fetched: 1, hasMore: false }), allowEmpty);
+  }
+
+  return streamPages(writer, async skip => {
+    const page = await getConversationSessionPage(userId, { limit: PAGE_SIZE, skip });
+    const last = page.conversations[page.conversations.length - 1];
+
+    return {
+      records: page.conversations.filter(session =>
+        (!from || session.created_at >= from) && (!to || session.created_at <= to)),
+      fetched: page.conversations.length,
+      // Newest first, so nothing after a conversation older than from matches
+      hasMore: page.hasMore && !(from && last && last.created_at < from)
+    };
+  }, allowEmpty);
+}
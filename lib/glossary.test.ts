@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildGlossaryInstructions,
+  getGlossaryForPair,
+  invalidateGlossaryCache,
+  matchGlossary,
+  verifyGlossary
+} from '@/lib/glossary';
+import { getGlossaryEntries } from '@/lib/cosmic';
+import type { GlossaryEntry } from '@/types';
+
+vi.mock('@/lib/cosmic', () => ({
+  getGlossaryEntries: vi.fn(async () => [])
+}));
+
+function entry(id: string, sourceTerm: string, targetTerm: string, options: Partial<GlossaryEntry['metadata']> = {}): GlossaryEntry {
+  return {
+    id,
+    metadata: {
+      source_term: sourceTerm,
+      target_term: targetTerm,
+      source_language: 'English',
+      target_language: 'German',
+      case_sensitive: false,
+      do_not_translate: false,
+      ...options
+    }
+  } as GlossaryEntry;
+}
+
+const entries = [
+  entry('g1', 'AI', 'KI', { case_sensitive: true }),
+  entry('g2', 'invoice', 'Rechnung'),
+  entry('g3', 'Cosmic', 'Cosmic', { do_not_translate: true })
+];
+
+describe('matchGlossary', () => {
+  it('matches whole terms only, respecting case sensitivity', () => {
+    expect(matchGlossary('She said the Invoice was paid', entries).map(e => e.id)).toEqual(['g2']);
+    expect(matchGlossary('AI and ai', entries).map(e => e.id)).toEqual(['g1']);
+    expect(matchGlossary('ai only', entries)).toEqual([]);
+    expect(matchGlossary('Built on Cosmic.', entries).map(e => e.id)).toEqual(['g3']);
+  });
+});
+
+describe('buildGlossaryInstructions', () => {
+  it('lists renderings and terms to keep', () => {
+    expect(buildGlossaryInstructions([])).toBe('');
+    expect(buildGlossaryInstructions([entries[1]!, entries[2]!])).toBe([
+      'Use the following terminology exactly:',
+      '- Translate "invoice" as "Rechnung"',
+      '- "Cosmic" must not be translated; keep it exactly as written'
+    ].join('\n'));
+  });
+});
+
+describe('verifyGlossary', () => {
+  it('reports required terms missing from the translation', () => {
+    expect(verifyGlossary('Die Rechnung für KI', entries.slice(0, 2))).toEqual([]);
+    expect(verifyGlossary('Die Faktura für ki', entries.slice(0, 2))).toEqual([
+      { entryId: 'g1', sourceTerm: 'AI', expectedTerm: 'KI' },
+      { entryId: 'g2', sourceTerm: 'invoice', expectedTerm: 'Rechnung' }
+    ]);
+  });
+});
+
+describe('getGlossaryForPair', () => {
+  beforeEach(() => {
+    invalidateGlossaryCache();
+    vi.mocked(getGlossaryEntries).mockReset();
+  });
+
+  it('caches entries per pair until invalidated', async () => {
+    vi.mocked(getGlossaryEntries).mockResolvedValue(entries);
+
+    expect(await getGlossaryForPair('English', 'German')).toBe(entries);
+    await getGlossaryForPair('English', 'German');
+    expect(getGlossaryEntries).toHaveBeenCalledTimes(1);
+
+    invalidateGlossaryCache();
+    await getGlossaryForPair('English', 'German');
+    expect(getGlossaryEntries).toHaveBeenCalledTimes(2);
+  });
+
+  it('translates without terminology when the lookup fails', async () => {
+    vi.mocked(getGlossaryEntries).mockRejectedValue(new Error('down'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await getGlossaryForPair('English', 'German')).toEqual([]);
+  });
+});
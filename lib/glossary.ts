@@ -0,0 +1,79 @@
+import 'server-only';
+import { getGlossaryEntries } from '@/lib/cosmic';
+import type { GlossaryEntry, GlossaryViolation } from '@/types';
+
+// Glossary enforcement: pick the entries that apply to a source text, turn
+// them into prompt instructions, and check the translation afterwards.
+
+const CACHE_TTL_MS = 60 * 1000;
+
+const cache = new Map<string, { entries: GlossaryEntry[]; expires: number }>();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-term match, so "AI" does not match inside "said"
+function containsTerm(text: string, term: string, caseSensitive: boolean): boolean {
+  if (!term.trim()) return false;
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}(?=$|[^\\p{L}\\p{N}])`, caseSensitive ? 'u' : 'iu');
+  return pattern.test(text);
+}
+
+// Glossary entries for a language pair, cached briefly per server process
+export async function getGlossaryForPair(
+  sourceLanguage: string,
+  targetLanguage: string
+): Promise<GlossaryEntry[]> {
+  const key = `${sourceLanguage}|${targetLanguage}`;
+  const cached = cache.get(key);
+  if (cached && cached.expires > Date.now()) {
+    return cached.entries;
+  }
+
+  try {
+    const entries = await getGlossaryEntries(sourceLanguage, targetLanguage);
+    cache.set(key, { entries, expires: Date.now() + CACHE_TTL_MS });
+    return entries;
+  } catch (error) {
+    // Translate without terminology rather than failing outright
+    console.error('Glossary lookup failed:', error);
+    return [];
+  }
+}
+
+// Drop cached entries after the glossary changes
+export function invalidateGlossaryCache(): void {
+  cache.clear();
+}
+
+// Entries whose source term occurs in the text
+export function matchGlossary(text: string, entries: GlossaryEntry[]): GlossaryEntry[] {
+  return entries.filter(entry =>
+    containsTerm(text, entry.metadata.source_term, entry.metadata.case_sensitive)
+  );
+}
+
+// Prompt instructions listing the required renderings
+export function buildGlossaryInstructions(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return '';
+
+  const lines = entries.map(({ metadata }) =>
+    metadata.do_not_translate
+      ? `- "${metadata.source_term}" must not be translated; keep it exactly as written`
+      : `- Translate "${metadata.source_term}" as "${metadata.target_term}"`
+  );
+
+  return `Use the following terminology exactly:\n${lines.join('\n')}`;
+}
+
+// Required terms missing from the translation
+export function verifyGlossary(translatedText: string, entries: GlossaryEntry[]): GlossaryViolation[] {
+  return entries
+    .filter(({ metadata }) => !containsTerm(translatedText, metadata.target_term, metadata.case_sensitive))
+    .map(entry => ({
+      entryId: entry.id,
+      sourceTerm: entry.metadata.source_term,
+      expectedTerm: entry.metadata.target_term
+    }));
+}
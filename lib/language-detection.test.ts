@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { detectLanguage, matchLanguage } from '@/lib/language-detection';
+import { getDefaultLanguages } from '@/lib/languages';
+import { LocalProvider, setTranslationProvider } from '@/lib/translation-providers';
+import type { TranslationProvider } from '@/lib/translation-providers';
+
+vi.mock('@/lib/cosmic', () => ({
+  getLanguages: vi.fn(async () => [])
+}));
+
+// A provider giving the same answer to every request
+function answering(text: string): TranslationProvider {
+  return {
+    name: 'canned',
+    complete: async () => ({ text, model: 'canned' }),
+    stream: async function* () {}
+  };
+}
+
+function candidates(...list: Array<[string, string, number]>): string {
+  return JSON.stringify({ candidates: list.map(([code, name, confidence]) => ({ code, name, confidence })) });
+}
+
+describe('matchLanguage', () => {
+  const languages = getDefaultLanguages();
+
+  it('matches by code, primary subtag, then English or native name', () => {
+    expect(matchLanguage({ code: 'de', name: '' }, languages)?.title).toBe('German');
+    expect(matchLanguage({ code: 'pt-BR', name: '' }, languages)?.title).toBe('Portuguese');
+    expect(matchLanguage({ code: 'und', name: 'dutch' }, languages)?.title).toBe('Dutch');
+    expect(matchLanguage({ code: 'und', name: 'Svenska' }, languages)?.title).toBe('Swedish');
+    expect(matchLanguage({ code: 'tlh', name: 'Klingon' }, languages)).toBeUndefined();
+  });
+});
+
+describe('detectLanguage', () => {
+  it('ranks candidates and is unambiguous with a confident, clear lead', async () => {
+    setTranslationProvider(answering(
+      'Sure! ' + candidates(['es', 'Spanish', 0.1], ['pt-br', 'Portuguese', 0.95], ['gl', 'Galician', 0.05])
+    ));
+
+    const detection = await detectLanguage('Bom dia', 2);
+
+    expect(detection).toMatchObject({ code: 'pt-BR', name: 'Portuguese', confidence: 0.95, unambiguous: true });
+    expect(detection.language?.title).toBe('Portuguese');
+    expect(detection.candidates.map(candidate => candidate.code)).toEqual(['pt-BR', 'es']);
+  });
+
+  it('is ambiguous when the runner-up is close or the language is unknown', async () => {
+    setTranslationProvider(answering(candidates(['da', 'Danish', 0.85], ['no', 'Norwegian', 0.7])));
+    expect((await detectLanguage('Hej')).unambiguous).toBe(false);
+
+    setTranslationProvider(answering(candidates(['tlh', 'Klingon', 0.99])));
+    expect(await detectLanguage('Qapla')).toMatchObject({ name: 'Klingon', unambiguous: false });
+  });
+
+  it('takes a bare language name as a single candidate', async () => {
+    setTranslationProvider(answering('"French"'));
+
+    expect(await detectLanguage('Bonjour')).toMatchObject({
+      code: 'fr',
+      name: 'French',
+      confidence: 0.5,
+      unambiguous: false
+    });
+  });
+
+  it('is undetermined when the provider has no answer or fails', async () => {
+    setTranslationProvider(answering('unknown'));
+    expect(await detectLanguage('???')).toMatchObject({ code: 'und', candidates: [], unambiguous: false });
+
+    setTranslationProvider({
+      name: 'broken',
+      complete: async () => { throw new Error('down'); },
+      stream: async function* () {}
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await detectLanguage('Hallo')).code).toBe('und');
+  });
+
+  it('recognises single-language scripts with the local provider', async () => {
+    setTranslationProvider(new LocalProvider());
+
+    expect(await detectLanguage('こんにちは')).toMatchObject({ code: 'ja', name: 'Japanese', unambiguous: true });
+  });
+});
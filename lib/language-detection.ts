@@ -0,0 +1,157 @@
+import 'server-only';
+import { getTranslationProvider } from '@/lib/translation-providers';
+import { getLanguages } from '@/lib/cosmic';
+import { getDefaultLanguages, registerLanguages } from '@/lib/languages';
+import type { Language, LanguageCandidate, LanguageDetection } from '@/types';
+
+// Language detection
+//
+// The provider is asked for its top candidates as JSON (BCP-47 code, English
+// name, confidence). Candidates are matched against the languages list so
+// callers get a Language they can select, and a detection only counts as
+// unambiguous when it is confident, clearly ahead of the runner-up and matched.
+
+export const DEFAULT_MAX_CANDIDATES = 3;
+
+// Minimum confidence, and lead over the second candidate, to be unambiguous
+const UNAMBIGUOUS_CONFIDENCE = 0.8;
+const UNAMBIGUOUS_MARGIN = 0.3;
+
+const LANGUAGES_TTL_MS = 5 * 60_000;
+
+let languagesCache: { languages: Language[]; expires: number } | null = null;
+
+const UNDETERMINED: LanguageDetection = {
+  code: 'und',
+  name: 'Unknown',
+  confidence: 0,
+  candidates: [],
+  unambiguous: false
+};
+
+// Languages list (bundled defaults when Cosmic has none), cached briefly per server process
+async function getKnownLanguages(): Promise<Language[]> {
+  if (languagesCache && languagesCache.expires > Date.now()) {
+    return languagesCache.languages;
+  }
+
+  try {
+    const fetched = await getLanguages();
+    const languages = fetched.length > 0 ? fetched : getDefaultLanguages();
+    registerLanguages(languages);
+    languagesCache = { languages, expires: Date.now() + LANGUAGES_TTL_MS };
+    return languages;
+  } catch (error) {
+    console.error('Failed to load languages for detection:', error);
+    return getDefaultLanguages();
+  }
+}
+
+// Canonical BCP-47 casing ("pt-br" -> "pt-BR"); "und" if it isn't a valid tag
+function canonicalCode(code: string): string {
+  try {
+    return Intl.getCanonicalLocales(code.trim())[0] || 'und';
+  } catch (error) {
+    return 'und';
+  }
+}
+
+function primarySubtag(code: string): string {
+  return code.split('-')[0]?.toLowerCase() || '';
+}
+
+// Match by exact code, then primary subtag, then English or native name
+export function matchLanguage(
+  candidate: { code: string; name: string },
+  languages: Language[]
+): Language | undefined {
+  const code = candidate.code.toLowerCase();
+  const name = candidate.name.trim().toLowerCase();
+
+  return languages.find(language => language.metadata.code?.toLowerCase() === code)
+    || languages.find(language => primarySubtag(language.metadata.code || '') === primarySubtag(code))
+    || languages.find(language =>
+      language.title.toLowerCase() === name || language.metadata.native_name?.toLowerCase() === name
+    );
+}
+
+// Read candidates from the provider's answer. Older or smaller models sometimes
+// answer with a bare language name; that is taken as a single candidate.
+function parseCandidates(output: string): Array<Omit<LanguageCandidate, 'language'>> {
+  const json = output.match(/\{[\s\S]*\}/)?.[0];
+
+  if (json) {
+    try {
+      const parsed = JSON.parse(json);
+      if (Array.isArray(parsed.candidates)) {
+        return parsed.candidates
+          .filter((c: any) => c && typeof c.name === 'string' && typeof c.code === 'string')
+          .map((c: any) => ({
+            code: canonicalCode(c.code),
+            name: c.name.trim(),
+            confidence: Math.min(1, Math.max(0, Number(c.confidence) || 0))
+          }));
+      }
+    } catch (error) {
+      // Fall through to the plain-name reading
+    }
+  }
+
+  const name = output.trim().replace(/^"|"$/g, '');
+  if (!name || /^unknown$/i.test(name)) return [];
+  return [{ code: 'und', name, confidence: 0.5 }];
+}
+
+// Detect the language of text, returning up to maxCandidates ranked candidates
+export async function detectLanguage(
+  text: string,
+  maxCandidates: number = DEFAULT_MAX_CANDIDATES
+): Promise<LanguageDetection> {
+  try {
+    const provider = getTranslationProvider();
+
+    const prompt = `Detect the language of the following text. Respond with only JSON of the form
+    {"candidates": [{"code": "<BCP-47 tag>", "name": "<language name in English>", "confidence": <0-1>}]}
+    listing at most ${maxCandidates} candidates, most likely first:
+
+    "${text}"`;
+
+    const completion = await provider.complete({
+      task: 'detect',
+      prompt,
+      text,
+      temperature: 0.1,
+      maxTokens: 200,
+    });
+
+    const languages = await getKnownLanguages();
+    const candidates: LanguageCandidate[] = parseCandidates(completion.text)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, maxCandidates)
+      .map(candidate => {
+        const language = matchLanguage(candidate, languages);
+        return {
+          ...candidate,
+          code: candidate.code === 'und' && language ? language.metadata.code : candidate.code,
+          language
+        };
+      });
+
+    const [best, runnerUp] = candidates;
+    if (!best) return UNDETERMINED;
+
+    return {
+      code: best.code,
+      name: best.language?.title || best.name,
+      language: best.language,
+      confidence: best.confidence,
+      candidates,
+      unambiguous: Boolean(best.language)
+        && best.confidence >= UNAMBIGUOUS_CONFIDENCE
+        && best.confidence - (runnerUp?.confidence ?? 0) >= UNAMBIGUOUS_MARGIN
+    };
+  } catch (error) {
+    console.error('Language detection error:', error);
+    return UNDETERMINED;
+  }
+}
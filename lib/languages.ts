@@ -0,0 +1,172 @@
+import type { Language } from '@/types';
+
+// Language registry
+//
+// One place for what the app knows about each language: BCP-47 tag, speech
+// locale, flag, native name and text direction. A bundled dataset covers the
+// common languages; entries loaded from Cosmic are registered on top of it and
+// win where they set a value. Safe to use on both server and client.
+
+export interface LanguageInfo {
+  name: string;
+  // BCP-47 tag without region, e.g. "nl"
+  code: string;
+  nativeName: string;
+  flag: string;
+  // Locale for speech recognition and synthesis, e.g. "nl-NL"
+  speechLocale: string;
+  rtl: boolean;
+}
+
+const DEFAULT_FLAG = '🌐';
+
+const BUNDLED_LANGUAGES: LanguageInfo[] = [
+  { name: 'English', code: 'en', nativeName: 'English', flag: '🇺🇸', speechLocale: 'en-US', rtl: false },
+  { name: 'Spanish', code: 'es', nativeName: 'Español', flag: '🇪🇸', speechLocale: 'es-ES', rtl: false },
+  { name: 'French', code: 'fr', nativeName: 'Français', flag: '🇫🇷', speechLocale: 'fr-FR', rtl: false },
+  { name: 'German', code: 'de', nativeName: 'Deutsch', flag: '🇩🇪', speechLocale: 'de-DE', rtl: false },
+  { name: 'Italian', code: 'it', nativeName: 'Italiano', flag: '🇮🇹', speechLocale: 'it-IT', rtl: false },
+  { name: 'Portuguese', code: 'pt', nativeName: 'Português', flag: '🇵🇹', speechLocale: 'pt-BR', rtl: false },
+  { name: 'Russian', code: 'ru', nativeName: 'Русский', flag: '🇷🇺', speechLocale: 'ru-RU', rtl: false },
+  { name: 'Chinese', code: 'zh', nativeName: '中文', flag: '🇨🇳', speechLocale: 'zh-CN', rtl: false },
+  { name: 'Japanese', code: 'ja', nativeName: '日本語', flag: '🇯🇵', speechLocale: 'ja-JP', rtl: false },
+  { name: 'Korean', code: 'ko', nativeName: '한국어', flag: '🇰🇷', speechLocale: 'ko-KR', rtl: false },
+  { name: 'Arabic', code: 'ar', nativeName: 'العربية', flag: '🇸🇦', speechLocale: 'ar-SA', rtl: true },
+  { name: 'Hindi', code: 'hi', nativeName: 'हिन्दी', flag: '🇮🇳', speechLocale: 'hi-IN', rtl: false },
+  { name: 'Dutch', code: 'nl', nativeName: 'Nederlands', flag: '🇳🇱', speechLocale: 'nl-NL', rtl: false },
+  { name: 'Swedish', code: 'sv', nativeName: 'Svenska', flag: '🇸🇪', speechLocale: 'sv-SE', rtl: false },
+  { name: 'Norwegian', code: 'no', nativeName: 'Norsk', flag: '🇳🇴', speechLocale: 'nb-NO', rtl: false },
+  { name: 'Danish', code: 'da', nativeName: 'Dansk', flag: '🇩🇰', speechLocale: 'da-DK', rtl: false },
+  { name: 'Finnish', code: 'fi', nativeName: 'Suomi', flag: '🇫🇮', speechLocale: 'fi-FI', rtl: false },
+  { name: 'Polish', code: 'pl', nativeName: 'Polski', flag: '🇵🇱', speechLocale: 'pl-PL', rtl: false },
+  { name: 'Czech', code: 'cs', nativeName: 'Čeština', flag: '🇨🇿', speechLocale: 'cs-CZ', rtl: false },
+  { name: 'Hungarian', code: 'hu', nativeName: 'Magyar', flag: '🇭🇺', speechLocale: 'hu-HU', rtl: false },
+  { name: 'Romanian', code: 'ro', nativeName: 'Română', flag: '🇷🇴', speechLocale: 'ro-RO', rtl: false },
+  { name: 'Bulgarian', code: 'bg', nativeName: 'Български', flag: '🇧🇬', speechLocale: 'bg-BG', rtl: false },
+  { name: 'Croatian', code: 'hr', nativeName: 'Hrvatski', flag: '🇭🇷', speechLocale: 'hr-HR', rtl: false },
+  { name: 'Serbian', code: 'sr', nativeName: 'Српски', flag: '🇷🇸', speechLocale: 'sr-RS', rtl: false },
+  { name: 'Slovak', code: 'sk', nativeName: 'Slovenčina', flag: '🇸🇰', speechLocale: 'sk-SK', rtl: false },
+  { name: 'Slovenian', code: 'sl', nativeName: 'Slovenščina', flag: '🇸🇮', speechLocale: 'sl-SI', rtl: false },
+  { name: 'Estonian', code: 'et', nativeName: 'Eesti', flag: '🇪🇪', speechLocale: 'et-EE', rtl: false },
+  { name: 'Latvian', code: 'lv', nativeName: 'Latviešu', flag: '🇱🇻', speechLocale: 'lv-LV', rtl: false },
+  { name: 'Lithuanian', code: 'lt', nativeName: 'Lietuvių', flag: '🇱🇹', speechLocale: 'lt-LT', rtl: false },
+  { name: 'Greek', code: 'el', nativeName: 'Ελληνικά', flag: '🇬🇷', speechLocale: 'el-GR', rtl: false },
+  { name: 'Turkish', code: 'tr', nativeName: 'Türkçe', flag: '🇹🇷', speechLocale: 'tr-TR', rtl: false },
+  { name: 'Hebrew', code: 'he', nativeName: 'עברית', flag: '🇮🇱', speechLocale: 'he-IL', rtl: true },
+  { name: 'Persian', code: 'fa', nativeName: 'فارسی', flag: '🇮🇷', speechLocale: 'fa-IR', rtl: true },
+  { name: 'Urdu', code: 'ur', nativeName: 'اردو', flag: '🇵🇰', speechLocale: 'ur-PK', rtl: true },
+  { name: 'Thai', code: 'th', nativeName: 'ไทย', flag: '🇹🇭', speechLocale: 'th-TH', rtl: false },
+  { name: 'Vietnamese', code: 'vi', nativeName: 'Tiếng Việt', flag: '🇻🇳', speechLocale: 'vi-VN', rtl: false },
+  { name: 'Indonesian', code: 'id', nativeName: 'Bahasa Indonesia', flag: '🇮🇩', speechLocale: 'id-ID', rtl: false },
+  { name: 'Malay', code: 'ms', nativeName: 'Bahasa Melayu', flag: '🇲🇾', speechLocale: 'ms-MY', rtl: false },
+  { name: 'Tagalog', code: 'tl', nativeName: 'Tagalog', flag: '🇵🇭', speechLocale: 'fil-PH', rtl: false },
+  { name: 'Ukrainian', code: 'uk', nativeName: 'Українська', flag: '🇺🇦', speechLocale: 'uk-UA', rtl: false }
+];
+
+const POPULAR_PAIRS: Array<[string, string]> = [
+  ['English', 'Spanish'],
+  ['English', 'French'],
+  ['English', 'German'],
+  ['English', 'Chinese'],
+  ['Spanish', 'English'],
+  ['French', 'English'],
+  ['German', 'English'],
+  ['Chinese', 'English']
+];
+
+// Lookup keys: lowercase name, native name and code all point at the same entry
+const registry = new Map<string, LanguageInfo>();
+
+function index(info: LanguageInfo) {
+  [info.name, info.nativeName, info.code].forEach(key => {
+    if (key) registry.set(key.toLowerCase(), info);
+  });
+}
+
+BUNDLED_LANGUAGES.forEach(index);
+
+// Speech locale from a Cosmic entry: a code with a region ("pt-BR"), a code
+// plus a two-letter region field, or the bundled default for the language
+function speechLocaleFor(code: string, region: string | undefined, fallback?: string): string {
+  if (code.includes('-')) return code;
+  if (region && /^[a-z]{2}$/i.test(region)) return `${code}-${region.toUpperCase()}`;
+  return fallback || code;
+}
+
+// Merge languages loaded from Cosmic into the registry
+export function registerLanguages(languages: Language[]): void {
+  languages.forEach(language => {
+    const code = language.metadata.code || '';
+    const bundled = registry.get(language.title.toLowerCase()) || registry.get(code.split('-')[0]?.toLowerCase() || '');
+
+    index({
+      name: language.title,
+      code: code || bundled?.code || '',
+      nativeName: language.metadata.native_name || bundled?.nativeName || language.title,
+      flag: language.metadata.flag_emoji || bundled?.flag || DEFAULT_FLAG,
+      speechLocale: code ? speechLocaleFor(code, language.metadata.region, bundled?.speechLocale) : bundled?.speechLocale || '',
+      rtl: language.metadata.rtl ?? bundled?.rtl ?? false
+    });
+  });
+}
+
+// Look a language up by English name, native name or BCP-47 code
+export function getLanguageInfo(language: string): LanguageInfo | undefined {
+  const key = language.trim().toLowerCase();
+  return registry.get(key) || registry.get(key.split('-')[0] || '');
+}
+
+// BCP-47 tag for a language name; "und" when unknown
+export function getLanguageTag(language: string): string {
+  return getLanguageInfo(language)?.code || 'und';
+}
+
+// Locale for speech APIs; empty when unknown so the browser picks its default
+// rather than silently recognising the wrong language
+export function getSpeechLocale(language: string): string {
+  return getLanguageInfo(language)?.speechLocale || '';
+}
+
+// Get language flag emoji
+export function getLanguageFlag(language: string): string {
+  return getLanguageInfo(language)?.flag || DEFAULT_FLAG;
+}
+
+export function getTextDirection(language: string): 'ltr' | 'rtl' {
+  return getLanguageInfo(language)?.rtl ? 'rtl' : 'ltr';
+}
+
+// Bundled languages as Language objects, used when Cosmic has none
+export function getDefaultLanguages(): Language[] {
+  const timestamp = new Date(0).toISOString();
+
+  return BUNDLED_LANGUAGES.map(info => ({
+    id: info.code,
+    slug: info.name.toLowerCase(),
+    title: info.name,
+    type: 'languages',
+    created_at: timestamp,
+    modified_at: timestamp,
+    metadata: {
+      code: info.code,
+      native_name: info.nativeName,
+      flag_emoji: info.flag,
+      rtl: info.rtl,
+      voice_supported: true,
+      translation_quality: 'high'
+    }
+  }));
+}
+
+// Get popular language pairs for quick access
+export function getPopularLanguagePairs(): Array<{
+  source: string;
+  target: string;
+  label: string;
+}> {
+  return POPULAR_PAIRS.map(([source, target]) => ({
+    source,
+    target,
+    label: `${getLanguageTag(source).toUpperCase()} → ${getLanguageTag(target).toUpperCase()}`
+  }));
+}
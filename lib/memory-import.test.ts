@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { detectMemoryFormat, parseMemoryFile } from '@/lib/memory-import';
+
+vi.mock('@/lib/cosmic', () => ({
+  getLanguages: vi.fn(async () => []),
+  getMemoryUnits: vi.fn(async () => []),
+  getTranslationHistory: vi.fn(async () => []),
+  saveMemoryUnit: vi.fn()
+}));
+
+describe('detectMemoryFormat', () => {
+  it('goes by extension, then by root element', () => {
+    expect(detectMemoryFormat('memory.TMX', '')).toBe('tmx');
+    expect(detectMemoryFormat('project.sdlxliff', '')).toBe('xliff');
+    expect(detectMemoryFormat('export.xml', '<?xml version="1.0"?><tmx version="1.4">')).toBe('tmx');
+    expect(detectMemoryFormat('export.xml', '<xliff version="2.0">')).toBe('xliff');
+    expect(detectMemoryFormat('notes.txt', 'hello')).toBeNull();
+  });
+});
+
+describe('parseMemoryFile', () => {
+  it('reads TMX units with one pair per target language', () => {
+    const tmx = `<tmx version="1.4">
+      <header srclang="en-US" />
+      <body>
+        <tu>
+          <tuv xml:lang="en-US"><seg>Save &amp; close</seg></tuv>
+          <tuv xml:lang="de-DE"><seg>Speichern &amp; schließen</seg></tuv>
+          <tuv xml:lang="fr-FR"><seg><![CDATA[Enregistrer & fermer]]></seg></tuv>
+        </tu>
+        <tu srclang="de">
+          <tuv lang="en"><seg>Open</seg></tuv>
+          <tuv lang="de"><seg>Öffnen</seg></tuv>
+        </tu>
+        <tu>
+          <tuv xml:lang="en-US"><seg>Orphan</seg></tuv>
+        </tu>
+      </body>
+    </tmx>`;
+
+    expect(parseMemoryFile(tmx, 'tmx')).toEqual({
+      units: [
+        { sourceCode: 'en-US', targetCode: 'de-DE', sourceText: 'Save & close', targetText: 'Speichern & schließen' },
+        { sourceCode: 'en-US', targetCode: 'fr-FR', sourceText: 'Save & close', targetText: 'Enregistrer & fermer' },
+        { sourceCode: 'de', targetCode: 'en', sourceText: 'Öffnen', targetText: 'Open' }
+      ],
+      invalid: ['No translation']
+    });
+  });
+
+  it('drops TMX inline codes but keeps wrapped text', () => {
+    const tmx = `<tmx version="1.4"><header srclang="en" /><body><tu>
+      <tuv xml:lang="en"><seg>Click <bpt i="1">&lt;b&gt;</bpt>here<ept i="1">&lt;/b&gt;</ept> <hi>now</hi><ph x="1"/></seg></tuv>
+      <tuv xml:lang="es"><seg>Haga clic <bpt i="1">&lt;b&gt;</bpt>aquí<ept i="1">&lt;/b&gt;</ept> <hi>ahora</hi></seg></tuv>
+    </tu></body></tmx>`;
+
+    expect(parseMemoryFile(tmx, 'tmx').units).toEqual([
+      { sourceCode: 'en', targetCode: 'es', sourceText: 'Click here now', targetText: 'Haga clic aquí ahora' }
+    ]);
+  });
+
+  it('reads XLIFF 1.2 trans-units, ignoring alternative translations', () => {
+    const xliff = `<xliff version="1.2">
+      <file source-language="en" target-language="it" original="ui.json">
+        <body>
+          <trans-unit id="1">
+            <source>Cancel</source>
+            <target>Annulla</target>
+            <alt-trans><target>Cancella</target></alt-trans>
+          </trans-unit>
+          <trans-unit id="2">
+            <source>Untranslated</source>
+          </trans-unit>
+        </body>
+      </file>
+    </xliff>`;
+
+    expect(parseMemoryFile(xliff, 'xliff')).toEqual({
+      units: [{ sourceCode: 'en', targetCode: 'it', sourceText: 'Cancel', targetText: 'Annulla' }],
+      invalid: ['No translation']
+    });
+  });
+
+  it('reads XLIFF 2.0 segments with the document language pair', () => {
+    const xliff = `<xliff version="2.0" srcLang="en" trgLang="ja">
+      <file id="f1">
+        <unit id="u1">
+          <segment><source>Hello</source><target>こんにちは</target></segment>
+          <segment><source>World <pc id="1">now</pc></source><target>世界<pc id="1">今</pc></target></segment>
+        </unit>
+        <unit id="u2"><notes><note>No segments</note></notes></unit>
+      </file>
+    </xliff>`;
+
+    expect(parseMemoryFile(xliff, 'xliff')).toEqual({
+      units: [
+        { sourceCode: 'en', targetCode: 'ja', sourceText: 'Hello', targetText: 'こんにちは' },
+        { sourceCode: 'en', targetCode: 'ja', sourceText: 'World now', targetText: '世界今' }
+      ],
+      invalid: ['No translation']
+    });
+  });
+});
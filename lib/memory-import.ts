@@ -0,0 +1,278 @@
+import 'server-only';
+import { getLanguages, saveMemoryUnit } from '@/lib/cosmic';
+import { decodeEntities, encodeEntities } from '@/lib/documents';
+import { getDefaultLanguages, getLanguageInfo, registerLanguages } from '@/lib/languages';
+import { hasMemoryEntry, normalizeText, rememberMemoryUnit } from '@/lib/translation-memory';
+import { generateSessionId } from '@/lib/utils';
+import type { MemoryImportJob, MemoryImportReport } from '@/types';
+
+// TMX and XLIFF import into translation memory
+//
+// Files are parsed into source/target pairs (TMX 1.x units with one pair per
+// target language; XLIFF 1.2 trans-units and XLIFF 2.0 segments), their
+// language codes are mapped to the app's languages, and pairs already
+// imported are skipped. The rest are saved as `memory-units` objects and added
+// to the shared memory, where they are reused as exact matches before the
+// model for every user. Imports run in the background and are polled by id.
+
+export type MemoryFileFormat = 'tmx' | 'xliff';
+
+export const MAX_MEMORY_FILE_SIZE = 20 * 1024 * 1024;
+
+// Units saved to Cosmic at a time
+const SAVE_CONCURRENCY = 5;
+
+// Finished imports are forgotten after this long
+const JOB_TTL_MS = 24 * 60 * 60_000;
+
+// Like rooms, jobs live in this server process, kept on globalThis so every
+// route bundle sees the same table
+const globalImports = globalThis as typeof globalThis & { memoryImports?: Map<string, MemoryImportJob> };
+const jobs = globalImports.memoryImports ??= new Map<string, MemoryImportJob>();
+
+export interface ParsedUnit {
+  sourceCode: string;
+  targetCode: string;
+  sourceText: string;
+  targetText: string;
+}
+
+export interface ParsedMemoryFile {
+  units: ParsedUnit[];
+  // Reasons for units that couldn't be read, one per unit
+  invalid: string[];
+}
+
+export function detectMemoryFormat(fileName: string, content: string): MemoryFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'tmx') return 'tmx';
+  if (extension === 'xlf' || extension === 'xliff' || extension === 'sdlxliff' || extension === 'mqxliff') return 'xliff';
+
+  // Otherwise go by the root element
+  if (/<tmx[\s>]/.test(content)) return 'tmx';
+  if (/<xliff[\s>]/.test(content)) return 'xliff';
+  return null;
+}
+
+function attribute(tag: string, name: string): string {
+  return tag.match(new RegExp(`\\s${name}\\s*=\\s*(["'])(.*?)\\1`))?.[2]?.trim() || '';
+}
+
+// First <name>…</name> inside xml
+function element(xml: string, name: string): string | null {
+  return xml.match(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`))?.[1] ?? null;
+}
+
+// Every <name …>…</name> inside xml, as [attributes, content]
+function elements(xml: string, name: string): Array<[string, string]> {
+  return Array.from(xml.matchAll(new RegExp(`<${name}\\b([^>]*)>([\\s\\S]*?)</${name}>`, 'g')))
+    .map(match => [match[1] || '', match[2] || '']);
+}
+
+// Plain text of a segment. Inline codes standing for native markup (TMX
+// bpt/ept/ph/it/ut, XLIFF 1.2 bpt/ept/ph/it) are dropped with their content;
+// wrappers around text (hi, g, pc, mrk) and empty placeholders just go.
+function segmentText(xml: string): string {
+  return decodeEntities(
+    xml
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => encodeEntities(text))
+      .replace(/<(bpt|ept|ph|it|ut)\b(?:[^>]*[^/>])?>[\s\S]*?<\/\1>/g, '')
+      .replace(/<[^>]+>/g, '')
+  ).trim();
+}
+
+function parseTmx(content: string): ParsedMemoryFile {
+  const units: ParsedUnit[] = [];
+  const invalid: string[] = [];
+  const header = content.match(/<header\b[^>]*>/)?.[0] || '';
+  const headerSource = attribute(header, 'srclang');
+
+  elements(content, 'tu').forEach(([attributes, body]) => {
+    const tuvs = elements(body, 'tuv').map(([tuvAttributes, tuv]) => ({
+      // TMX 1.1 used lang, later versions xml:lang
+      code: attribute(tuvAttributes, 'xml:lang') || attribute(tuvAttributes, 'lang'),
+      text: segmentText(element(tuv, 'seg') || '')
+    }));
+
+    // The unit's source language, else the file's, else its first variant
+    const sourceCode = (attribute(attributes, 'srclang') || headerSource).toLowerCase();
+    const source = tuvs.find(tuv => tuv.code.toLowerCase() === sourceCode) || tuvs[0];
+    if (!source || tuvs.length < 2) {
+      invalid.push('No translation');
+      return;
+    }
+
+    tuvs.filter(tuv => tuv !== source).forEach(target => {
+      units.push({ sourceCode: source.code, targetCode: target.code, sourceText: source.text, targetText: target.text });
+    });
+  });
+
+  return { units, invalid };
+}
+
+function parseXliff(content: string): ParsedMemoryFile {
+  const units: ParsedUnit[] = [];
+  const invalid: string[] = [];
+  const root = content.match(/<xliff\b[^>]*>/)?.[0] || '';
+
+  const addPair = (sourceCode: string, targetCode: string, body: string) => {
+    const source = element(body, 'source');
+    const target = element(body, 'target');
+    if (source === null || target === null) {
+      invalid.push('No translation');
+      return;
+    }
+    units.push({ sourceCode, targetCode, sourceText: segmentText(source), targetText: segmentText(target) });
+  };
+
+  if (attribute(root, 'version').startsWith('2')) {
+    // XLIFF 2.0: one language pair per document, segments inside units
+    const sourceCode = attribute(root, 'srcLang');
+    const targetCode = attribute(root, 'trgLang');
+    elements(content, 'unit').forEach(([, unit]) => {
+      const segments = elements(unit, 'segment');
+      if (segments.length === 0) {
+        invalid.push('No translation');
+        return;
+      }
+      segments.forEach(([, segment]) => addPair(sourceCode, targetCode, segment));
+    });
+  } else {
+    // XLIFF 1.2: a language pair per file, alternative translations ignored
+    elements(content, 'file').forEach(([attributes, file]) => {
+      const sourceCode = attribute(attributes, 'source-language');
+      const targetCode = attribute(attributes, 'target-language');
+      elements(file, 'trans-unit').forEach(([, unit]) => {
+        addPair(sourceCode, targetCode, unit.replace(/<alt-trans\b[\s\S]*?<\/alt-trans>/g, ''));
+      });
+    });
+  }
+
+  return { units, invalid };
+}
+
+// Map language codes ("en", "en-US", "pt_BR") to the names of the app's languages
+async function createLanguageResolver(): Promise<(code: string) => string | null> {
+  const fetched = await getLanguages();
+  const languages = fetched.length > 0 ? fetched : getDefaultLanguages();
+  registerLanguages(languages);
+
+  const supported = new Set(languages.map(language => language.title.toLowerCase()));
+  return code => {
+    const info = code ? getLanguageInfo(code.replace(/_/g, '-')) : undefined;
+    return info && supported.has(info.name.toLowerCase()) ? info.name : null;
+  };
+}
+
+// Source/target pairs and unreadable units in a TMX or XLIFF file
+export function parseMemoryFile(content: string, format: MemoryFileFormat): ParsedMemoryFile {
+  return format === 'tmx' ? parseTmx(content) : parseXliff(content);
+}
+
+// Register the import of a parsed file; run it with processMemoryImport
+export function createMemoryImport(
+  parsed: ParsedMemoryFile,
+  format: MemoryFileFormat,
+  fileName: string
+): MemoryImportJob {
+  const cutoff = Date.now() - JOB_TTL_MS;
+  jobs.forEach((job, id) => {
+    if (job.status !== 'processing' && Date.parse(job.createdAt) < cutoff) jobs.delete(id);
+  });
+
+  const job: MemoryImportJob = {
+    id: generateSessionId(),
+    status: 'processing',
+    report: {
+      fileName,
+      format,
+      total: parsed.units.length + parsed.invalid.length,
+      added: 0,
+      skipped: 0,
+      invalid: 0,
+      failed: 0,
+      invalidReasons: {},
+      addedByPair: {}
+    },
+    createdAt: new Date().toISOString()
+  };
+  jobs.set(job.id, job);
+
+  return job;
+}
+
+export function getMemoryImport(id: string): MemoryImportJob | null {
+  return jobs.get(id) || null;
+}
+
+// Import a parsed file's units into translation memory, counting them on the
+// job's report as it goes. Runs after the upload response has been sent.
+export async function processMemoryImport(
+  job: MemoryImportJob,
+  parsed: ParsedMemoryFile,
+  userId: string
+): Promise<void> {
+  try {
+    await importUnits(job.report, parsed, userId);
+    job.status = 'completed';
+  } catch (error) {
+    console.error('Memory import error:', error);
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : 'Translation memory import failed';
+  }
+}
+
+async function importUnits(report: MemoryImportReport, parsed: ParsedMemoryFile, userId: string): Promise<void> {
+  const resolveLanguage = await createLanguageResolver();
+
+  const markInvalid = (reason: string) => {
+    report.invalid += 1;
+    report.invalidReasons[reason] = (report.invalidReasons[reason] || 0) + 1;
+  };
+  parsed.invalid.forEach(markInvalid);
+
+  const seen = new Set<string>();
+  const toSave: Array<{ sourceText: string; translatedText: string; sourceLanguage: string; targetLanguage: string }> = [];
+
+  for (const unit of parsed.units) {
+    const sourceLanguage = resolveLanguage(unit.sourceCode);
+    const targetLanguage = resolveLanguage(unit.targetCode);
+
+    if (!sourceLanguage || !targetLanguage) {
+      markInvalid(`Unsupported language "${!sourceLanguage ? unit.sourceCode : unit.targetCode}"`);
+      continue;
+    }
+    if (sourceLanguage === targetLanguage) {
+      markInvalid('Source and target language are the same');
+      continue;
+    }
+    if (!unit.sourceText || !unit.targetText) {
+      markInvalid('Empty source or target');
+      continue;
+    }
+
+    const key = [sourceLanguage, targetLanguage, normalizeText(unit.sourceText), normalizeText(unit.targetText)].join('|');
+    if (seen.has(key) || await hasMemoryEntry(unit.sourceText, unit.targetText, sourceLanguage, targetLanguage)) {
+      report.skipped += 1;
+      continue;
+    }
+    seen.add(key);
+
+    toSave.push({ sourceText: unit.sourceText, translatedText: unit.targetText, sourceLanguage, targetLanguage });
+  }
+
+  for (let i = 0; i < toSave.length; i += SAVE_CONCURRENCY) {
+    await Promise.all(toSave.slice(i, i + SAVE_CONCURRENCY).map(async unit => {
+      try {
+        rememberMemoryUnit(await saveMemoryUnit({ ...unit, origin: report.fileName, userId }));
+
+        const pair = `${unit.sourceLanguage} → ${unit.targetLanguage}`;
+        report.added += 1;
+        report.addedByPair[pair] = (report.addedByPair[pair] || 0) + 1;
+      } catch (error) {
+        console.error('Failed to import memory unit:', error);
+        report.failed += 1;
+      }
+    }));
+  }
+}
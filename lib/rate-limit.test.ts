@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  MemoryRateLimitStore,
+  enforceRateLimit,
+  getClientIp,
+  rateLimitResponse,
+  setRateLimitStore
+} from '@/lib/rate-limit';
+import { getCurrentUserId } from '@/lib/auth';
+
+vi.mock('@/lib/auth', () => ({
+  getCurrentUserId: vi.fn(async () => null)
+}));
+
+function requestFrom(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://localhost/api/translate', { method: 'POST', headers });
+}
+
+describe('getClientIp', () => {
+  it('takes the entry appended by the trusted proxy, not the client', () => {
+    const request = requestFrom({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7' });
+
+    expect(getClientIp(request)).toBe('203.0.113.7');
+    expect(getClientIp(request, 2)).toBe('6.6.6.6');
+  });
+
+  it('falls back to X-Real-IP, and ignores both without a trusted proxy', () => {
+    const request = requestFrom({ 'x-real-ip': '198.51.100.2' });
+
+    expect(getClientIp(request)).toBe('198.51.100.2');
+    expect(getClientIp(requestFrom({ 'x-forwarded-for': '203.0.113.7' }), 0)).toBe('unknown');
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts until the counter expires', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRateLimitStore();
+
+    expect(await store.increment('key', 2, 1000)).toBe(2);
+    expect(await store.increment('key', 3, 1000)).toBe(5);
+    expect(await store.get('key')).toBe(5);
+
+    vi.advanceTimersByTime(1000);
+    expect(await store.get('key')).toBe(0);
+    expect(await store.increment('key', 1, 1000)).toBe(1);
+  });
+});
+
+describe('enforceRateLimit', () => {
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+    vi.mocked(getCurrentUserId).mockResolvedValue(null);
+    vi.useFakeTimers();
+    // Start of a window, so the previous window has fully slid out
+    vi.setSystemTime(new Date('2026-03-02T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows 30 requests a minute per IP and refuses the next without counting it', async () => {
+    const request = requestFrom({ 'x-forwarded-for': '203.0.113.7' });
+
+    for (let i = 0; i < 30; i++) {
+      expect((await enforceRateLimit(request, 10)).allowed).toBe(true);
+    }
+
+    const refused = await enforceRateLimit(request, 10);
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfter).toBe(60);
+    expect(refused.headers['X-RateLimit-Remaining']).toBe('0');
+    expect(refused.headers['X-Quota-Characters-Remaining']).toBe(String(20000 - 300));
+
+    const response = rateLimitResponse(refused);
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('60');
+
+    // Another caller has its own window
+    expect((await enforceRateLimit(requestFrom({ 'x-forwarded-for': '203.0.113.8' }), 10)).allowed).toBe(true);
+  });
+
+  it('lets the previous window slide out', async () => {
+    const request = requestFrom({ 'x-forwarded-for': '203.0.113.7' });
+    for (let i = 0; i < 30; i++) await enforceRateLimit(request, 1);
+
+    // Halfway through the next window half of the previous one still counts
+    vi.setSystemTime(new Date('2026-03-02T10:01:30.000Z'));
+    for (let i = 0; i < 15; i++) {
+      expect((await enforceRateLimit(request, 1)).allowed).toBe(true);
+    }
+    expect((await enforceRateLimit(request, 1)).allowed).toBe(false);
+  });
+
+  it('caps the characters translated per day', async () => {
+    const request = requestFrom({ 'x-forwarded-for': '203.0.113.7' });
+
+    const tooLarge = await enforceRateLimit(request, 20001);
+    expect(tooLarge.allowed).toBe(false);
+    expect(tooLarge.error).toBe('This request is larger than the daily limit of 20000 characters');
+
+    expect((await enforceRateLimit(request, 15000)).allowed).toBe(true);
+    const exceeded = await enforceRateLimit(request, 6000);
+    expect(exceeded.allowed).toBe(false);
+    expect(exceeded.error).toContain('Daily characters quota exceeded (5000 left)');
+  });
+
+  it('holds the limits for concurrent requests', async () => {
+    const request = requestFrom({ 'x-forwarded-for': '203.0.113.7' });
+
+    const burst = await Promise.all(Array.from({ length: 35 }, () => enforceRateLimit(request, 1)));
+    expect(burst.filter(result => result.allowed)).toHaveLength(30);
+
+    const other = requestFrom({ 'x-forwarded-for': '203.0.113.8' });
+    const large = await Promise.all(Array.from({ length: 4 }, () => enforceRateLimit(other, 6000)));
+    expect(large.filter(result => result.allowed)).toHaveLength(3);
+
+    // The refused ones were taken back
+    expect((await enforceRateLimit(other, 2000)).allowed).toBe(true);
+  });
+
+  it('gives signed-in users their own, larger quota', async () => {
+    vi.mocked(getCurrentUserId).mockResolvedValue('github-1');
+
+    const result = await enforceRateLimit(requestFrom({ 'x-forwarded-for': '203.0.113.7' }), 50000);
+    expect(result.allowed).toBe(true);
+    expect(result.headers['X-Quota-Characters-Remaining']).toBe('150000');
+    expect(result.headers['X-Quota-Tokens-Remaining']).toBeUndefined();
+  });
+
+  it('lets requests through when the store fails', async () => {
+    setRateLimitStore({
+      name: 'broken',
+      get: async () => { throw new Error('down'); },
+      increment: async () => { throw new Error('down'); }
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await enforceRateLimit(requestFrom(), 10)).toEqual({ allowed: true, headers: {} });
+  });
+});
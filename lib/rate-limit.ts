@@ -0,0 +1,331 @@
+import 'server-only';
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/lib/auth';
+
+// Rate limits and daily quotas for the translation routes
+//
+// Requests are limited per IP and per signed-in user over a sliding window,
+// and the characters translated are capped per day, per user or per IP for
+// anonymous callers (token usage is metered, not limited: see lib/usage.ts).
+// Counters live in a store: the in-memory one works for a single server; the
+// Redis REST store is shared between instances. Every limit is configurable
+// and 0 turns it off.
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Current value of a counter, 0 if it doesn't exist or has expired
+  get(key: string): Promise<number>;
+  // Add to a counter atomically, creating it with the given lifetime; returns
+  // the new value. A negative amount takes back an earlier increment.
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+}
+
+export type RateLimitStoreName = 'memory' | 'redis';
+
+// Counters in this process only
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    if (!counter) return 0;
+    if (counter.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return 0;
+    }
+    return counter.value;
+  }
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    this.prune(now);
+
+    const existing = this.counters.get(key);
+    const counter = existing && existing.expiresAt > now
+      ? existing
+      : { value: 0, expiresAt: now + ttlMs };
+
+    counter.value += amount;
+    this.counters.set(key, counter);
+    return counter.value;
+  }
+
+  // Drop expired counters now and then so the map doesn't grow forever
+  private prune(now: number) {
+    if (this.counters.size < 10000) return;
+    this.counters.forEach((counter, key) => {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    });
+  }
+}
+
+// Redis over its REST interface (Upstash and compatible proxies), shared by
+// every server instance without a Redis client dependency
+export class RedisRestRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+
+  constructor(private url: string, private token: string) {}
+
+  private async command<T>(commands: Array<Array<string | number>>): Promise<T[]> {
+    const response = await fetch(`${this.url.replace(/\/+$/, '')}/pipeline`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(commands)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Rate limit store request failed with status ${response.status}`);
+    }
+
+    const results: Array<{ result?: T; error?: string }> = await response.json();
+    return results.map(({ result, error }) => {
+      if (error) throw new Error(`Rate limit store error: ${error}`);
+      return result as T;
+    });
+  }
+
+  async get(key: string): Promise<number> {
+    const [value] = await this.command<string | null>([['GET', key]]);
+    return Number(value) || 0;
+  }
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    // NX keeps the first expiry, so a counter lives exactly one window
+    const [value] = await this.command<number>([
+      ['INCRBY', key, amount],
+      ['PEXPIRE', key, ttlMs, 'NX']
+    ]);
+    return Number(value) || 0;
+  }
+}
+
+let activeStore: RateLimitStore | null = null;
+
+export function createRateLimitStore(
+  name: string = process.env.RATE_LIMIT_STORE || 'memory'
+): RateLimitStore {
+  switch (name as RateLimitStoreName) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'redis': {
+      const url = process.env.RATE_LIMIT_REDIS_URL;
+      const token = process.env.RATE_LIMIT_REDIS_TOKEN;
+
+      if (!url || !token) {
+        throw new Error('RATE_LIMIT_REDIS_URL and RATE_LIMIT_REDIS_TOKEN are required for the redis rate limit store');
+      }
+
+      return new RedisRestRateLimitStore(url, token);
+    }
+    default:
+      throw new Error(`Unknown rate limit store: ${name}`);
+  }
+}
+
+// Get the configured store (created once per server process)
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) {
+    activeStore = createRateLimitStore();
+  }
+  return activeStore;
+}
+
+// Override the store, e.g. to share counters through another backend
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  activeStore = store;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const WINDOW_MS = limitFromEnv('RATE_LIMIT_WINDOW_SECONDS', 60) * 1000 || 60000;
+const REQUESTS_PER_IP = limitFromEnv('RATE_LIMIT_REQUESTS_PER_IP', 30);
+const REQUESTS_PER_USER = limitFromEnv('RATE_LIMIT_REQUESTS_PER_USER', 60);
+const DAILY_CHARACTERS_ANONYMOUS = limitFromEnv('RATE_LIMIT_DAILY_CHARACTERS_ANONYMOUS', 20000);
+const DAILY_CHARACTERS_USER = limitFromEnv('RATE_LIMIT_DAILY_CHARACTERS', 200000);
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Proxies in front of the app that append to X-Forwarded-For
+const TRUSTED_PROXIES = limitFromEnv('RATE_LIMIT_TRUSTED_PROXIES', 1);
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Why the request was refused
+  error?: string;
+  // Seconds until the request would be allowed
+  retryAfter?: number;
+  // Limit and quota headers to send with the response
+  headers: Record<string, string>;
+}
+
+// Caller's IP as reported by the proxies in front of the app. Clients can
+// send their own X-Forwarded-For, so only the entries our proxies appended
+// (the rightmost ones) are believed; with no trusted proxy the headers are
+// ignored and anonymous callers share one limit.
+export function getClientIp(request: NextRequest, trustedProxies: number = TRUSTED_PROXIES): string {
+  if (trustedProxies < 1) return 'unknown';
+
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  const forwarded = hops[Math.max(0, hops.length - trustedProxies)];
+  return forwarded || request.headers.get('x-real-ip') || 'unknown';
+}
+
+interface WindowCheck {
+  key: string;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfter?: number;
+}
+
+// Sliding window approximated from two fixed windows: the previous window's
+// count is weighted by how much of it still overlaps the sliding window. The
+// request is counted in the current window first, and checked against the
+// count the store returns, so concurrent requests can't all slip under the limit.
+async function countWindow(store: RateLimitStore, key: string, limit: number, now: number): Promise<WindowCheck> {
+  const window = Math.floor(now / WINDOW_MS);
+  const elapsed = (now % WINDOW_MS) / WINDOW_MS;
+  const [previous, counted] = await Promise.all([
+    store.get(`${key}:${window - 1}`),
+    store.increment(`${key}:${window}`, 1, WINDOW_MS * 2)
+  ]);
+
+  // Requests in this window before this one
+  const current = counted - 1;
+  const used = previous * (1 - elapsed) + current;
+  const remaining = Math.max(0, Math.floor(limit - used - 1));
+  const resetSeconds = Math.ceil((1 - elapsed) * WINDOW_MS / 1000);
+  const check: WindowCheck = { key: `${key}:${window}`, limit, remaining, resetSeconds };
+
+  if (used + 1 > limit) {
+    // Wait until enough of the previous window has slid out, or for the next
+    // window when this one alone is full
+    const waitFraction = current + 1 > limit || previous === 0
+      ? 1 - elapsed
+      : 1 - (limit - 1 - current) / previous - elapsed;
+    check.retryAfter = Math.max(1, Math.ceil(waitFraction * WINDOW_MS / 1000));
+  }
+
+  return check;
+}
+
+function secondsUntilMidnightUtc(now: number): number {
+  return Math.max(1, Math.ceil((DAY_MS - (now % DAY_MS)) / 1000));
+}
+
+// Check and count a translation request of the given size. Nothing is counted
+// when the request is refused, and requests are let through if the store fails.
+export async function enforceRateLimit(request: NextRequest, characters: number): Promise<RateLimitResult> {
+  try {
+    return await applyLimits(request, characters);
+  } catch (error) {
+    console.error('Rate limit check failed:', error);
+    return { allowed: true, headers: {} };
+  }
+}
+
+// Every counter is incremented before anything is checked and the increments
+// are taken back if the request is refused. Concurrent requests near a limit
+// may see each other's increments and be refused, but never all let through.
+async function applyLimits(request: NextRequest, characters: number): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  const now = Date.now();
+  const userId = await getCurrentUserId();
+  const ip = getClientIp(request);
+  const identity = userId ? `user:${userId}` : `ip:${ip}`;
+  const day = new Date(now).toISOString().slice(0, 10);
+
+  const windowLimits: Array<{ key: string; limit: number }> = [];
+  if (REQUESTS_PER_IP > 0) {
+    windowLimits.push({ key: `ratelimit:ip:${ip}`, limit: REQUESTS_PER_IP });
+  }
+  if (userId && REQUESTS_PER_USER > 0) {
+    windowLimits.push({ key: `ratelimit:user:${userId}`, limit: REQUESTS_PER_USER });
+  }
+
+  const quotas = [
+    { unit: 'Characters', amount: characters, limit: userId ? DAILY_CHARACTERS_USER : DAILY_CHARACTERS_ANONYMOUS }
+  ].filter(quota => quota.limit > 0);
+
+  const [windows, quotaUsage] = await Promise.all([
+    Promise.all(windowLimits.map(({ key, limit }) => countWindow(store, key, limit, now))),
+    Promise.all(quotas.map(async quota => {
+      const key = `quota:${quota.unit.toLowerCase()}:${identity}:${day}`;
+      const total = await store.increment(key, quota.amount, DAY_MS + 60000);
+      // Used before this request
+      return { ...quota, key, used: total - quota.amount };
+    }))
+  ]);
+
+  const headers: Record<string, string> = {};
+  const resetSeconds = secondsUntilMidnightUtc(now);
+
+  // The tightest request limit is the one worth reporting
+  const tightest = windows.reduce<WindowCheck | null>(
+    (min, check) => !min || check.remaining < min.remaining ? check : min,
+    null
+  );
+  if (tightest) {
+    headers['X-RateLimit-Limit'] = String(tightest.limit);
+    headers['X-RateLimit-Remaining'] = String(tightest.remaining);
+    headers['X-RateLimit-Reset'] = String(tightest.resetSeconds);
+  }
+
+  quotaUsage.forEach(quota => {
+    headers[`X-Quota-${quota.unit}-Limit`] = String(quota.limit);
+    headers[`X-Quota-${quota.unit}-Remaining`] = String(Math.max(0, quota.limit - quota.used - quota.amount));
+  });
+  if (quotaUsage.length > 0) {
+    headers['X-Quota-Reset'] = String(resetSeconds);
+  }
+
+  // A refused request isn't counted: take its increments back and report what
+  // is left without it
+  const refuse = async (error: string, retryAfter: number): Promise<RateLimitResult> => {
+    await Promise.all([
+      ...windows.map(check => store.increment(check.key, -1, WINDOW_MS * 2)),
+      ...quotaUsage.map(quota => store.increment(quota.key, -quota.amount, DAY_MS + 60000))
+    ]);
+    quotaUsage.forEach(quota => {
+      headers[`X-Quota-${quota.unit}-Remaining`] = String(Math.max(0, quota.limit - quota.used));
+    });
+    return { allowed: false, error, retryAfter, headers: { ...headers, 'Retry-After': String(retryAfter) } };
+  };
+
+  const limited = windows.filter(check => check.retryAfter !== undefined);
+  if (limited.length > 0) {
+    const retryAfter = Math.max(...limited.map(check => check.retryAfter || 1));
+    headers['X-RateLimit-Remaining'] = '0';
+    return refuse(`Too many requests. Try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`, retryAfter);
+  }
+
+  const exceeded = quotaUsage.find(quota => quota.used + quota.amount > quota.limit);
+  if (exceeded) {
+    const unit = exceeded.unit.toLowerCase();
+    return refuse(
+      exceeded.amount > exceeded.limit
+        ? `This request is larger than the daily limit of ${exceeded.limit} ${unit}`
+        : `Daily ${unit} quota exceeded (${Math.max(0, exceeded.limit - exceeded.used)} left). It resets at midnight UTC.`,
+      resetSeconds
+    );
+  }
+
+  return { allowed: true, headers };
+}
+
+// 429 response for a refused request
+export function rateLimitResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { error: result.error || 'Too many requests', retryAfter: result.retryAfter },
+    { status: 429, headers: result.headers }
+  );
+}
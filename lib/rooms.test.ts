@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_ROOMS_PER_CREATOR,
+  createRoom,
+  getRoom,
+  joinRoom,
+  leaveRoom,
+  postMessage
+} from '@/lib/rooms';
+
+vi.mock('@/lib/translation', () => ({
+  translateText: vi.fn(async (text: string, sourceLanguage: string, targetLanguage: string) => ({
+    translatedText: `${targetLanguage}: ${text}`,
+    sourceLanguage,
+    targetLanguage,
+    confidence: 1
+  }))
+}));
+
+vi.mock('@/lib/cosmic', () => ({
+  saveConversationSession: vi.fn(async () => ({ id: 'conversation-1' })),
+  saveUsageRecord: vi.fn()
+}));
+
+describe('rooms', () => {
+  it('only shows a room to its participants', async () => {
+    const room = createRoom('ip:203.0.113.1');
+    const { participant, token } = joinRoom(room.code, { name: 'Ana', language: 'Spanish' });
+    const guest = joinRoom(room.code, { name: 'Ben', language: 'English' });
+
+    expect(getRoom(room.code.toLowerCase(), token).participants).toEqual([participant, guest.participant]);
+    expect(() => getRoom(room.code, participant.id)).toThrow('Not a participant of this room');
+    expect(() => getRoom('ZZZZZZ', token)).toThrow('Room not found');
+
+    const message = await postMessage(room.code, guest.token, 'Hello');
+    expect(message.translations).toEqual({ Spanish: 'Spanish: Hello' });
+    await expect(postMessage(room.code, participant.id, 'Hola')).rejects.toThrow('Not a participant of this room');
+
+    await leaveRoom(room.code, token);
+    expect(() => getRoom(room.code, token)).toThrow('Not a participant of this room');
+  });
+
+  it('caps the rooms one creator can have open', () => {
+    for (let i = 0; i < MAX_ROOMS_PER_CREATOR; i++) {
+      createRoom('user:github-1', 'github-1');
+    }
+
+    expect(() => createRoom('user:github-1', 'github-1')).toThrow(
+      expect.objectContaining({ status: 429 })
+    );
+    expect(createRoom('user:github-2', 'github-2').code).toHaveLength(6);
+  });
+});
@@ -0,0 +1,315 @@
+import 'server-only';
+import { randomBytes } from 'crypto';
+import { translateText } from '@/lib/translation';
+import { saveConversationSession } from '@/lib/cosmic';
+import { generateSessionId } from '@/lib/utils';
+import { withUsageMetering } from '@/lib/usage';
+import type {
+  ConversationParticipant,
+  ConversationMessage,
+  ConversationRoom,
+  ConversationSession
+} from '@/types';
+
+// Shared conversation rooms
+//
+// Rooms live in this server process: a room holds its participants and
+// messages, and pushes events to every connected participant through
+// subscribers (the SSE route). Each message is translated once per language in
+// the room. A participant whose devices all disconnect leaves after a grace
+// period; when the room is closed or its last participant leaves, its messages
+// are saved as one ConversationSession. Running several server instances needs
+// a shared broker instead of this in-process one.
+//
+// Participant ids are public (everyone in the room sees them), so joining also
+// hands out a secret token, which is what reading, posting, leaving, closing
+// and listening require. Rooms are held in memory, so how many can be open is
+// capped, in total and per creator (user id, or IP for anonymous callers).
+
+export type RoomEventName = 'participant-joined' | 'participant-left' | 'message' | 'closed';
+
+export type RoomListener = (event: RoomEventName, data: unknown) => void;
+
+interface Room extends ConversationRoom {
+  // Participants who have left, kept so the saved session can name them
+  departed: ConversationParticipant[];
+  // Event listeners per participant id (one per open connection)
+  listeners: Map<string, Set<RoomListener>>;
+  // Participant id per secret token
+  tokens: Map<string, string>;
+  lastActivity: number;
+  // Signed-in user who created the room; the saved conversation is theirs
+  ownerId?: string;
+  // User or IP that created the room, for the per-creator cap
+  creator: string;
+}
+
+export const MAX_ROOM_PARTICIPANTS = 6;
+export const MAX_OPEN_ROOMS = 1000;
+export const MAX_ROOMS_PER_CREATOR = 5;
+
+// Rooms with no activity for this long are dropped without saving
+const ROOM_IDLE_TTL_MS = 4 * 60 * 60_000;
+
+// How long a disconnected participant has to reconnect before leaving
+const DISCONNECT_GRACE_MS = 30_000;
+
+// No 0/O or 1/I, so codes survive being read aloud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+const COLORS = ['blue', 'green', 'purple', 'orange', 'pink', 'teal'];
+
+// Kept on globalThis so every route bundle (and dev reloads) share one table
+const globalRooms = globalThis as typeof globalThis & { conversationRooms?: Map<string, Room> };
+const rooms = globalRooms.conversationRooms ??= new Map<string, Room>();
+
+export class RoomError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RoomError';
+  }
+}
+
+function generateCode(): string {
+  let code = '';
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () =>
+      CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+    ).join('');
+  } while (rooms.has(code));
+  return code;
+}
+
+function sweepIdleRooms() {
+  const cutoff = Date.now() - ROOM_IDLE_TTL_MS;
+  rooms.forEach((room, code) => {
+    if (room.lastActivity < cutoff) rooms.delete(code);
+  });
+}
+
+function requireRoom(code: string): Room {
+  const room = rooms.get(code.toUpperCase());
+  if (!room) {
+    throw new RoomError('Room not found', 404);
+  }
+  return room;
+}
+
+function requireParticipant(room: Room, token: string): ConversationParticipant {
+  const participantId = room.tokens.get(token);
+  const participant = participantId ? room.participants.find(p => p.id === participantId) : undefined;
+  if (!participant) {
+    throw new RoomError('Not a participant of this room', 403);
+  }
+  return participant;
+}
+
+function broadcast(room: Room, event: RoomEventName, data: unknown) {
+  room.lastActivity = Date.now();
+  room.listeners.forEach(listeners => listeners.forEach(listener => listener(event, data)));
+}
+
+// What clients get to see of a room
+export function toSnapshot(room: ConversationRoom): ConversationRoom {
+  return {
+    code: room.code,
+    participants: room.participants,
+    messages: room.messages,
+    createdAt: room.createdAt
+  };
+}
+
+// Open a room; creator identifies who asked for it, for the per-creator cap
+export function createRoom(creator: string, ownerId?: string): ConversationRoom {
+  sweepIdleRooms();
+
+  if (rooms.size >= MAX_OPEN_ROOMS) {
+    throw new RoomError('Too many rooms are open right now. Try again later.', 503);
+  }
+
+  let openByCreator = 0;
+  rooms.forEach(room => {
+    if (room.creator === creator) openByCreator++;
+  });
+  if (openByCreator >= MAX_ROOMS_PER_CREATOR) {
+    throw new RoomError(`You can have at most ${MAX_ROOMS_PER_CREATOR} rooms open at once`, 429);
+  }
+
+  const room: Room = {
+    code: generateCode(),
+    participants: [],
+    messages: [],
+    createdAt: new Date().toISOString(),
+    departed: [],
+    listeners: new Map(),
+    tokens: new Map(),
+    lastActivity: Date.now(),
+    ownerId,
+    creator
+  };
+  rooms.set(room.code, room);
+
+  return toSnapshot(room);
+}
+
+// The room as the participant holding this token sees it
+export function getRoom(code: string, token: string): ConversationRoom {
+  const room = requireRoom(code);
+  requireParticipant(room, token);
+  return toSnapshot(room);
+}
+
+// Join a room; the token returned is the participant's credential
+export function joinRoom(
+  code: string,
+  data: { name: string; language: string; voice?: string }
+): { participant: ConversationParticipant; token: string } {
+  const room = requireRoom(code);
+
+  if (room.participants.length >= MAX_ROOM_PARTICIPANTS) {
+    throw new RoomError(`Rooms are limited to ${MAX_ROOM_PARTICIPANTS} participants`, 409);
+  }
+
+  const usedColors = new Set(room.participants.map(p => p.color));
+  const participant: ConversationParticipant = {
+    id: generateSessionId(),
+    name: data.name,
+    language: data.language,
+    color: COLORS.find(color => !usedColors.has(color)) || 'blue',
+    voice: data.voice
+  };
+
+  const token = randomBytes(24).toString('hex');
+
+  room.participants.push(participant);
+  room.tokens.set(token, participant.id);
+  broadcast(room, 'participant-joined', participant);
+
+  return { participant, token };
+}
+
+// Leave the room; the last one out closes it
+export async function leaveRoom(code: string, token: string): Promise<ConversationSession | null> {
+  const room = requireRoom(code);
+  return removeParticipant(room, requireParticipant(room, token));
+}
+
+async function removeParticipant(room: Room, participant: ConversationParticipant): Promise<ConversationSession | null> {
+  room.participants = room.participants.filter(p => p.id !== participant.id);
+  room.departed.push(participant);
+  room.listeners.delete(participant.id);
+  room.tokens.forEach((participantId, token) => {
+    if (participantId === participant.id) room.tokens.delete(token);
+  });
+  broadcast(room, 'participant-left', { participantId: participant.id });
+
+  return room.participants.length === 0 ? finishRoom(room, participant.id) : null;
+}
+
+// Translate a message into every other language in the room and deliver it
+export async function postMessage(
+  code: string,
+  token: string,
+  text: string
+): Promise<ConversationMessage> {
+  const room = requireRoom(code);
+  const sender = requireParticipant(room, token);
+
+  const targetLanguages = Array.from(new Set(
+    room.participants.map(p => p.language).filter(language => language !== sender.language)
+  ));
+
+  // Usage is billed to the account that opened the room. Guests aren't that
+  // account, so only the shared translation memory is used.
+  const translations: Record<string, string> = {};
+  await withUsageMetering(
+    {
+      userId: room.ownerId,
+      method: 'conversation',
+      sourceLanguage: sender.language,
+      targetLanguage: targetLanguages.join(', ')
+    },
+    () => Promise.all(targetLanguages.map(async (language) => {
+      const result = await translateText(text, sender.language, language);
+      translations[language] = result.translatedText;
+    }))
+  );
+
+  const message: ConversationMessage = {
+    id: generateSessionId(),
+    text,
+    sender: sender.id,
+    language: sender.language,
+    translations,
+    timestamp: new Date().toISOString()
+  };
+
+  // The room may have closed while translating
+  if (rooms.get(room.code) === room) {
+    room.messages.push(message);
+    broadcast(room, 'message', message);
+  }
+
+  return message;
+}
+
+// Close the room for everyone and save it; null when nothing was said
+export async function closeRoom(code: string, token: string): Promise<ConversationSession | null> {
+  const room = requireRoom(code);
+  const participant = requireParticipant(room, token);
+  return finishRoom(room, participant.id);
+}
+
+async function finishRoom(room: Room, participantId: string): Promise<ConversationSession | null> {
+  rooms.delete(room.code);
+  broadcast(room, 'closed', { closedBy: participantId });
+  room.listeners.clear();
+
+  if (room.messages.length === 0) return null;
+
+  // Everyone still present, plus anyone who spoke and then left
+  const speakers = new Set(room.messages.map(message => message.sender));
+
+  try {
+    return await saveConversationSession({
+      participants: [...room.participants, ...room.departed.filter(p => speakers.has(p.id))],
+      messages: room.messages,
+      status: 'completed',
+      duration: Math.round((Date.now() - new Date(room.createdAt).getTime()) / 1000 / 60),
+      userId: room.ownerId
+    });
+  } catch (error) {
+    console.error('Failed to save room conversation:', error);
+    throw new RoomError('Room closed, but the conversation could not be saved', 502);
+  }
+}
+
+// Listen for room events; returns an unsubscribe function
+export function subscribe(code: string, token: string, listener: RoomListener): () => void {
+  const room = requireRoom(code);
+  const participant = requireParticipant(room, token);
+  const participantId = participant.id;
+
+  const listeners = room.listeners.get(participantId) || new Set<RoomListener>();
+  listeners.add(listener);
+  room.listeners.set(participantId, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
+
+    // Give a dropped connection the chance to come back before leaving
+    setTimeout(() => {
+      const stillGone = rooms.get(room.code) === room
+        && room.participants.some(p => p.id === participantId)
+        && !room.listeners.get(participantId)?.size;
+
+      if (stillGone) {
+        removeParticipant(room, participant).catch((error: unknown) => {
+          console.error('Failed to remove disconnected participant:', error);
+        });
+      }
+    }, DISCONNECT_GRACE_MS);
+  };
+}
@@ -1,15 +1,267 @@
+import { getSpeechLocale } from '@/lib/languages';
+import { transcribeAudio, synthesizeSpeech } from '@/lib/api';
+import { getVoiceSettings } from '@/lib/voice-settings';
 import type { VoiceSettings } from '@/types';
 
 // Speech recognition and synthesis utilities
 
+// Utterances being spoken across every SpeechSynthesis instance, so hands-free
+// recognition can pause rather than transcribe the app's own voice
+let activeUtterances = 0;
+const speakingListeners = new Set<(speaking: boolean) => void>();
+
+function utteranceStarted() {
+  activeUtterances += 1;
+  if (activeUtterances === 1) speakingListeners.forEach(listener => listener(true));
+}
+
+function utteranceFinished() {
+  activeUtterances = Math.max(0, activeUtterances - 1);
+  if (activeUtterances === 0) speakingListeners.forEach(listener => listener(false));
+}
+
+// Errors that won't go away by restarting recognition
+const FATAL_RECOGNITION_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture', 'language-not-supported'];
+
+// Silence after the last final result that ends an utterance
+const DEFAULT_SILENCE_MS = 1200;
+
+// Delay before listening again after speech ends, so the tail of the
+// translation isn't picked up
+const RESUME_DELAY_MS = 400;
+
+interface HandsFreeSession {
+  onSegment: (transcript: string) => void;
+  onInterim?: (transcript: string) => void;
+  onError: (error: string) => void;
+  silenceMs: number;
+  // Finalized text of the utterance in progress
+  segment: string;
+  silenceTimer?: ReturnType<typeof setTimeout>;
+  resumeTimer?: ReturnType<typeof setTimeout>;
+  paused: boolean;
+  unsubscribe: () => void;
+}
+
+export interface HandsFreeOptions {
+  onInterim?: (transcript: string) => void;
+  silenceMs?: number;
+}
+
+// Browser recognition where the Web Speech API exists, otherwise audio
+// recorded here and transcribed by /api/transcribe
+export type RecognitionEngine = 'browser' | 'server';
+
+function hasBrowserRecognition(): boolean {
+  return 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
+}
+
+function hasRecorder(): boolean {
+  return typeof MediaRecorder !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+}
+
+// Microphone level (RMS of the waveform) that counts as speech
+const SPEECH_LEVEL = 0.02;
+const LEVEL_CHECK_MS = 100;
+
+// Recordings are cut here even if the speaker never pauses
+const MAX_RECORDING_MS = 30_000;
+
+interface RecorderSession {
+  language: string;
+  continuous: boolean;
+  silenceMs: number;
+  onSegment: (transcript: string) => void;
+  onError: (error: string) => void;
+  stream: MediaStream;
+  audioContext: AudioContext;
+  analyser: AnalyserNode;
+  recorder: MediaRecorder | null;
+  paused: boolean;
+  // Uploads run one after another so segments arrive in order
+  uploads: Promise<void>;
+}
+
+// Records the microphone, cuts a segment when the speaker pauses, and
+// uploads each segment for transcription
+class RecorderRecognizer {
+  private session: RecorderSession | null = null;
+  private starting: object | null = null;
+
+  async start(
+    language: string,
+    onSegment: (transcript: string) => void,
+    onError: (error: string) => void,
+    options: { continuous: boolean; silenceMs: number; paused?: boolean }
+  ) {
+    this.stop();
+
+    const token = {};
+    this.starting = token;
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      this.starting = null;
+      onError(error instanceof Error && error.name === 'NotAllowedError' ? 'not-allowed' : 'audio-capture');
+      return;
+    }
+
+    // Stopped while waiting for microphone permission
+    if (this.starting !== token) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.starting = null;
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+
+    const session: RecorderSession = {
+      language,
+      continuous: options.continuous,
+      silenceMs: options.silenceMs,
+      onSegment,
+      onError,
+      stream,
+      audioContext,
+      analyser,
+      recorder: null,
+      paused: Boolean(options.paused),
+      uploads: Promise.resolve()
+    };
+    this.session = session;
+
+    if (!session.paused) this.record(session);
+  }
+
+  private record(session: RecorderSession) {
+    const recorder = new MediaRecorder(session.stream);
+    const chunks: Blob[] = [];
+    const samples = new Float32Array(session.analyser.fftSize);
+    const startedAt = Date.now();
+    let heardSpeech = false;
+    let lastSound = startedAt;
+
+    const monitor = setInterval(() => {
+      session.analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const sample = samples[i] || 0;
+        sum += sample * sample;
+      }
+
+      const now = Date.now();
+      if (Math.sqrt(sum / samples.length) > SPEECH_LEVEL) {
+        heardSpeech = true;
+        lastSound = now;
+      }
+
+      const pausedSpeaking = heardSpeech && now - lastSound > session.silenceMs;
+      if ((pausedSpeaking || now - startedAt > MAX_RECORDING_MS) && recorder.state === 'recording') {
+        recorder.stop();
+      }
+    }, LEVEL_CHECK_MS);
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    recorder.onstop = () => {
+      clearInterval(monitor);
+      if (session.recorder === recorder) session.recorder = null;
+
+      if (heardSpeech && chunks.length > 0) {
+        this.upload(session, new Blob(chunks, { type: recorder.mimeType }));
+      } else if (!session.continuous && this.session === session) {
+        session.onError('no-speech');
+      }
+
+      if (this.session === session && session.continuous) {
+        if (!session.paused) this.record(session);
+      } else {
+        this.release(session);
+      }
+    };
+
+    session.recorder = recorder;
+    recorder.start();
+  }
+
+  private upload(session: RecorderSession, audio: Blob) {
+    session.uploads = session.uploads.then(async () => {
+      try {
+        const { text } = await transcribeAudio(audio, session.language);
+        if (text.trim()) {
+          session.onSegment(text.trim());
+        } else if (!session.continuous) {
+          session.onError('no-speech');
+        }
+      } catch (error) {
+        session.onError(error instanceof Error ? error.message : 'Transcription failed');
+      }
+    });
+  }
+
+  private release(session: RecorderSession) {
+    if (this.session === session) this.session = null;
+    session.stream.getTracks().forEach(track => track.stop());
+    session.audioContext.close().catch(() => undefined);
+  }
+
+  // Finish the current segment without starting another
+  pause() {
+    const session = this.session;
+    if (!session || session.paused) return;
+    session.paused = true;
+    session.recorder?.stop();
+  }
+
+  resume() {
+    const session = this.session;
+    if (!session || !session.paused) return;
+    session.paused = false;
+    if (!session.recorder) this.record(session);
+  }
+
+  isActive(): boolean {
+    return this.session !== null || this.starting !== null;
+  }
+
+  // Stop listening; speech recorded so far is still transcribed
+  stop() {
+    this.starting = null;
+    const session = this.session;
+    if (!session) return;
+
+    this.session = null;
+    if (session.recorder) {
+      session.recorder.stop();
+    } else {
+      this.release(session);
+    }
+  }
+}
+
 export class SpeechRecognition {
   private recognition: any;
+  private recorder: RecorderRecognizer | null = null;
   private isSupported: boolean;
+  readonly engine: RecognitionEngine | null;
+  private handsFree: HandsFreeSession | null = null;
+  // Stops the recorder's hands-free pause/resume handling
+  private releaseRecorderHandsFree: (() => void) | null = null;
 
   constructor() {
-    this.isSupported = 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
-    
-    if (this.isSupported) {
+    this.engine = hasBrowserRecognition() ? 'browser' : hasRecorder() ? 'server' : null;
+    this.isSupported = this.engine !== null;
+
+    if (this.engine === 'server') {
+      this.recorder = new RecorderRecognizer();
+    } else if (this.engine === 'browser') {
       const SpeechRecognition = (window as any).webkitSpeechRecognition || (window as any).SpeechRecognition;
       this.recognition = new SpeechRecognition();
       this.setupRecognition();
@@ -33,12 +285,26 @@ export class SpeechRecognition {
     onResult: (transcript: string, isFinal: boolean) => void,
     onError: (error: string) => void
   ) {
+    if (this.recorder) {
+      this.stopListening();
+      this.recorder.start(
+        language,
+        (transcript) => onResult(transcript, true),
+        onError,
+        { continuous: false, silenceMs: DEFAULT_SILENCE_MS }
+      );
+      return;
+    }
+
     if (!this.isSupported || !this.recognition) {
       onError('Speech recognition not supported');
       return;
     }
 
-    this.recognition.lang = this.getLanguageCode(language);
+    this.stopHandsFree();
+    this.recognition.continuous = false;
+    this.recognition.lang = getSpeechLocale(language);
+    this.recognition.onend = null;
     
     this.recognition.onresult = (event: any) => {
       const transcript = event.results[0][0].transcript;
@@ -53,39 +319,200 @@ export class SpeechRecognition {
     this.recognition.start();
   }
 
-  stopListening() {
-    if (this.recognition) {
-      this.recognition.stop();
+  // Keep listening until stopped, calling onSegment with each utterance once
+  // the speaker pauses. Recognition restarts after browser timeouts and pauses
+  // while the app is speaking.
+  startHandsFree(
+    language: string,
+    onSegment: (transcript: string) => void,
+    onError: (error: string) => void,
+    options: HandsFreeOptions = {}
+  ) {
+    if (this.recorder) {
+      this.startRecorderHandsFree(this.recorder, language, onSegment, onError, options);
+      return;
+    }
+
+    if (!this.isSupported || !this.recognition) {
+      onError('Speech recognition not supported');
+      return;
     }
+
+    this.stopHandsFree();
+
+    const session: HandsFreeSession = {
+      onSegment,
+      onInterim: options.onInterim,
+      onError,
+      silenceMs: options.silenceMs ?? DEFAULT_SILENCE_MS,
+      segment: '',
+      paused: activeUtterances > 0,
+      unsubscribe: () => {}
+    };
+
+    const onSpeakingChange = (speaking: boolean) => {
+      clearTimeout(session.resumeTimer);
+      if (speaking) {
+        this.pauseHandsFree(session);
+      } else {
+        session.resumeTimer = setTimeout(() => this.resumeHandsFree(session), RESUME_DELAY_MS);
+      }
+    };
+    speakingListeners.add(onSpeakingChange);
+    session.unsubscribe = () => speakingListeners.delete(onSpeakingChange);
+    this.handsFree = session;
+
+    this.recognition.continuous = true;
+    this.recognition.lang = getSpeechLocale(language);
+
+    this.recognition.onresult = (event: any) => {
+      if (this.handsFree !== session || session.paused) return;
+
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          session.segment = `${session.segment} ${result[0].transcript}`.trim();
+        } else {
+          interim += result[0].transcript;
+        }
+      }
+
+      session.onInterim?.(`${session.segment} ${interim}`.trim());
+
+      clearTimeout(session.silenceTimer);
+      session.silenceTimer = setTimeout(() => this.flushSegment(session), session.silenceMs);
+    };
+
+    this.recognition.onerror = (event: any) => {
+      if (this.handsFree !== session) return;
+
+      if (FATAL_RECOGNITION_ERRORS.includes(event.error)) {
+        this.stopHandsFree();
+        onError(event.error);
+      }
+      // Anything else ("no-speech", "network", "aborted") ends the session,
+      // and onend starts it again
+    };
+
+    // Browsers end continuous recognition after a while, or after silence
+    this.recognition.onend = () => {
+      if (this.handsFree !== session || session.paused) return;
+      this.flushSegment(session);
+      this.restart(session);
+    };
+
+    if (!session.paused) this.recognition.start();
   }
 
-  private getLanguageCode(language: string): string {
-    const languageCodes: Record<string, string> = {
-      'English': 'en-US',
-      'Spanish': 'es-ES',
-      'French': 'fr-FR',
-      'German': 'de-DE',
-      'Italian': 'it-IT',
-      'Portuguese': 'pt-BR',
-      'Russian': 'ru-RU',
-      'Chinese': 'zh-CN',
-      'Japanese': 'ja-JP',
-      'Korean': 'ko-KR',
-      'Arabic': 'ar-SA',
-      'Hindi': 'hi-IN'
+  private startRecorderHandsFree(
+    recorder: RecorderRecognizer,
+    language: string,
+    onSegment: (transcript: string) => void,
+    onError: (error: string) => void,
+    options: HandsFreeOptions
+  ) {
+    this.stopListening();
+
+    let resumeTimer: ReturnType<typeof setTimeout> | undefined;
+    const onSpeakingChange = (speaking: boolean) => {
+      clearTimeout(resumeTimer);
+      if (speaking) {
+        recorder.pause();
+      } else {
+        resumeTimer = setTimeout(() => recorder.resume(), RESUME_DELAY_MS);
+      }
     };
-    
-    return languageCodes[language] || 'en-US';
+    speakingListeners.add(onSpeakingChange);
+
+    this.releaseRecorderHandsFree = () => {
+      speakingListeners.delete(onSpeakingChange);
+      clearTimeout(resumeTimer);
+    };
+
+    recorder.start(
+      language,
+      onSegment,
+      (error) => {
+        // Transcription failures are reported but listening carries on
+        if (['not-allowed', 'audio-capture'].includes(error)) this.stopListening();
+        onError(error);
+      },
+      { continuous: true, silenceMs: options.silenceMs ?? DEFAULT_SILENCE_MS, paused: activeUtterances > 0 }
+    );
+  }
+
+  isHandsFree(): boolean {
+    return this.handsFree !== null || this.releaseRecorderHandsFree !== null;
+  }
+
+  private flushSegment(session: HandsFreeSession) {
+    clearTimeout(session.silenceTimer);
+    const transcript = session.segment.trim();
+    session.segment = '';
+    session.onInterim?.('');
+    if (transcript) session.onSegment(transcript);
+  }
+
+  private restart(session: HandsFreeSession) {
+    setTimeout(() => {
+      if (this.handsFree !== session || session.paused) return;
+      try {
+        this.recognition.start();
+      } catch (error) {
+        // Already started
+      }
+    }, 100);
+  }
+
+  private pauseHandsFree(session: HandsFreeSession) {
+    if (session.paused) return;
+    session.paused = true;
+    this.flushSegment(session);
+    this.recognition.abort();
+  }
+
+  private resumeHandsFree(session: HandsFreeSession) {
+    if (this.handsFree !== session || !session.paused) return;
+    session.paused = false;
+    this.restart(session);
+  }
+
+  private stopHandsFree() {
+    const session = this.handsFree;
+    if (!session) return;
+
+    this.handsFree = null;
+    session.unsubscribe();
+    clearTimeout(session.resumeTimer);
+    this.flushSegment(session);
+  }
+
+  stopListening() {
+    if (this.recorder) {
+      this.releaseRecorderHandsFree?.();
+      this.releaseRecorderHandsFree = null;
+      this.recorder.stop();
+      return;
+    }
+
+    if (this.recognition) {
+      this.stopHandsFree();
+      this.recognition.stop();
+    }
   }
 }
 
+// Browser voices where the OS has one for the language, otherwise audio
+// generated by /api/speak
 export class SpeechSynthesis {
   private synth: globalThis.SpeechSynthesis | null;
   private isSupported: boolean;
+  private audio: HTMLAudioElement | null = null;
 
   constructor() {
-    this.isSupported = 'speechSynthesis' in window;
-    this.synth = this.isSupported ? window.speechSynthesis : null;
+    this.synth = 'speechSynthesis' in window ? window.speechSynthesis : null;
+    this.isSupported = this.synth !== null || typeof Audio !== 'undefined';
   }
 
   isSupported_(): boolean {
@@ -96,58 +523,101 @@ export class SpeechSynthesis {
     if (this.synth) {
       this.synth.cancel();
     }
+    // Pausing resolves the pending speak() through onpause
+    this.audio?.pause();
   }
 
-  getLanguageCode(language: string = 'English'): string {
-    const languageCodes: Record<string, string> = {
-      'English': 'en-US',
-      'Spanish': 'es-ES',
-      'French': 'fr-FR',
-      'German': 'de-DE',
-      'Italian': 'it-IT',
-      'Portuguese': 'pt-BR',
-      'Russian': 'ru-RU',
-      'Chinese': 'zh-CN',
-      'Japanese': 'ja-JP',
-      'Korean': 'ko-KR',
-      'Arabic': 'ar-SA',
-      'Hindi': 'hi-IN'
-    };
-    
-    return languageCodes[language] || 'en-US';
-  }
-
+  // Speak with the user's voice preferences unless settings are given
   speak(
     text: string,
     language: string,
-    settings: VoiceSettings = { speed: 1, pitch: 1, volume: 1 }
+    settings: VoiceSettings = getVoiceSettings(language)
   ): Promise<void> {
+    if (!this.synth || this.getVoices(language).length === 0) {
+      return this.speakFromServer(text, language, settings);
+    }
+
     return new Promise((resolve, reject) => {
-      if (!this.isSupported || !this.synth) {
+      if (!this.synth) {
         reject(new Error('Speech synthesis not supported'));
         return;
       }
 
       const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = this.getLanguageCode(language);
+      utterance.lang = getSpeechLocale(language);
+      if (settings.voice) {
+        const voice = this.synth.getVoices().find(v => v.name === settings.voice);
+        if (voice) utterance.voice = voice;
+      }
       utterance.rate = settings.speed;
       utterance.pitch = settings.pitch;
       utterance.volume = settings.volume;
 
-      utterance.onend = () => resolve();
-      utterance.onerror = (event) => reject(new Error(`Speech synthesis error: ${event.error || 'Unknown error'}`));
+      let finished = false;
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        utteranceFinished();
+      };
 
+      utterance.onend = () => {
+        finish();
+        resolve();
+      };
+      utterance.onerror = (event) => {
+        finish();
+        reject(new Error(`Speech synthesis error: ${event.error || 'Unknown error'}`));
+      };
+
+      utteranceStarted();
       this.synth.speak(utterance);
     });
   }
 
+  private async speakFromServer(text: string, language: string, settings: VoiceSettings): Promise<void> {
+    if (typeof Audio === 'undefined') {
+      throw new Error('Speech synthesis not supported');
+    }
+
+    // Pitch has no server equivalent; speed is rendered into the audio
+    const { blob } = await synthesizeSpeech({ text, language, speed: settings.speed });
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    audio.volume = settings.volume;
+
+    this.audio?.pause();
+    this.audio = audio;
+    utteranceStarted();
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        audio.onended = () => resolve();
+        audio.onpause = () => resolve();
+        audio.onerror = () => reject(new Error('Speech synthesis error: audio playback failed'));
+        audio.play().catch(reject);
+      });
+    } finally {
+      utteranceFinished();
+      URL.revokeObjectURL(url);
+      if (this.audio === audio) this.audio = null;
+    }
+  }
+
+  // Browsers load voices asynchronously; returns an unsubscribe function
+  onVoicesChanged(callback: () => void): () => void {
+    if (!this.isSupported || !this.synth) return () => {};
+
+    this.synth.addEventListener('voiceschanged', callback);
+    return () => this.synth?.removeEventListener('voiceschanged', callback);
+  }
+
   getVoices(language?: string): SpeechSynthesisVoice[] {
     if (!this.isSupported || !this.synth) return [];
 
     const voices = this.synth.getVoices();
     
     if (language) {
-      const langCode = this.getLanguageCode(language);
+      const langCode = getSpeechLocale(language);
       // Fix: Properly handle the case where split might return undefined
       const langPrefix = langCode.split('-')[0];
       if (langPrefix) {
@@ -162,7 +632,7 @@ export class SpeechSynthesis {
 // Utility function to check if speech features are supported
 export function getSpeechSupport() {
   return {
-    recognition: 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window,
-    synthesis: 'speechSynthesis' in window
+    recognition: hasBrowserRecognition() || hasRecorder(),
+    synthesis: 'speechSynthesis' in window || typeof Audio !== 'undefined'
   };
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseSubtitles, serializeSubtitles, translateSubtitles, wrapCueText } from '@/lib/subtitles';
+import { translateSegments } from '@/lib/translation';
+
+vi.mock('@/lib/translation', () => ({
+  translateSegments: vi.fn()
+}));
+
+const SRT = [
+  '1',
+  '00:00:01,000 --> 00:00:03,000',
+  '<i>Hello there,</i>',
+  '',
+  '2',
+  '00:00:04,000 --> 00:00:06,000',
+  '- Who is it?',
+  '- It is me.',
+  ''
+].join('\n');
+
+const VTT = [
+  'WEBVTT',
+  '',
+  'NOTE A comment',
+  '',
+  'intro',
+  '00:00:01.000 --> 00:00:03.000 align:start',
+  'Hello there',
+  ''
+].join('\n');
+
+describe('parseSubtitles', () => {
+  it('splits SRT files into cues', () => {
+    const file = parseSubtitles(SRT, 'srt');
+
+    expect(file.lineEnding).toBe('\n');
+    expect(file.blocks).toEqual([
+      { kind: 'cue', header: ['1'], timing: '00:00:01,000 --> 00:00:03,000', lines: ['<i>Hello there,</i>'] },
+      { kind: 'cue', header: ['2'], timing: '00:00:04,000 --> 00:00:06,000', lines: ['- Who is it?', '- It is me.'] }
+    ]);
+  });
+
+  it('keeps WebVTT headers and notes as raw blocks', () => {
+    const file = parseSubtitles(VTT, 'vtt');
+
+    expect(file.blocks[0]).toEqual({ kind: 'raw', lines: ['WEBVTT'] });
+    expect(file.blocks[1]).toEqual({ kind: 'raw', lines: ['NOTE A comment'] });
+    expect(file.blocks[2]).toEqual({
+      kind: 'cue',
+      header: ['intro'],
+      timing: '00:00:01.000 --> 00:00:03.000 align:start',
+      lines: ['Hello there']
+    });
+  });
+
+  it('round-trips through serializeSubtitles, including CRLF line endings', () => {
+    expect(serializeSubtitles(parseSubtitles(SRT, 'srt'))).toBe(SRT);
+
+    const crlf = `\uFEFF${VTT.replace(/\n/g, '\r\n')}`;
+    expect(serializeSubtitles(parseSubtitles(crlf, 'vtt'))).toBe(VTT.replace(/\n/g, '\r\n'));
+  });
+});
+
+describe('wrapCueText', () => {
+  it('wraps on word boundaries, ignoring tags in the length', () => {
+    expect(wrapCueText('one two three four', 9)).toEqual(['one two', 'three', 'four']);
+    expect(wrapCueText('<i>one two</i>', 7)).toEqual(['<i>one two</i>']);
+  });
+});
+
+describe('translateSubtitles', () => {
+  it('keeps cue line breaks and outer tags', async () => {
+    vi.mocked(translateSegments).mockResolvedValueOnce(['Hola,', '- ¿Quién es?\n- Soy yo.']);
+
+    const translated = await translateSubtitles(parseSubtitles(SRT, 'srt'), 'English', 'Spanish');
+
+    expect(vi.mocked(translateSegments).mock.calls[0]?.[0]).toEqual(['Hello there,', '- Who is it?\n- It is me.']);
+    expect(translated.blocks.map(block => block.lines)).toEqual([
+      ['<i>Hola,</i>'],
+      ['- ¿Quién es?', '- Soy yo.']
+    ]);
+  });
+
+  it('re-wraps when a maximum line length is set', async () => {
+    vi.mocked(translateSegments).mockResolvedValueOnce(['Hola,', '- ¿Quién es?\n- Soy yo.']);
+
+    const translated = await translateSubtitles(parseSubtitles(SRT, 'srt'), 'English', 'Spanish', { maxCharsPerLine: 20 });
+
+    expect(translated.blocks[1]?.lines).toEqual(['- ¿Quién es? - Soy', 'yo.']);
+  });
+});
@@ -0,0 +1,202 @@
+import 'server-only';
+import { translateSegments } from '@/lib/translation';
+
+// Subtitle (SRT / WebVTT) translation
+//
+// Files are split into blocks. Cue blocks keep their index/identifier line and
+// timing line byte for byte; only the cue text is translated. Everything else
+// (the WEBVTT header, NOTE, STYLE and REGION blocks) passes through untouched.
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  kind: 'cue';
+  // Lines before the timing line: the SRT index or the WebVTT identifier
+  header: string[];
+  timing: string;
+  lines: string[];
+}
+
+export interface SubtitleRawBlock {
+  kind: 'raw';
+  lines: string[];
+}
+
+export type SubtitleBlock = SubtitleCue | SubtitleRawBlock;
+
+export interface SubtitleFile {
+  format: SubtitleFormat;
+  blocks: SubtitleBlock[];
+  lineEnding: '\n' | '\r\n';
+}
+
+export interface SubtitleTranslationOptions {
+  // Re-wrap translated cue text to at most this many characters per line
+  maxCharsPerLine?: number;
+  // Whose translation memory to consult besides the shared one
+  userId?: string | null;
+}
+
+export const MAX_SUBTITLE_SIZE = 2 * 1024 * 1024;
+
+// Cues translated together in one request
+const CUES_PER_BATCH = 10;
+
+const MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8'
+};
+
+// Formatting tags that open or close a cue, e.g. "{\an8}<i>" ... "</i>"
+const LEADING_TAGS = /^((?:\{\\[^}]*\}|<[^/>][^>]*>)+)/;
+const TRAILING_TAGS = /((?:<\/[^>]+>)+)$/;
+
+export function detectSubtitleFormat(fileName: string): SubtitleFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'srt') return 'srt';
+  if (extension === 'vtt') return 'vtt';
+  return null;
+}
+
+export function getSubtitleMimeType(format: SubtitleFormat): string {
+  return MIME_TYPES[format];
+}
+
+export function parseSubtitles(content: string, format: SubtitleFormat): SubtitleFile {
+  const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+
+  const blocks: SubtitleBlock[] = normalized.split(/\n[ \t]*\n+/).map(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+
+    if (timingIndex === -1) {
+      return { kind: 'raw', lines };
+    }
+
+    return {
+      kind: 'cue',
+      header: lines.slice(0, timingIndex),
+      timing: lines[timingIndex] || '',
+      lines: lines.slice(timingIndex + 1)
+    };
+  });
+
+  return { format, blocks, lineEnding };
+}
+
+export function serializeSubtitles(file: SubtitleFile): string {
+  const content = file.blocks
+    .map(block => block.kind === 'cue'
+      ? [...block.header, block.timing, ...block.lines].join('\n')
+      : block.lines.join('\n'))
+    .join('\n\n');
+
+  return `${content}\n`.replace(/\n/g, file.lineEnding);
+}
+
+// Visible length, ignoring formatting tags
+function visibleLength(text: string): number {
+  return text.replace(/\{\\[^}]*\}|<[^>]+>/g, '').length;
+}
+
+// Greedy word wrap to at most maxChars visible characters per line
+export function wrapCueText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && visibleLength(candidate) > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+// Spread text over the given number of lines of roughly equal length
+function balanceLines(text: string, lineCount: number): string[] {
+  if (lineCount <= 1) return [text];
+  return wrapCueText(text, Math.ceil(visibleLength(text) / lineCount));
+}
+
+// Split cue text into its outer formatting tags and the text to translate,
+// keeping the cue's line breaks
+function splitCueText(lines: string[]): { prefix: string; body: string; suffix: string } {
+  let body = lines.join('\n').trim();
+  const prefix = body.match(LEADING_TAGS)?.[1] || '';
+  body = body.slice(prefix.length);
+  const suffix = body.match(TRAILING_TAGS)?.[1] || '';
+  body = body.slice(0, body.length - suffix.length);
+  return { prefix, body: body.trim(), suffix };
+}
+
+// Translate all cue text, keeping indices, timings and outer styling tags
+export async function translateSubtitles(
+  file: SubtitleFile,
+  sourceLanguage: string,
+  targetLanguage: string,
+  options: SubtitleTranslationOptions = {}
+): Promise<SubtitleFile> {
+  const cues = file.blocks.filter((block): block is SubtitleCue => block.kind === 'cue');
+  const parts = cues.map(cue => splitCueText(cue.lines));
+  const translatedCues = new Map<SubtitleCue, string[]>();
+
+  for (let start = 0; start < cues.length; start += CUES_PER_BATCH) {
+    const batch = parts.slice(start, start + CUES_PER_BATCH);
+    const previous = parts[start - 1]?.body.replace(/\n/g, ' ');
+
+    const context = 'Consecutive subtitle cues from a video. Keep inline tags such as <i> or <b> unchanged, and keep the line breaks inside each cue'
+      + (previous ? `. The cue before these reads: "${previous}"` : '');
+
+    const translations = await translateSegments(
+      batch.map(part => part.body),
+      sourceLanguage,
+      targetLanguage,
+      context,
+      { userId: options.userId }
+    );
+
+    batch.forEach((part, i) => {
+      const cue = cues[start + i];
+      if (!cue) return;
+
+      if (!part.body) {
+        translatedCues.set(cue, cue.lines);
+        return;
+      }
+
+      const translatedLines = (translations[i] || '')
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+      const text = translatedLines.join(' ');
+
+      // Keep the translation's lines when they match the cue's (dialogue
+      // dashes, deliberate breaks); re-wrap only when asked or when they don't
+      const wrapped = options.maxCharsPerLine
+        ? wrapCueText(text, options.maxCharsPerLine)
+        : translatedLines.length === cue.lines.length
+          ? translatedLines
+          : balanceLines(text, cue.lines.length);
+
+      // Re-attach the outer tags around the first and last line
+      const lines = wrapped.length > 0 ? [...wrapped] : [''];
+      lines[0] = part.prefix + lines[0];
+      lines[lines.length - 1] = lines[lines.length - 1] + part.suffix;
+      translatedCues.set(cue, lines);
+    });
+  }
+
+  return {
+    ...file,
+    blocks: file.blocks.map(block =>
+      block.kind === 'cue' ? { ...block, lines: translatedCues.get(block) || block.lines } : block
+    )
+  };
+}
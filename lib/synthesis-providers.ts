@@ -0,0 +1,208 @@
+import 'server-only';
+import OpenAI from 'openai';
+
+// Text-to-speech provider abstraction
+//
+// Backs /api/speak, used where the browser has no voice for a language and
+// for audio downloads. Providers follow the OpenAI speech API; the local
+// stand-in renders a tone so the pipeline can run offline.
+
+export type SpeechFormat = 'mp3' | 'wav';
+
+export interface SynthesisRequest {
+  text: string;
+  // BCP-47 tag of the text's language
+  language: string;
+  voice?: string;
+  // Playback rate, 0.25 to 4
+  speed: number;
+  format: SpeechFormat;
+}
+
+export interface SynthesisResult {
+  audio: Buffer;
+  // Providers may answer in a different format than requested
+  format: SpeechFormat;
+  model: string;
+}
+
+export interface SynthesisProvider {
+  readonly name: string;
+  synthesize(request: SynthesisRequest): Promise<SynthesisResult>;
+}
+
+export type SynthesisProviderName = 'openai' | 'openai-compatible' | 'local';
+
+const DEFAULT_TTS_MODEL = 'tts-1';
+
+// OpenAI voices are multilingual; the language comes from the text itself
+const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] as const;
+type OpenAIVoice = typeof OPENAI_VOICES[number];
+
+function openAIVoice(voice?: string): OpenAIVoice {
+  return OPENAI_VOICES.find(name => name === voice?.toLowerCase()) || 'alloy';
+}
+
+// OpenAI text-to-speech via the official SDK
+export class OpenAISpeechProvider implements SynthesisProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(private model: string = process.env.SPEECH_MODEL || DEFAULT_TTS_MODEL) {}
+
+  // Lazy initialization to avoid build-time issues
+  private getClient(): OpenAI {
+    if (this.client) return this.client;
+
+    const apiKey = process.env.OPENAI_API_KEY;
+
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required');
+    }
+
+    this.client = new OpenAI({ apiKey });
+    return this.client;
+  }
+
+  async synthesize(request: SynthesisRequest): Promise<SynthesisResult> {
+    const response = await this.getClient().audio.speech.create({
+      model: this.model,
+      voice: openAIVoice(request.voice),
+      input: request.text,
+      speed: request.speed,
+      response_format: request.format,
+    });
+
+    return {
+      audio: Buffer.from(await response.arrayBuffer()),
+      format: request.format,
+      model: this.model
+    };
+  }
+}
+
+// Any server implementing the OpenAI /audio/speech endpoint (openedai-speech,
+// Kokoro-FastAPI, LocalAI, ...)
+export class OpenAICompatibleSpeechProvider implements SynthesisProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(
+    private baseUrl: string,
+    private model: string,
+    private defaultVoice: string,
+    private apiKey?: string
+  ) {}
+
+  async synthesize(request: SynthesisRequest): Promise<SynthesisResult> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/audio/speech`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        voice: request.voice || this.defaultVoice,
+        input: request.text,
+        speed: request.speed,
+        response_format: request.format,
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Speech request failed with status ${response.status}`);
+    }
+
+    return {
+      audio: Buffer.from(await response.arrayBuffer()),
+      format: request.format,
+      model: this.model
+    };
+  }
+}
+
+const LOCAL_SAMPLE_RATE = 8000;
+
+// Deterministic stand-in for offline development and tests: a WAV tone whose
+// length follows the text and whose pitch follows the language. Always WAV.
+export class LocalSpeechProvider implements SynthesisProvider {
+  readonly name = 'local';
+
+  async synthesize(request: SynthesisRequest): Promise<SynthesisResult> {
+    const seconds = Math.min(10, Math.max(0.5, request.text.length * 0.06)) / request.speed;
+    const pitch = 220 + Array.from(request.language).reduce((sum, char) => sum + char.charCodeAt(0), 0) % 440;
+
+    return { audio: toneWav(seconds, pitch), format: 'wav', model: 'local' };
+  }
+}
+
+// 8-bit mono PCM WAV of a sine tone
+function toneWav(seconds: number, frequency: number): Buffer {
+  const samples = Math.round(seconds * LOCAL_SAMPLE_RATE);
+  const wav = Buffer.alloc(44 + samples);
+
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + samples, 4);
+  wav.write('WAVEfmt ', 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(LOCAL_SAMPLE_RATE, 24);
+  wav.writeUInt32LE(LOCAL_SAMPLE_RATE, 28);
+  wav.writeUInt16LE(1, 32);
+  wav.writeUInt16LE(8, 34);
+  wav.write('data', 36);
+  wav.writeUInt32LE(samples, 40);
+
+  for (let i = 0; i < samples; i++) {
+    wav.writeUInt8(Math.round(128 + 40 * Math.sin(2 * Math.PI * frequency * i / LOCAL_SAMPLE_RATE)), 44 + i);
+  }
+
+  return wav;
+}
+
+let activeProvider: SynthesisProvider | null = null;
+
+// Build a provider from environment configuration
+export function createSynthesisProvider(
+  name: string = process.env.SPEECH_PROVIDER || 'openai'
+): SynthesisProvider {
+  switch (name as SynthesisProviderName) {
+    case 'openai':
+      return new OpenAISpeechProvider();
+    case 'openai-compatible': {
+      const baseUrl = process.env.SPEECH_API_BASE_URL;
+      const model = process.env.SPEECH_MODEL;
+
+      if (!baseUrl || !model) {
+        throw new Error('SPEECH_API_BASE_URL and SPEECH_MODEL are required for the openai-compatible speech provider');
+      }
+
+      return new OpenAICompatibleSpeechProvider(
+        baseUrl,
+        model,
+        process.env.SPEECH_VOICE || 'alloy',
+        process.env.SPEECH_API_KEY
+      );
+    }
+    case 'local':
+      return new LocalSpeechProvider();
+    default:
+      throw new Error(`Unknown speech provider: ${name}`);
+  }
+}
+
+// Get the configured provider (created once per server process)
+export function getSynthesisProvider(): SynthesisProvider {
+  if (!activeProvider) {
+    activeProvider = createSynthesisProvider();
+  }
+  return activeProvider;
+}
+
+// Override the provider, e.g. to inject a stand-in from a test or script
+export function setSynthesisProvider(provider: SynthesisProvider | null): void {
+  activeProvider = provider;
+}
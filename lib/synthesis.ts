@@ -0,0 +1,72 @@
+import 'server-only';
+import { createHash } from 'crypto';
+import { getSynthesisProvider } from '@/lib/synthesis-providers';
+import type { SynthesisRequest, SynthesisResult } from '@/lib/synthesis-providers';
+
+// Server-side speech synthesis
+//
+// Generated audio is cached in process, keyed by provider, text, language and
+// voice settings, so replaying or downloading a translation doesn't pay for
+// synthesis again. The least recently used audio is dropped past the size cap.
+
+export interface SpeechAudio extends SynthesisResult {
+  // Cache key, also usable as an ETag
+  key: string;
+  cached: boolean;
+}
+
+const MAX_CACHE_BYTES = (Number(process.env.SPEECH_CACHE_MAX_MB) || 50) * 1024 * 1024;
+
+const cache = new Map<string, SynthesisResult>();
+let cacheBytes = 0;
+
+function cacheKey(providerName: string, request: SynthesisRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      providerName,
+      request.text,
+      request.language.toLowerCase(),
+      request.voice || '',
+      request.speed,
+      request.format
+    ]))
+    .digest('hex');
+}
+
+function remember(key: string, result: SynthesisResult) {
+  // Larger than the whole cache: serve it but don't keep it
+  if (result.audio.length > MAX_CACHE_BYTES) return;
+
+  cache.set(key, result);
+  cacheBytes += result.audio.length;
+
+  while (cacheBytes > MAX_CACHE_BYTES) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) break;
+    cacheBytes -= cache.get(oldest)?.audio.length || 0;
+    cache.delete(oldest);
+  }
+}
+
+// Synthesize speech, reusing cached audio for identical requests
+export async function synthesizeSpeech(request: SynthesisRequest): Promise<SpeechAudio> {
+  const provider = getSynthesisProvider();
+  const key = cacheKey(provider.name, request);
+
+  const hit = cache.get(key);
+  if (hit) {
+    // Re-insert so it counts as recently used
+    cache.delete(key);
+    cache.set(key, hit);
+    return { ...hit, key, cached: true };
+  }
+
+  const result = await provider.synthesize(request);
+  remember(key, result);
+
+  return { ...result, key, cached: false };
+}
+
+export function getSpeechMimeType(format: SynthesisResult['format']): string {
+  return format === 'wav' ? 'audio/wav' : 'audio/mpeg';
+}
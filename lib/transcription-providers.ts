@@ -0,0 +1,156 @@
+import 'server-only';
+import OpenAI from 'openai';
+
+// Speech-to-text provider abstraction
+//
+// Backs /api/transcribe, which browsers without the Web Speech API use: they
+// record audio with MediaRecorder and upload it. Providers follow the Whisper
+// transcription API; the local stand-in never calls out.
+
+export interface TranscriptionRequest {
+  audio: File;
+  // ISO-639-1 code of the spoken language, when known
+  language?: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  model: string;
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export type TranscriptionProviderName = 'openai' | 'openai-compatible' | 'local';
+
+const DEFAULT_WHISPER_MODEL = 'whisper-1';
+
+// OpenAI Whisper via the official SDK
+export class WhisperProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(private model: string = process.env.TRANSCRIPTION_MODEL || DEFAULT_WHISPER_MODEL) {}
+
+  // Lazy initialization to avoid build-time issues
+  private getClient(): OpenAI {
+    if (this.client) return this.client;
+
+    const apiKey = process.env.OPENAI_API_KEY;
+
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required');
+    }
+
+    this.client = new OpenAI({ apiKey });
+    return this.client;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const transcription = await this.getClient().audio.transcriptions.create({
+      file: request.audio,
+      model: this.model,
+      language: request.language,
+    });
+
+    return { text: transcription.text.trim(), model: this.model };
+  }
+}
+
+// Any server implementing the OpenAI /audio/transcriptions endpoint
+// (faster-whisper-server, whisper.cpp server, LocalAI, ...)
+export class WhisperCompatibleProvider implements TranscriptionProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(
+    private baseUrl: string,
+    private model: string,
+    private apiKey?: string
+  ) {}
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const body = new FormData();
+    body.append('file', request.audio, request.audio.name);
+    body.append('model', this.model);
+    body.append('response_format', 'json');
+    if (request.language) {
+      body.append('language', request.language);
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+      method: 'POST',
+      headers,
+      body
+    });
+
+    if (!response.ok) {
+      throw new Error(`Transcription request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return { text: String(data.text || '').trim(), model: this.model };
+  }
+}
+
+// Deterministic stand-in for offline development and tests: the "transcript"
+// describes the upload, so callers can see what reached the server
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local';
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const language = request.language || 'und';
+    return {
+      text: `[${language}] ${request.audio.size} bytes of ${request.audio.type || 'audio'}`,
+      model: 'local'
+    };
+  }
+}
+
+let activeProvider: TranscriptionProvider | null = null;
+
+// Build a provider from environment configuration
+export function createTranscriptionProvider(
+  name: string = process.env.TRANSCRIPTION_PROVIDER || 'openai'
+): TranscriptionProvider {
+  switch (name as TranscriptionProviderName) {
+    case 'openai':
+      return new WhisperProvider();
+    case 'openai-compatible': {
+      const baseUrl = process.env.TRANSCRIPTION_API_BASE_URL;
+
+      if (!baseUrl) {
+        throw new Error('TRANSCRIPTION_API_BASE_URL is required for the openai-compatible transcription provider');
+      }
+
+      return new WhisperCompatibleProvider(
+        baseUrl,
+        process.env.TRANSCRIPTION_MODEL || DEFAULT_WHISPER_MODEL,
+        process.env.TRANSCRIPTION_API_KEY
+      );
+    }
+    case 'local':
+      return new LocalTranscriptionProvider();
+    default:
+      throw new Error(`Unknown transcription provider: ${name}`);
+  }
+}
+
+// Get the configured provider (created once per server process)
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!activeProvider) {
+    activeProvider = createTranscriptionProvider();
+  }
+  return activeProvider;
+}
+
+// Override the provider, e.g. to inject a stand-in from a test or script
+export function setTranscriptionProvider(provider: TranscriptionProvider | null): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  forgetTranslation,
+  hasMemoryEntry,
+  lookupMemory,
+  normalizeText,
+  rememberMemoryUnit,
+  rememberTranslation,
+  similarity
+} from '@/lib/translation-memory';
+import { getTranslationHistory } from '@/lib/cosmic';
+import type { MemoryUnit, Translation } from '@/types';
+
+function translation(id: string, userId: string, sourceText: string, translatedText: string, needsReview = false): Translation {
+  return {
+    id,
+    metadata: {
+      source_text: sourceText,
+      translated_text: translatedText,
+      source_language: 'English',
+      target_language: 'Spanish',
+      confidence_score: needsReview ? 0.4 : 0.9,
+      needs_review: needsReview,
+      user_id: userId
+    }
+  } as Translation;
+}
+
+function unit(sourceText: string, translatedText: string): MemoryUnit {
+  return {
+    metadata: {
+      source_text: sourceText,
+      translated_text: translatedText,
+      source_language: 'English',
+      target_language: 'Spanish'
+    }
+  } as MemoryUnit;
+}
+
+const history: Record<string, Translation[]> = {
+  alice: [
+    translation('t2', 'alice', 'Where is the station?', '¿Dónde está la estación?'),
+    translation('t1', 'alice', 'My password is hunter2', 'Mi contraseña es hunter2'),
+    translation('t3', 'alice', 'Flagged sentence', 'Frase dudosa', true)
+  ]
+};
+
+vi.mock('@/lib/cosmic', () => ({
+  getTranslationHistory: vi.fn(async (userId?: string) => (userId ? history[userId] || [] : [])),
+  getMemoryUnits: vi.fn(async () => [unit('Good morning', 'Buenos días')])
+}));
+
+describe('normalizeText and similarity', () => {
+  it('compares case- and whitespace-insensitively', () => {
+    expect(normalizeText('  Hello\n  World ')).toBe('hello world');
+    expect(similarity('kitten', 'kitten')).toBe(1);
+    expect(similarity('kitten', 'sitting')).toBeCloseTo(1 - 3 / 7);
+    expect(similarity('', '')).toBe(1);
+  });
+});
+
+describe('lookupMemory', () => {
+  it("finds a user's own translations but not other users'", async () => {
+    const own = await lookupMemory('my password is HUNTER2', 'English', 'Spanish', 'alice');
+    expect(own.exact).toMatchObject({ translatedText: 'Mi contraseña es hunter2', translationId: 't1', similarity: 1 });
+
+    const other = await lookupMemory('My password is hunter2', 'English', 'Spanish', 'bob');
+    expect(other).toEqual({ exact: null, fuzzy: [] });
+
+    const anonymous = await lookupMemory('My password is hunter2', 'English', 'Spanish');
+    expect(anonymous).toEqual({ exact: null, fuzzy: [] });
+  });
+
+  it('warms a user from a bounded window of recent history, once', async () => {
+    await lookupMemory('Where is the station?', 'English', 'Spanish', 'alice');
+
+    const aliceCalls = vi.mocked(getTranslationHistory).mock.calls.filter(([userId]) => userId === 'alice');
+    expect(aliceCalls).toEqual([['alice', { limit: 1000 }]]);
+  });
+
+  it('shares imported units with everyone', async () => {
+    const result = await lookupMemory('Good morning', 'English', 'Spanish', 'bob');
+    expect(result.exact?.translatedText).toBe('Buenos días');
+    expect(await hasMemoryEntry('good  morning', 'Buenos días', 'English', 'Spanish')).toBe(true);
+    expect(await hasMemoryEntry('Where is the station?', '¿Dónde está la estación?', 'English', 'Spanish')).toBe(false);
+  });
+
+  it('returns close matches as fuzzy matches', async () => {
+    const result = await lookupMemory('Where is the station', 'English', 'Spanish', 'alice');
+    expect(result.exact).toBeNull();
+    expect(result.fuzzy).toEqual([
+      expect.objectContaining({ translatedText: '¿Dónde está la estación?', translationId: 't2' })
+    ]);
+    expect(result.fuzzy[0]?.similarity).toBeGreaterThanOrEqual(0.85);
+  });
+
+  it('leaves out translations flagged for review', async () => {
+    expect((await lookupMemory('Flagged sentence', 'English', 'Spanish', 'alice')).exact).toBeNull();
+
+    rememberTranslation(translation('t4', 'alice', 'Another flagged one', 'Otra dudosa', true));
+    expect((await lookupMemory('Another flagged one', 'English', 'Spanish', 'alice')).exact).toBeNull();
+  });
+
+  it('keeps up with saved and deleted translations', async () => {
+    const saved = translation('t5', 'alice', 'See you tomorrow', 'Hasta mañana');
+    rememberTranslation(saved);
+    expect((await lookupMemory('See you tomorrow', 'English', 'Spanish', 'alice')).exact?.translationId).toBe('t5');
+    expect((await lookupMemory('See you tomorrow', 'English', 'Spanish', 'bob')).exact).toBeNull();
+
+    forgetTranslation(saved);
+    expect((await lookupMemory('See you tomorrow', 'English', 'Spanish', 'alice')).exact).toBeNull();
+  });
+
+  it("prefers imported units over a user's own translation", async () => {
+    rememberTranslation(translation('t6', 'alice', 'Thank you', 'Gracias a ti'));
+    rememberMemoryUnit(unit('Thank you', 'Gracias'));
+
+    expect((await lookupMemory('Thank you', 'English', 'Spanish', 'alice')).exact?.translatedText).toBe('Gracias');
+  });
+});
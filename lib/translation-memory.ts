@@ -0,0 +1,256 @@
+import 'server-only';
+import { getTranslationHistory, getMemoryUnits } from '@/lib/cosmic';
+import type { Translation, MemoryUnit, MemoryMatch } from '@/types';
+
+// Translation memory
+//
+// In-process indexes of previously saved translations, keyed by language
+// pair and normalized source text. Each user has their own scope, warmed from
+// their most recent Cosmic history (WARM_UP_LIMIT translations) on first use;
+// imported TMX/XLIFF units form the only shared scope. rememberTranslation(),
+// forgetTranslation() and rememberMemoryUnit() keep them current as
+// translations are saved and deleted.
+
+interface MemoryEntry {
+  sourceText: string;
+  translatedText: string;
+  translationId?: string;
+  confidence?: number;
+  // Imported approved translation, which model output never replaces
+  approved?: boolean;
+}
+
+export interface MemoryLookup {
+  exact: MemoryMatch | null;
+  fuzzy: MemoryMatch[];
+}
+
+export const FUZZY_MATCH_THRESHOLD = 0.85;
+const MAX_FUZZY_MATCHES = 3;
+const MAX_ENTRIES_PER_PAIR = 5000;
+// User scopes kept in memory at once; the least recently used is dropped
+const MAX_USER_SCOPES = 200;
+// Recent translations a user's scope is warmed from
+const WARM_UP_LIMIT = 1000;
+
+type MemoryScope = Map<string, Map<string, MemoryEntry>>;
+
+interface UserScope {
+  entries: MemoryScope;
+  warmUp: Promise<void>;
+}
+
+const shared: MemoryScope = new Map();
+let sharedWarmUp: Promise<void> | null = null;
+const userScopes = new Map<string, UserScope>();
+
+// Lowercase, Unicode-normalize and collapse whitespace
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function pairKey(sourceLanguage: string, targetLanguage: string): string {
+  return `${sourceLanguage.toLowerCase()}|${targetLanguage.toLowerCase()}`;
+}
+
+// Similarity in [0, 1] from Levenshtein distance over normalized text
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - (previous[b.length] ?? longest) / longest;
+}
+
+function addEntry(scope: MemoryScope, sourceLanguage: string, targetLanguage: string, entry: MemoryEntry): void {
+  const key = pairKey(sourceLanguage, targetLanguage);
+  let entries = scope.get(key);
+  if (!entries) {
+    entries = new Map();
+    scope.set(key, entries);
+  }
+
+  const normalized = normalizeText(entry.sourceText);
+  if (entries.get(normalized)?.approved && !entry.approved) return;
+
+  // Re-insert so the newest translation wins and eviction drops the oldest
+  entries.delete(normalized);
+  entries.set(normalized, entry);
+
+  if (entries.size > MAX_ENTRIES_PER_PAIR) {
+    const oldest = entries.keys().next().value;
+    if (oldest !== undefined) entries.delete(oldest);
+  }
+}
+
+function addTranslation(scope: MemoryScope, translation: Translation): void {
+  const { source_text, translated_text, source_language, target_language, confidence_score, needs_review } = translation.metadata;
+  // Translations flagged for review would otherwise come back as certain matches
+  if (needs_review || !source_text?.trim() || !translated_text?.trim()) return;
+
+  addEntry(scope, source_language, target_language, {
+    sourceText: source_text,
+    translatedText: translated_text,
+    translationId: translation.id,
+    confidence: confidence_score
+  });
+}
+
+// Add a saved translation to its owner's memory. Scopes that aren't loaded
+// pick it up from history when they are.
+export function rememberTranslation(translation: Translation): void {
+  const userId = translation.metadata.user_id;
+  const scope = userId ? userScopes.get(userId) : undefined;
+  if (scope) addTranslation(scope.entries, translation);
+}
+
+// Remove a deleted translation from its owner's memory
+export function forgetTranslation(translation: Translation): void {
+  const { source_text, source_language, target_language, user_id } = translation.metadata;
+  const entries = user_id
+    ? userScopes.get(user_id)?.entries.get(pairKey(source_language, target_language))
+    : undefined;
+  if (!entries || !source_text) return;
+
+  const normalized = normalizeText(source_text);
+  if (entries.get(normalized)?.translationId === translation.id) {
+    entries.delete(normalized);
+  }
+}
+
+// Add an imported TMX/XLIFF unit to the shared memory
+export function rememberMemoryUnit(unit: MemoryUnit): void {
+  const { source_text, translated_text, source_language, target_language } = unit.metadata;
+  if (!source_text?.trim() || !translated_text?.trim()) return;
+
+  addEntry(shared, source_language, target_language, {
+    sourceText: source_text,
+    translatedText: translated_text,
+    approved: true
+  });
+}
+
+// Load imported units from Cosmic once per server process
+function ensureSharedLoaded(): Promise<void> {
+  if (!sharedWarmUp) {
+    sharedWarmUp = getMemoryUnits()
+      .then(units => units.forEach(rememberMemoryUnit))
+      .catch(error => {
+        console.error('Translation memory warm-up failed:', error);
+      });
+  }
+  return sharedWarmUp;
+}
+
+// Load a user's saved translations from Cosmic the first time they're needed
+function ensureUserLoaded(userId: string): Promise<MemoryScope> {
+  let scope = userScopes.get(userId);
+  if (scope) {
+    // Mark as most recently used
+    userScopes.delete(userId);
+  } else {
+    const entries: MemoryScope = new Map();
+    const warmUp = getTranslationHistory(userId, { limit: WARM_UP_LIMIT })
+      .then(translations => {
+        // History is newest first; insert oldest first so newer entries win
+        for (const translation of [...translations].reverse()) {
+          addTranslation(entries, translation);
+        }
+      })
+      .catch(error => {
+        console.error('Translation memory warm-up failed:', error);
+      });
+    scope = { entries, warmUp };
+
+    if (userScopes.size >= MAX_USER_SCOPES) {
+      const oldest = userScopes.keys().next().value;
+      if (oldest !== undefined) userScopes.delete(oldest);
+    }
+  }
+  userScopes.set(userId, scope);
+
+  const { entries, warmUp } = scope;
+  return warmUp.then(() => entries);
+}
+
+function toMatch(entry: MemoryEntry, score: number): MemoryMatch {
+  return {
+    sourceText: entry.sourceText,
+    translatedText: entry.translatedText,
+    similarity: Math.round(score * 100) / 100,
+    translationId: entry.translationId
+  };
+}
+
+// Whether the shared memory already translates this source text the same way
+export async function hasMemoryEntry(
+  sourceText: string,
+  translatedText: string,
+  sourceLanguage: string,
+  targetLanguage: string
+): Promise<boolean> {
+  await ensureSharedLoaded();
+
+  const entry = shared.get(pairKey(sourceLanguage, targetLanguage))?.get(normalizeText(sourceText));
+  return Boolean(entry && normalizeText(entry.translatedText) === normalizeText(translatedText));
+}
+
+// Find an exact match and the closest fuzzy matches for a source text in the
+// shared memory and, when signed in, the user's own. Approved imported units
+// win exact matches.
+export async function lookupMemory(
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  userId?: string | null
+): Promise<MemoryLookup> {
+  const [, own] = await Promise.all([
+    ensureSharedLoaded(),
+    userId ? ensureUserLoaded(userId) : Promise.resolve(null)
+  ]);
+
+  const key = pairKey(sourceLanguage, targetLanguage);
+  const scopes = [shared.get(key), own?.get(key)]
+    .filter((entries): entries is Map<string, MemoryEntry> => Boolean(entries));
+  if (scopes.length === 0) return { exact: null, fuzzy: [] };
+
+  const normalized = normalizeText(text);
+  for (const entries of scopes) {
+    const exactEntry = entries.get(normalized);
+    if (exactEntry) {
+      return { exact: toMatch(exactEntry, 1), fuzzy: [] };
+    }
+  }
+
+  const fuzzy: MemoryMatch[] = [];
+  scopes.forEach(entries => entries.forEach((entry, candidate) => {
+    // Skip candidates whose length alone rules out reaching the threshold
+    const longest = Math.max(candidate.length, normalized.length);
+    if (Math.abs(candidate.length - normalized.length) > longest * (1 - FUZZY_MATCH_THRESHOLD)) return;
+
+    const score = similarity(normalized, candidate);
+    if (score >= FUZZY_MATCH_THRESHOLD) {
+      fuzzy.push(toMatch(entry, score));
+    }
+  }));
+
+  return {
+    exact: null,
+    fuzzy: fuzzy.sort((a, b) => b.similarity - a.similarity).slice(0, MAX_FUZZY_MATCHES)
+  };
+}
@@ -0,0 +1,345 @@
+import 'server-only';
+import OpenAI from 'openai';
+import { readSSE } from '@/lib/sse';
+import { recordUsage } from '@/lib/usage';
+
+// Translation provider abstraction
+//
+// lib/translation.ts builds the prompts; a provider only turns a completion
+// request into text, either all at once or as a stream of text deltas.
+// Requests also carry the structured task and input so providers that don't
+// run a language model (the local stand-in) can still produce a sensible answer.
+// Providers report the tokens each call used through recordUsage.
+
+export type CompletionTask = 'translate' | 'translate-segments' | 'detect' | 'alternatives';
+
+export interface CompletionRequest {
+  task: CompletionTask;
+  prompt: string;
+  text: string;
+  // Numbered segments for 'translate-segments'; the answer uses "[n] ..." markers
+  segments?: string[];
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  // Required glossary renderings, already described in the prompt
+  terms?: Array<{ source: string; target: string }>;
+  // Ask for per-token log-probabilities; providers that can't supply them ignore it
+  logprobs?: boolean;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+  // Log-probability of each generated token, when requested and available
+  logprobs?: number[];
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export type TranslationProviderName = 'openai' | 'openai-compatible' | 'local';
+
+const DEFAULT_OPENAI_MODEL = 'gpt-3.5-turbo';
+
+// OpenAI via the official SDK
+export class OpenAIProvider implements TranslationProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(private model: string = process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL) {}
+
+  // Lazy initialization to avoid build-time issues
+  private getClient(): OpenAI {
+    if (this.client) return this.client;
+
+    const apiKey = process.env.OPENAI_API_KEY;
+
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is required');
+    }
+
+    this.client = new OpenAI({ apiKey });
+    return this.client;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const completion = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      logprobs: request.logprobs || undefined,
+    });
+
+    const text = completion.choices[0]?.message?.content?.trim() || '';
+    const model = completion.model || this.model;
+    recordUsage({
+      task: request.task,
+      model,
+      prompt: request.prompt,
+      output: text,
+      promptTokens: completion.usage?.prompt_tokens,
+      completionTokens: completion.usage?.completion_tokens
+    });
+
+    return {
+      text,
+      model,
+      logprobs: completion.choices[0]?.logprobs?.content?.map(token => token.logprob)
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const stream = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let output = '';
+    let model = this.model;
+    let usage: OpenAI.CompletionUsage | undefined;
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      // The final chunk carries the usage and no choices
+      usage = chunk.usage || usage;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        output += delta;
+        yield delta;
+      }
+    }
+
+    recordUsage({
+      task: request.task,
+      model,
+      prompt: request.prompt,
+      output,
+      promptTokens: usage?.prompt_tokens,
+      completionTokens: usage?.completion_tokens
+    });
+  }
+}
+
+// Any server speaking the OpenAI chat completions protocol (vLLM, Ollama,
+// LM Studio, llama.cpp server, ...)
+export class OpenAICompatibleProvider implements TranslationProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(
+    private baseUrl: string,
+    private model: string,
+    private apiKey?: string
+  ) {}
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.logprobs && !stream ? { logprobs: true } : {}),
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        stream,
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Completion request failed with status ${response.status}`);
+    }
+
+    return response;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+
+    // Servers without log-probability support simply omit the field
+    const tokens: Array<{ logprob: number }> | undefined = data.choices?.[0]?.logprobs?.content;
+    const text: string = data.choices?.[0]?.message?.content?.trim() || '';
+    const model: string = data.model || this.model;
+
+    // Servers that don't count tokens leave usage out; it is estimated instead
+    recordUsage({
+      task: request.task,
+      model,
+      prompt: request.prompt,
+      output: text,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens
+    });
+
+    return {
+      text,
+      model,
+      logprobs: Array.isArray(tokens) ? tokens.map(token => token.logprob) : undefined
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    if (!response.body) return;
+
+    let output = '';
+    let model = this.model;
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+    for await (const event of readSSE(response.body)) {
+      if (event.data === '[DONE]') break;
+
+      const chunk = JSON.parse(event.data);
+      model = chunk.model || model;
+      usage = chunk.usage || usage;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        output += delta;
+        yield delta;
+      }
+    }
+
+    recordUsage({
+      task: request.task,
+      model,
+      prompt: request.prompt,
+      output,
+      promptTokens: usage?.prompt_tokens,
+      completionTokens: usage?.completion_tokens
+    });
+  }
+}
+
+// Deterministic stand-in for offline development and tests. It never calls
+// out: translations are the source text tagged with the target language, with
+// glossary terms substituted. Translating tagged text drops the tag instead,
+// so a back-translation returns the original.
+export class LocalProvider implements TranslationProvider {
+  readonly name = 'local';
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const text = this.respond(request);
+    recordUsage({ task: request.task, model: 'local', prompt: request.prompt, output: text });
+    return { text, model: 'local' };
+  }
+
+  // Emit the response word by word to mimic token streaming
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const text = this.respond(request);
+    const words = text.match(/\S+\s*/g) || [];
+    for (const word of words) {
+      yield word;
+    }
+    recordUsage({ task: request.task, model: 'local', prompt: request.prompt, output: text });
+  }
+
+  private respond(request: CompletionRequest): string {
+    const target = request.targetLanguage || 'Unknown';
+    const text = applyTerms(request.text, request.terms);
+
+    switch (request.task) {
+      case 'translate':
+        return LOCAL_TAG.test(text) ? text.replace(LOCAL_TAG, '') : `[${target}] ${text}`;
+      case 'translate-segments':
+        return (request.segments || [])
+          .map((segment, index) => `[${index + 1}] [${target}] ${applyTerms(segment, request.terms)}`)
+          .join('\n');
+      case 'alternatives':
+        return [
+          `[${target} alt 1] ${text}`,
+          `[${target} alt 2] ${text}`
+        ].join('\n');
+      case 'detect':
+        return JSON.stringify({ candidates: guessLanguage(request.text) });
+    }
+  }
+}
+
+const LOCAL_TAG = /^\[[^\]]+\] /;
+
+function applyTerms(text: string, terms: CompletionRequest['terms'] = []): string {
+  return terms.reduce((result, term) => result.split(term.source).join(term.target), text);
+}
+
+// Script-based guess, good enough for a stand-in. Scripts used by a single
+// language are confident; Latin script could be many languages, so it isn't.
+function guessLanguage(text: string): Array<{ code: string; name: string; confidence: number }> {
+  const scripts: Array<[RegExp, string, string]> = [
+    [/[\u3040-\u30FF]/, 'ja', 'Japanese'],
+    [/[\uAC00-\uD7AF]/, 'ko', 'Korean'],
+    [/[\u4E00-\u9FFF]/, 'zh', 'Chinese'],
+    [/[\u0400-\u04FF]/, 'ru', 'Russian'],
+    [/[\u0600-\u06FF]/, 'ar', 'Arabic'],
+    [/[\u0590-\u05FF]/, 'he', 'Hebrew'],
+    [/[\u0900-\u097F]/, 'hi', 'Hindi'],
+    [/[\u0E00-\u0E7F]/, 'th', 'Thai'],
+    [/[\u0370-\u03FF]/, 'el', 'Greek']
+  ];
+
+  for (const [pattern, code, name] of scripts) {
+    if (pattern.test(text)) return [{ code, name, confidence: 0.95 }];
+  }
+
+  return /[a-z]/i.test(text)
+    ? [
+      { code: 'en', name: 'English', confidence: 0.6 },
+      { code: 'es', name: 'Spanish', confidence: 0.2 },
+      { code: 'fr', name: 'French', confidence: 0.2 }
+    ]
+    : [];
+}
+
+let activeProvider: TranslationProvider | null = null;
+
+// Build a provider from environment configuration
+export function createTranslationProvider(
+  name: string = process.env.TRANSLATION_PROVIDER || 'openai'
+): TranslationProvider {
+  switch (name as TranslationProviderName) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'openai-compatible': {
+      const baseUrl = process.env.TRANSLATION_API_BASE_URL;
+      const model = process.env.TRANSLATION_MODEL;
+
+      if (!baseUrl || !model) {
+        throw new Error('TRANSLATION_API_BASE_URL and TRANSLATION_MODEL are required for the openai-compatible provider');
+      }
+
+      return new OpenAICompatibleProvider(baseUrl, model, process.env.TRANSLATION_API_KEY);
+    }
+    case 'local':
+      return new LocalProvider();
+    default:
+      throw new Error(`Unknown translation provider: ${name}`);
+  }
+}
+
+// Get the configured provider (created once per server process)
+export function getTranslationProvider(): TranslationProvider {
+  if (!activeProvider) {
+    activeProvider = createTranslationProvider();
+  }
+  return activeProvider;
+}
+
+// Override the provider, e.g. to inject a stand-in from a test or script
+export function setTranslationProvider(provider: TranslationProvider | null): void {
+  activeProvider = provider;
+}
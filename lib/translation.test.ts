@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { batchTranslate, streamTranslateText, translateSegments } from '@/lib/translation';
+import { LocalProvider, setTranslationProvider } from '@/lib/translation-providers';
+import type { CompletionRequest, CompletionResult } from '@/lib/translation-providers';
+
+vi.mock('@/lib/cosmic', () => ({
+  getGlossaryEntries: vi.fn(async () => []),
+  getTranslationHistory: vi.fn(async () => []),
+  getMemoryUnits: vi.fn(async () => []),
+  saveUsageRecord: vi.fn()
+}));
+
+// The local stand-in, recording requests and optionally answering packed
+// segments with a canned reply
+class RecordingProvider extends LocalProvider {
+  requests: CompletionRequest[] = [];
+
+  constructor(private segmentsAnswer?: string) {
+    super();
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.requests.push(request);
+    if (request.task === 'translate-segments' && this.segmentsAnswer !== undefined) {
+      return { text: this.segmentsAnswer, model: 'local' };
+    }
+    return super.complete(request);
+  }
+}
+
+describe('streamTranslateText', () => {
+  beforeEach(() => {
+    setTranslationProvider(new LocalProvider());
+  });
+
+  it('streams the translation and scores it by back-translation', async () => {
+    const deltas: string[] = [];
+    const result = await streamTranslateText('Good morning', 'English', 'Spanish', delta => deltas.push(delta));
+
+    expect(deltas.join('')).toBe('[Spanish] Good morning');
+    expect(result.confidence).toBe(1);
+    expect(result.confidenceDetails?.method).toBe('back-translation');
+  });
+
+  it('reports the translation as unscored without back-translation', async () => {
+    const result = await streamTranslateText('Good night', 'English', 'Spanish', () => {}, { backTranslation: false });
+
+    expect(result.confidence).toBeNull();
+    expect(result.confidenceDetails).toEqual({ method: 'unavailable', needsReview: false });
+  });
+});
+
+describe('translateSegments', () => {
+  it('retries only the segments missing from the answer', async () => {
+    const provider = new RecordingProvider('[1] uno\n[3] tres');
+    setTranslationProvider(provider);
+
+    const translated = await translateSegments(['one', 'two', 'three'], 'English', 'Spanish', undefined, { backTranslation: false });
+
+    expect(translated).toEqual(['uno', '[Spanish] two', 'tres']);
+    expect(provider.requests.filter(request => request.task === 'translate').map(request => request.text)).toEqual(['two']);
+  });
+
+  it('reads markers in any order and keeps the first of a repeat', async () => {
+    const provider = new RecordingProvider('[2] dos\n[1] uno\n[2] otra vez\n[9] extra');
+    setTranslationProvider(provider);
+
+    expect(await translateSegments(['one', 'two'], 'English', 'Spanish')).toEqual(['uno', 'dos']);
+    expect(provider.requests).toHaveLength(1);
+  });
+});
+
+describe('batchTranslate', () => {
+  it('packs short items, sends long ones alone and keeps the order', async () => {
+    const provider = new RecordingProvider();
+    setTranslationProvider(provider);
+
+    const long = 'word '.repeat(70).trim();
+    const items = [
+      ...Array.from({ length: 22 }, (_, i) => ({ id: `short-${i}`, text: `item ${i}` })),
+      { id: 'long', text: long }
+    ];
+
+    const results = await batchTranslate(items, 'English', 'Spanish', 2);
+
+    expect(results.map(result => result.id)).toEqual(items.map(item => item.id));
+    expect(results.every(result => result.success)).toBe(true);
+    expect(results[21]).toMatchObject({ translatedText: '[Spanish] item 21' });
+    expect(results[22]).toMatchObject({ translatedText: `[Spanish] ${long}` });
+
+    const packs = provider.requests.filter(request => request.task === 'translate-segments');
+    expect(packs.map(request => request.segments?.length).sort()).toEqual([2, 20]);
+    // One request for the long item: no back-translation in batches
+    expect(provider.requests.filter(request => request.task === 'translate')).toHaveLength(1);
+  });
+});
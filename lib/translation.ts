@@ -1,48 +1,127 @@
-import OpenAI from 'openai';
-import type { TranslationResponse } from '@/types';
-
-// Lazy initialization to avoid build-time issues
-function getOpenAIClient(): OpenAI {
-  const apiKey = process.env.OPENAI_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
-  }
-  
-  return new OpenAI({
-    apiKey,
-  });
+import 'server-only';
+import { getTranslationProvider } from '@/lib/translation-providers';
+import type { CompletionRequest } from '@/lib/translation-providers';
+import { lookupMemory } from '@/lib/translation-memory';
+import { getGlossaryForPair, matchGlossary, buildGlossaryInstructions, verifyGlossary } from '@/lib/glossary';
+import { scoreTranslation, MEMORY_CONFIDENCE } from '@/lib/confidence';
+import type {
+  TranslationResponse,
+  MemoryMatch,
+  GlossaryEntry,
+  BatchTranslationItem,
+  BatchTranslationResult
+} from '@/types';
+
+export interface TranslateOptions {
+  // Signed-in user whose own translation memory is consulted besides the
+  // shared one; without it only the shared memory is
+  userId?: string | null;
+  // Score with a back-translation request as well as log-probabilities
+  // (default true). Bulk callers turn it off to halve their requests.
+  backTranslation?: boolean;
 }
 
-// Translate text using OpenAI
-export async function translateText(
+// Glossary entries that apply to this text and language pair
+async function findGlossaryEntries(
   text: string,
   sourceLanguage: string,
   targetLanguage: string
+): Promise<GlossaryEntry[]> {
+  return matchGlossary(text, await getGlossaryForPair(sourceLanguage, targetLanguage));
+}
+
+function glossaryTerms(glossary: GlossaryEntry[]): CompletionRequest['terms'] {
+  return glossary.map(({ metadata }) => ({ source: metadata.source_term, target: metadata.target_term }));
+}
+
+// Build the plain translation request shared by translateText and streamTranslateText
+function buildTranslateRequest(
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  glossary: GlossaryEntry[]
+): CompletionRequest {
+  const terminology = buildGlossaryInstructions(glossary);
+
+  const prompt = `Translate the following text from ${sourceLanguage} to ${targetLanguage}. 
+    Provide only the translation, maintaining the original tone and context:
+    ${terminology ? `\n${terminology}\n` : ''}
+    "${text}"`;
+
+  return {
+    task: 'translate',
+    prompt,
+    text,
+    sourceLanguage,
+    targetLanguage,
+    terms: glossaryTerms(glossary),
+    temperature: 0.3,
+    maxTokens: 1000,
+  };
+}
+
+// Response for an exact translation memory hit
+function memoryResponse(
+  match: MemoryMatch,
+  sourceLanguage: string,
+  targetLanguage: string,
+  glossary: GlossaryEntry[]
+): TranslationResponse {
+  return {
+    translatedText: match.translatedText,
+    sourceLanguage,
+    targetLanguage,
+    confidence: MEMORY_CONFIDENCE.confidence,
+    confidenceDetails: MEMORY_CONFIDENCE.details,
+    alternatives: [],
+    source: 'memory',
+    memoryMatches: [match],
+    glossaryViolations: verifyGlossary(match.translatedText, glossary)
+  };
+}
+
+// Translate text, consulting translation memory before the configured provider
+export async function translateText(
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  options: TranslateOptions = {}
 ): Promise<TranslationResponse> {
   try {
-    const openai = getOpenAIClient();
-    
-    const prompt = `Translate the following text from ${sourceLanguage} to ${targetLanguage}. 
-    Provide only the translation, maintaining the original tone and context:
+    const glossary = await findGlossaryEntries(text, sourceLanguage, targetLanguage);
 
-    "${text}"`;
+    const memory = await lookupMemory(text, sourceLanguage, targetLanguage, options.userId);
+    if (memory.exact) {
+      return memoryResponse(memory.exact, sourceLanguage, targetLanguage, glossary);
+    }
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.3,
-      max_tokens: 1000,
+    const provider = getTranslationProvider();
+
+    const completion = await provider.complete({
+      ...buildTranslateRequest(text, sourceLanguage, targetLanguage, glossary),
+      logprobs: true
     });
 
-    const translatedText = completion.choices[0]?.message?.content?.trim() || '';
+    const translatedText = completion.text;
+    const score = await scoreTranslation({
+      sourceText: text,
+      translatedText,
+      sourceLanguage,
+      targetLanguage,
+      logprobs: completion.logprobs,
+      backTranslation: options.backTranslation
+    });
 
     return {
       translatedText,
       sourceLanguage,
       targetLanguage,
-      confidence: 0.95, // OpenAI generally has high confidence
-      alternatives: [] // Could be implemented with multiple completions
+      confidence: score.confidence,
+      confidenceDetails: score.details,
+      alternatives: [], // Could be implemented with multiple completions
+      source: 'model',
+      memoryMatches: memory.fuzzy,
+      glossaryViolations: verifyGlossary(translatedText, glossary)
     };
   } catch (error) {
     console.error('Translation error:', error);
@@ -50,26 +129,57 @@ export async function translateText(
   }
 }
 
-// Detect language of given text
-export async function detectLanguage(text: string): Promise<string> {
+// Translate text, reporting partial output through onDelta as it is generated
+export async function streamTranslateText(
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  onDelta: (delta: string) => void,
+  options: TranslateOptions = {}
+): Promise<TranslationResponse> {
   try {
-    const openai = getOpenAIClient();
-    
-    const prompt = `Detect the language of the following text and respond with only the language name in English:
+    const glossary = await findGlossaryEntries(text, sourceLanguage, targetLanguage);
 
-    "${text}"`;
+    const memory = await lookupMemory(text, sourceLanguage, targetLanguage, options.userId);
+    if (memory.exact) {
+      onDelta(memory.exact.translatedText);
+      return memoryResponse(memory.exact, sourceLanguage, targetLanguage, glossary);
+    }
+
+    const provider = getTranslationProvider();
+    let translatedText = '';
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.1,
-      max_tokens: 50,
+    for await (const delta of provider.stream(buildTranslateRequest(text, sourceLanguage, targetLanguage, glossary))) {
+      translatedText += delta;
+      onDelta(delta);
+    }
+
+    translatedText = translatedText.trim();
+
+    // Streams carry no log-probabilities, so the score rests on back-translation;
+    // without it the translation is reported as unscored
+    const score = await scoreTranslation({
+      sourceText: text,
+      translatedText,
+      sourceLanguage,
+      targetLanguage,
+      backTranslation: options.backTranslation
     });
 
-    return completion.choices[0]?.message?.content?.trim() || 'Unknown';
+    return {
+      translatedText,
+      sourceLanguage,
+      targetLanguage,
+      confidence: score.confidence,
+      confidenceDetails: score.details,
+      alternatives: [],
+      source: 'model',
+      memoryMatches: memory.fuzzy,
+      glossaryViolations: verifyGlossary(translatedText, glossary)
+    };
   } catch (error) {
-    console.error('Language detection error:', error);
-    return 'Unknown';
+    console.error('Streaming translation error:', error);
+    throw new Error('Failed to translate text');
   }
 }
 
@@ -81,48 +191,72 @@ export async function translateWithContext(
   context?: string
 ): Promise<TranslationResponse> {
   try {
-    const openai = getOpenAIClient();
+    const provider = getTranslationProvider();
+    const glossary = await findGlossaryEntries(text, sourceLanguage, targetLanguage);
+    const terminology = buildGlossaryInstructions(glossary);
     
     let prompt = `Translate the following text from ${sourceLanguage} to ${targetLanguage}. `;
     
     if (context) {
       prompt += `Context: ${context}. `;
     }
+
+    if (terminology) {
+      prompt += `${terminology}\n`;
+    }
     
     prompt += `Provide the best translation maintaining the original tone and meaning:
 
     "${text}"`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [{ role: 'user', content: prompt }],
+    const completion = await provider.complete({
+      task: 'translate',
+      prompt,
+      text,
+      sourceLanguage,
+      targetLanguage,
+      terms: glossaryTerms(glossary),
+      logprobs: true,
       temperature: 0.3,
-      max_tokens: 1000,
+      maxTokens: 1000,
     });
 
-    const translatedText = completion.choices[0]?.message?.content?.trim() || '';
+    const translatedText = completion.text;
+    const score = await scoreTranslation({
+      sourceText: text,
+      translatedText,
+      sourceLanguage,
+      targetLanguage,
+      logprobs: completion.logprobs
+    });
 
     // Get alternative translations
     const alternativesPrompt = `Provide 2-3 alternative translations of "${text}" from ${sourceLanguage} to ${targetLanguage}. 
-    List them separated by newlines, without numbering:`;
+    ${terminology ? `${terminology}\n    ` : ''}List them separated by newlines, without numbering:`;
 
-    const alternativesCompletion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [{ role: 'user', content: alternativesPrompt }],
+    const alternativesCompletion = await provider.complete({
+      task: 'alternatives',
+      prompt: alternativesPrompt,
+      text,
+      sourceLanguage,
+      targetLanguage,
+      terms: glossaryTerms(glossary),
       temperature: 0.5,
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    const alternatives = alternativesCompletion.choices[0]?.message?.content?.trim()
+    const alternatives = alternativesCompletion.text
       .split('\n')
-      .filter((alt: string) => alt.trim().length > 0) || [];
+      .filter((alt: string) => alt.trim().length > 0);
 
     return {
       translatedText,
       sourceLanguage,
       targetLanguage,
-      confidence: 0.95,
-      alternatives
+      confidence: score.confidence,
+      confidenceDetails: score.details,
+      alternatives,
+      glossaryViolations: verifyGlossary(translatedText, glossary)
     };
   } catch (error) {
     console.error('Context translation error:', error);
@@ -130,20 +264,216 @@ export async function translateWithContext(
   }
 }
 
-// Batch translate multiple texts
-export async function batchTranslate(
-  texts: string[],
+// Split a "[1] ... [2] ..." answer back into segments. Segments the answer
+// left out (or numbered outside 1..count) are undefined; a repeated marker
+// keeps its first translation.
+function parseNumberedSegments(output: string, count: number): Array<string | undefined> {
+  const parts = output.split(/^\[(\d+)\][ \t]?/m);
+  const translations: Array<string | undefined> = new Array(count).fill(undefined);
+
+  for (let i = 1; i < parts.length; i += 2) {
+    const index = Number(parts[i]) - 1;
+    if (index >= 0 && index < count && translations[index] === undefined) {
+      translations[index] = (parts[i + 1] || '').trim();
+    }
+  }
+
+  return translations;
+}
+
+// Translate consecutive segments of one text (subtitle cues, catalog rows, ...)
+// in a single request so each is translated with its neighbours in view.
+// Exact memory hits skip the provider; segments missing from the answer are
+// translated on their own, the rest are kept.
+export async function translateSegments(
+  segments: string[],
   sourceLanguage: string,
-  targetLanguage: string
+  targetLanguage: string,
+  context?: string,
+  options: TranslateOptions = {}
 ): Promise<string[]> {
   try {
-    const translations = await Promise.all(
-      texts.map((t: string) => translateText(t, sourceLanguage, targetLanguage))
+    const results = await Promise.all(segments.map(async (segment): Promise<string | null> => {
+      if (!segment.trim()) return segment;
+      const memory = await lookupMemory(segment, sourceLanguage, targetLanguage, options.userId);
+      return memory.exact ? memory.exact.translatedText : null;
+    }));
+
+    const pending = results
+      .map((result, index) => (result === null ? index : -1))
+      .filter(index => index !== -1);
+    if (pending.length === 0) return results as string[];
+
+    const pendingTexts = pending.map(index => segments[index] || '');
+    const numbered = pendingTexts.map((text, i) => `[${i + 1}] ${text}`).join('\n');
+
+    const glossary = await findGlossaryEntries(pendingTexts.join('\n'), sourceLanguage, targetLanguage);
+    const terminology = buildGlossaryInstructions(glossary);
+
+    let prompt = `Translate each numbered segment below from ${sourceLanguage} to ${targetLanguage}. `;
+
+    if (context) {
+      prompt += `Context: ${context}. `;
+    }
+
+    if (terminology) {
+      prompt += `${terminology}\n`;
+    }
+
+    prompt += `The segments are consecutive parts of one text: use the others for context, but translate each one separately.
+    Answer with the same [n] markers in the same order, one translation per marker, and nothing else:
+
+${numbered}`;
+
+    const completion = await getTranslationProvider().complete({
+      task: 'translate-segments',
+      prompt,
+      text: numbered,
+      segments: pendingTexts,
+      sourceLanguage,
+      targetLanguage,
+      terms: glossaryTerms(glossary),
+      temperature: 0.3,
+      maxTokens: Math.min(4000, Math.max(1000, numbered.length)),
+    });
+
+    const translated = parseNumberedSegments(completion.text, pendingTexts.length);
+    const missing = translated
+      .map((translation, i) => (translation === undefined ? i : -1))
+      .filter(i => i !== -1);
+
+    // One segment at a time: batchTranslate already runs several packs at once
+    const retried = await mapWithConcurrency(missing, 1, async i =>
+      (await translateText(pendingTexts[i] || '', sourceLanguage, targetLanguage, options)).translatedText
     );
-    
-    return translations.map(t => t.translatedText);
+    missing.forEach((i, k) => {
+      translated[i] = retried[k];
+    });
+
+    pending.forEach((segmentIndex, i) => {
+      results[segmentIndex] = translated[i] || '';
+    });
+
+    return results as string[];
+  } catch (error) {
+    console.error('Segment translation error:', error);
+    throw new Error('Failed to translate segments');
+  }
+}
+
+// Short segments are packed into shared requests; longer ones go on their own
+const PACKED_SEGMENT_MAX_LENGTH = 300;
+const PACK_MAX_SEGMENTS = 20;
+const PACK_MAX_LENGTH = 3000;
+
+const DEFAULT_BATCH_CONCURRENCY = Number(process.env.TRANSLATION_BATCH_CONCURRENCY) || 4;
+
+// Run fn over items with at most `limit` calls in flight
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Group item indices into packs of short segments and single long segments
+function packSegments(items: BatchTranslationItem[]): number[][] {
+  const packs: number[][] = [];
+  let current: number[] = [];
+  let currentLength = 0;
+
+  items.forEach((item, index) => {
+    if (item.text.length > PACKED_SEGMENT_MAX_LENGTH) {
+      packs.push([index]);
+      return;
+    }
+
+    if (current.length >= PACK_MAX_SEGMENTS || currentLength + item.text.length > PACK_MAX_LENGTH) {
+      packs.push(current);
+      current = [];
+      currentLength = 0;
+    }
+
+    current.push(index);
+    currentLength += item.text.length;
+  });
+
+  if (current.length > 0) packs.push(current);
+  return packs;
+}
+
+// Translate a single batch item, reporting failure instead of throwing
+async function translateBatchItem(
+  item: BatchTranslationItem,
+  sourceLanguage: string,
+  targetLanguage: string,
+  options: TranslateOptions
+): Promise<BatchTranslationResult> {
+  try {
+    const result = await translateText(item.text, sourceLanguage, targetLanguage, options);
+    return { id: item.id, success: true, translatedText: result.translatedText };
   } catch (error) {
-    console.error('Batch translation error:', error);
-    throw new Error('Failed to batch translate');
+    console.error(`Batch item ${item.id} failed:`, error);
+    return { id: item.id, success: false, error: 'Translation failed' };
   }
-}
\ No newline at end of file
+}
+
+// Batch translate independent items (catalog rows, UI strings, ...).
+// Short items share requests, at most `concurrency` requests run at once, and
+// a failing item only fails itself: results come back per item, in order.
+// Items aren't back-translated unless options.backTranslation is set.
+export async function batchTranslate(
+  items: BatchTranslationItem[],
+  sourceLanguage: string,
+  targetLanguage: string,
+  concurrency: number = DEFAULT_BATCH_CONCURRENCY,
+  options: TranslateOptions = {}
+): Promise<BatchTranslationResult[]> {
+  const results: BatchTranslationResult[] = new Array(items.length);
+  const packs = packSegments(items);
+  const itemOptions: TranslateOptions = { ...options, backTranslation: options.backTranslation ?? false };
+
+  await mapWithConcurrency(packs, Math.max(1, concurrency), async (pack) => {
+    const packItems = pack.map(index => items[index] as BatchTranslationItem);
+
+    if (packItems.length === 1) {
+      results[pack[0] as number] = await translateBatchItem(packItems[0] as BatchTranslationItem, sourceLanguage, targetLanguage, itemOptions);
+      return;
+    }
+
+    try {
+      const translations = await translateSegments(
+        packItems.map(item => item.text),
+        sourceLanguage,
+        targetLanguage,
+        'Independent entries from a list, such as product catalog rows',
+        itemOptions
+      );
+
+      pack.forEach((itemIndex, i) => {
+        const item = packItems[i] as BatchTranslationItem;
+        results[itemIndex] = { id: item.id, success: true, translatedText: translations[i] || '' };
+      });
+    } catch (error) {
+      // Retry the pack item by item so one bad segment doesn't sink the rest
+      console.error('Packed batch translation failed, retrying items individually:', error);
+      for (let i = 0; i < pack.length; i++) {
+        results[pack[i] as number] = await translateBatchItem(packItems[i] as BatchTranslationItem, sourceLanguage, targetLanguage, itemOptions);
+      }
+    }
+  });
+
+  return results;
+}
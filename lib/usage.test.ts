@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { recordUsage, summarizeUsage, UsageMeter, withUsageMetering } from '@/lib/usage';
+import { saveUsageRecord } from '@/lib/cosmic';
+import type { UsageMethod, UsageRecord } from '@/types';
+
+vi.mock('@/lib/cosmic', () => ({
+  saveUsageRecord: vi.fn(async () => ({}))
+}));
+
+function record(
+  date: string,
+  userId: string,
+  method: UsageMethod,
+  pair: [string, string] | null,
+  promptTokens: number,
+  completionTokens: number,
+  costUsd: number
+): UsageRecord {
+  return {
+    metadata: {
+      user_id: userId,
+      method,
+      source_language: pair?.[0] || '',
+      target_language: pair?.[1] || '',
+      calls: [],
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      cost_usd: costUsd,
+      date
+    }
+  } as unknown as UsageRecord;
+}
+
+describe('summarizeUsage', () => {
+  it('totals records by day, user, language pair and method', () => {
+    const summary = summarizeUsage([
+      record('2026-03-02', 'github-1', 'text', ['English', 'German'], 100, 50, 0.02),
+      record('2026-03-01', 'github-1', 'batch', ['English', 'German'], 300, 200, 0.05),
+      record('2026-03-02', '', 'detect', null, 10, 5, 0.001)
+    ], '2026-03-01', '2026-03-02');
+
+    expect(summary.totals).toEqual({ requests: 3, promptTokens: 410, completionTokens: 255, costUsd: expect.closeTo(0.071) });
+    expect(summary.byDay.map(bucket => [bucket.key, bucket.requests])).toEqual([['2026-03-01', 1], ['2026-03-02', 2]]);
+    expect(summary.byUser.map(bucket => bucket.key)).toEqual(['github-1', 'anonymous']);
+    expect(summary.byLanguagePair[0]).toEqual({
+      key: 'English → German',
+      requests: 2,
+      promptTokens: 400,
+      completionTokens: 250,
+      costUsd: expect.closeTo(0.07)
+    });
+    expect(summary.byLanguagePair[1]?.key).toBe('n/a');
+    expect(summary.byMethod.map(bucket => bucket.key)).toEqual(['batch', 'text', 'detect']);
+  });
+});
+
+describe('withUsageMetering', () => {
+  beforeEach(() => {
+    vi.mocked(saveUsageRecord).mockClear();
+    delete process.env.TRANSLATION_PRICE_PROMPT_PER_1M;
+    delete process.env.TRANSLATION_PRICE_COMPLETION_PER_1M;
+  });
+
+  it('saves the calls made for the request as one record', async () => {
+    const context = { userId: 'github-1', method: 'text' as const, sourceLanguage: 'English', targetLanguage: 'German' };
+
+    await withUsageMetering(context, async () => {
+      recordUsage({ task: 'translate', model: 'gpt-4o-mini-2024-07-18', prompt: 'p', output: 'o', promptTokens: 1000, completionTokens: 500 });
+      // No counts reported: estimated from length
+      recordUsage({ task: 'back-translate', model: 'local', prompt: 'x'.repeat(40), output: 'y'.repeat(9) });
+    });
+
+    expect(saveUsageRecord).toHaveBeenCalledTimes(1);
+    expect(saveUsageRecord).toHaveBeenCalledWith({
+      ...context,
+      calls: [
+        { task: 'translate', model: 'gpt-4o-mini-2024-07-18', prompt_tokens: 1000, completion_tokens: 500, cost_usd: 0.00045 },
+        { task: 'back-translate', model: 'local', prompt_tokens: 10, completion_tokens: 3, cost_usd: 0, estimated: true }
+      ]
+    });
+  });
+
+  it('prices models through the environment when set', async () => {
+    process.env.TRANSLATION_PRICE_PROMPT_PER_1M = '1';
+    process.env.TRANSLATION_PRICE_COMPLETION_PER_1M = '2';
+
+    await withUsageMetering({ method: 'detect' }, async () => {
+      recordUsage({ task: 'detect', model: 'llama3', prompt: '', output: '', promptTokens: 1_000_000, completionTokens: 1_000_000 });
+    });
+
+    expect(vi.mocked(saveUsageRecord).mock.calls[0]?.[0].calls[0]?.cost_usd).toBe(3);
+  });
+
+  it('saves usage when the work throws, and nothing when no calls were made', async () => {
+    await expect(withUsageMetering({ method: 'text' }, async () => {
+      recordUsage({ task: 'translate', model: 'gpt-4o', prompt: '', output: '', promptTokens: 1, completionTokens: 1 });
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+    expect(saveUsageRecord).toHaveBeenCalledTimes(1);
+
+    await withUsageMetering({ method: 'text' }, async () => 'cached');
+    expect(saveUsageRecord).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores calls made outside a metered request', () => {
+    recordUsage({ task: 'translate', model: 'gpt-4o', prompt: 'p', output: 'o' });
+    expect(saveUsageRecord).not.toHaveBeenCalled();
+  });
+});
+
+describe('UsageMeter', () => {
+  it('saves the context as it is when saving', async () => {
+    vi.mocked(saveUsageRecord).mockClear();
+    const usage = new UsageMeter({ userId: null, method: 'text', targetLanguage: 'French' });
+
+    await usage.run(async () => {
+      recordUsage({ task: 'detect', model: 'local', prompt: '', output: '', promptTokens: 0, completionTokens: 0 });
+    });
+    usage.context.sourceLanguage = 'Spanish';
+    usage.save();
+    usage.save();
+
+    expect(saveUsageRecord).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(saveUsageRecord).mock.calls[0]?.[0]).toMatchObject({ sourceLanguage: 'Spanish', targetLanguage: 'French' });
+  });
+});
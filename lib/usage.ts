@@ -0,0 +1,161 @@
+import 'server-only';
+import { AsyncLocalStorage } from 'async_hooks';
+import { saveUsageRecord } from '@/lib/cosmic';
+import type { UsageBucket, UsageCall, UsageMethod, UsageRecord, UsageSummary } from '@/types';
+
+// Token usage and cost metering
+//
+// Providers report every call's token counts through recordUsage. A route
+// runs its work through a UsageMeter (or withUsageMetering), which collects
+// the calls made on its behalf (the translation, back-translation,
+// alternatives, detection...) and saves them as one `usage-records` object.
+// Calls made outside a metered request are not recorded.
+
+export interface UsageContext {
+  userId?: string | null;
+  method: UsageMethod;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+}
+
+// USD per million prompt and completion tokens
+const PRICES: Record<string, { prompt: number; completion: number }> = {
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4': { prompt: 30, completion: 60 },
+  'local': { prompt: 0, completion: 0 }
+};
+
+// Self-hosted and newer models are priced through the environment
+function priceFor(model: string): { prompt: number; completion: number } {
+  const prompt = Number(process.env.TRANSLATION_PRICE_PROMPT_PER_1M);
+  const completion = Number(process.env.TRANSLATION_PRICE_COMPLETION_PER_1M);
+  if (process.env.TRANSLATION_PRICE_PROMPT_PER_1M && Number.isFinite(prompt) && Number.isFinite(completion)) {
+    return { prompt, completion };
+  }
+
+  // Dated snapshots ("gpt-4o-2024-08-06") use their base model's price
+  const base = Object.keys(PRICES)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return base ? PRICES[base]! : { prompt: 0, completion: 0 };
+}
+
+function estimateTokenCount(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const meter = new AsyncLocalStorage<UsageCall[]>();
+
+// Record one provider call. Counts the provider didn't report are estimated
+// from the prompt and output length.
+export function recordUsage(call: {
+  task: string;
+  model: string;
+  prompt: string;
+  output: string;
+  promptTokens?: number;
+  completionTokens?: number;
+}): void {
+  const calls = meter.getStore();
+  if (!calls) return;
+
+  const estimated = call.promptTokens === undefined || call.completionTokens === undefined;
+  const promptTokens = call.promptTokens ?? estimateTokenCount(call.prompt);
+  const completionTokens = call.completionTokens ?? estimateTokenCount(call.output);
+  const price = priceFor(call.model);
+
+  calls.push({
+    task: call.task,
+    model: call.model,
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    cost_usd: (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000,
+    ...(estimated ? { estimated: true } : {})
+  });
+}
+
+// Collects the provider calls made by one request and saves them together.
+// The context is read when saving, so it can be filled in along the way
+// (e.g. with a detected source language).
+export class UsageMeter {
+  private calls: UsageCall[] = [];
+
+  constructor(public context: UsageContext) {}
+
+  // Run part of the request's work, metering the provider calls it makes
+  run<T>(work: () => Promise<T>): Promise<T> {
+    return meter.run(this.calls, work);
+  }
+
+  // Save in the background; a failed save never fails the request
+  save(): void {
+    if (this.calls.length === 0) return;
+
+    const calls = this.calls;
+    this.calls = [];
+    saveUsageRecord({ ...this.context, calls }).catch(error => {
+      console.error('Failed to save usage record:', error);
+    });
+  }
+}
+
+// Run a request's work and save its usage, even if the work throws
+export async function withUsageMetering<T>(context: UsageContext, work: () => Promise<T>): Promise<T> {
+  const usage = new UsageMeter(context);
+  try {
+    return await usage.run(work);
+  } finally {
+    usage.save();
+  }
+}
+
+function addTo(buckets: Map<string, UsageBucket>, key: string, record: UsageRecord) {
+  const bucket = buckets.get(key) || { key, requests: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+  bucket.requests += 1;
+  bucket.promptTokens += record.metadata.prompt_tokens || 0;
+  bucket.completionTokens += record.metadata.completion_tokens || 0;
+  bucket.costUsd += record.metadata.cost_usd || 0;
+  buckets.set(key, bucket);
+}
+
+// Most expensive first
+function byCost(buckets: Map<string, UsageBucket>): UsageBucket[] {
+  return Array.from(buckets.values()).sort((a, b) => b.costUsd - a.costUsd);
+}
+
+// Aggregate usage records into totals by day, user, language pair and method
+export function summarizeUsage(records: UsageRecord[], from: string, to: string): UsageSummary {
+  const days = new Map<string, UsageBucket>();
+  const users = new Map<string, UsageBucket>();
+  const pairs = new Map<string, UsageBucket>();
+  const methods = new Map<string, UsageBucket>();
+  const totals = { requests: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+
+  records.forEach(record => {
+    const { metadata } = record;
+    addTo(days, metadata.date, record);
+    addTo(users, metadata.user_id || 'anonymous', record);
+    addTo(pairs, metadata.source_language && metadata.target_language
+      ? `${metadata.source_language} → ${metadata.target_language}`
+      : 'n/a', record);
+    addTo(methods, metadata.method, record);
+
+    totals.requests += 1;
+    totals.promptTokens += metadata.prompt_tokens || 0;
+    totals.completionTokens += metadata.completion_tokens || 0;
+    totals.costUsd += metadata.cost_usd || 0;
+  });
+
+  return {
+    from,
+    to,
+    totals,
+    byDay: Array.from(days.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    byUser: byCost(users),
+    byLanguagePair: byCost(pairs),
+    byMethod: byCost(methods)
+  };
+}
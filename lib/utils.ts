@@ -17,6 +17,18 @@ export function formatDate(date: string | Date): string {
   });
 }
 
+// Save a blob through a temporary download link
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 // Truncate text to specified length
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
@@ -39,51 +51,6 @@ export function validateTranslationInput(text: string): {
   return { isValid: true };
 }
 
-// Get language flag emoji
-export function getLanguageFlag(language: string): string {
-  const flags: Record<string, string> = {
-    'English': '🇺🇸',
-    'Spanish': '🇪🇸',
-    'French': '🇫🇷',
-    'German': '🇩🇪',
-    'Italian': '🇮🇹',
-    'Portuguese': '🇵🇹',
-    'Russian': '🇷🇺',
-    'Chinese': '🇨🇳',
-    'Japanese': '🇯🇵',
-    'Korean': '🇰🇷',
-    'Arabic': '🇸🇦',
-    'Hindi': '🇮🇳',
-    'Dutch': '🇳🇱',
-    'Swedish': '🇸🇪',
-    'Norwegian': '🇳🇴',
-    'Danish': '🇩🇰',
-    'Finnish': '🇫🇮',
-    'Polish': '🇵🇱',
-    'Czech': '🇨🇿',
-    'Hungarian': '🇭🇺',
-    'Romanian': '🇷🇴',
-    'Bulgarian': '🇧🇬',
-    'Croatian': '🇭🇷',
-    'Serbian': '🇷🇸',
-    'Slovak': '🇸🇰',
-    'Slovenian': '🇸🇮',
-    'Estonian': '🇪🇪',
-    'Latvian': '🇱🇻',
-    'Lithuanian': '🇱🇹',
-    'Greek': '🇬🇷',
-    'Turkish': '🇹🇷',
-    'Hebrew': '🇮🇱',
-    'Thai': '🇹🇭',
-    'Vietnamese': '🇻🇳',
-    'Indonesian': '🇮🇩',
-    'Malay': '🇲🇾',
-    'Tagalog': '🇵🇭'
-  };
-  
-  return flags[language] || '🌐';
-}
-
 // Get contrast color for backgrounds
 export function getContrastColor(backgroundColor: string): string {
   // Simple contrast calculation
@@ -133,22 +100,4 @@ export function debounce<T extends (...args: any[]) => any>(
     clearTimeout(timeout);
     timeout = setTimeout(() => func(...args), wait);
   };
-}
-
-// Get popular language pairs for quick access
-export function getPopularLanguagePairs(): Array<{
-  source: string;
-  target: string;
-  label: string;
-}> {
-  return [
-    { source: 'English', target: 'Spanish', label: 'EN → ES' },
-    { source: 'English', target: 'French', label: 'EN → FR' },
-    { source: 'English', target: 'German', label: 'EN → DE' },
-    { source: 'English', target: 'Chinese', label: 'EN → ZH' },
-    { source: 'Spanish', target: 'English', label: 'ES → EN' },
-    { source: 'French', target: 'English', label: 'FR → EN' },
-    { source: 'German', target: 'English', label: 'DE → EN' },
-    { source: 'Chinese', target: 'English', label: 'ZH → EN' }
-  ];
 }
\ No newline at end of file
@@ -0,0 +1,74 @@
+import type { VoicePreferences, VoiceSettings } from '@/types';
+
+// Voice preferences
+//
+// Speed, pitch and volume apply to everything the app speaks, and a voice can
+// be picked per language. Preferences live in localStorage so they apply on
+// every tab straight away; a user profile, when there is one, seeds them and
+// stores them across devices.
+
+const STORAGE_KEY = 'lingualink.voice-preferences';
+
+export const DEFAULT_VOICE_PREFERENCES: VoicePreferences = {
+  speed: 1,
+  pitch: 1,
+  volume: 1,
+  voices: {}
+};
+
+let current: VoicePreferences | null = null;
+const listeners = new Set<(preferences: VoicePreferences) => void>();
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+}
+
+// Accept stored or profile data of any vintage
+export function normalizeVoicePreferences(data: Partial<VoicePreferences> | null | undefined): VoicePreferences {
+  return {
+    speed: clamp(data?.speed, 0.5, 2, 1),
+    pitch: clamp(data?.pitch, 0, 2, 1),
+    volume: clamp(data?.volume, 0, 1, 1),
+    voices: data?.voices && typeof data.voices === 'object' ? { ...data.voices } : {}
+  };
+}
+
+function load(): VoicePreferences {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return normalizeVoicePreferences(stored ? JSON.parse(stored) : null);
+  } catch (error) {
+    return { ...DEFAULT_VOICE_PREFERENCES, voices: {} };
+  }
+}
+
+export function getVoicePreferences(): VoicePreferences {
+  if (!current) current = load();
+  return current;
+}
+
+export function setVoicePreferences(preferences: VoicePreferences): void {
+  current = normalizeVoicePreferences(preferences);
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch (error) {
+    // Private browsing or storage full: keep them for this page only
+  }
+
+  const saved = current;
+  listeners.forEach(listener => listener(saved));
+}
+
+// Be told when preferences change; returns an unsubscribe function
+export function subscribeVoicePreferences(listener: (preferences: VoicePreferences) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Settings to speak text in a language with
+export function getVoiceSettings(language: string): VoiceSettings {
+  const { speed, pitch, volume, voices = {} } = getVoicePreferences();
+  return { speed, pitch, volume, voice: voices[language] };
+}
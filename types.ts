@@ -35,6 +35,8 @@ interface Translation extends CosmicObject {
     user_id?: string;
     translation_method: 'text' | 'voice' | 'document';
     confidence_score?: number;
+    confidence_method?: ConfidenceMethod;
+    needs_review?: boolean;
     created_at: string;
     session_id?: string;
   };
@@ -45,33 +47,58 @@ interface UserProfile extends CosmicObject {
   type: 'users';
   metadata: {
     email: string;
+    name?: string;
+    // How the account signs in: "credentials", "github", "google" or "local"
+    auth_provider?: string;
+    // scrypt hash for email and password accounts; never sent to clients
+    password_hash?: string;
     preferred_languages: string[];
-    voice_settings: {
-      speed: number;
-      pitch: number;
-      volume: number;
-    };
+    voice_settings: VoicePreferences;
     theme: 'light' | 'dark' | 'system';
     auto_detect: boolean;
     save_history: boolean;
   };
 }
 
+// Someone taking part in a conversation
+interface ConversationParticipant {
+  id: string;
+  name: string;
+  language: string;
+  // Key into the conversation color palette, e.g. "blue"
+  color: string;
+  // Name of the speech synthesis voice used for this participant
+  voice?: string;
+}
+
+// One utterance with its translation into every other participant's language
+interface ConversationMessage {
+  id: string;
+  text: string;
+  // Participant id of the speaker
+  sender: string;
+  language: string;
+  // Translated text keyed by language
+  translations: Record<string, string>;
+  timestamp: string;
+}
+
+// Shared cross-device conversation room
+interface ConversationRoom {
+  // Join code, also used in the join link
+  code: string;
+  participants: ConversationParticipant[];
+  messages: ConversationMessage[];
+  createdAt: string;
+}
+
 // Conversation session
 interface ConversationSession extends CosmicObject {
   type: 'conversations';
   metadata: {
-    participants: {
-      user_1_language: string;
-      user_2_language: string;
-    };
-    messages: {
-      id: string;
-      text: string;
-      translation: string;
-      sender: 'user_1' | 'user_2';
-      timestamp: string;
-    }[];
+    participants: ConversationParticipant[];
+    messages: ConversationMessage[];
+    user_id?: string;
     session_duration?: number;
     status: 'active' | 'completed';
   };
@@ -95,10 +122,103 @@ interface DocumentTranslation extends CosmicObject {
     target_language: string;
     status: 'processing' | 'completed' | 'failed';
     progress: number;
+    error?: string;
+    user_id?: string;
+  };
+}
+
+// Glossary entry enforcing terminology for a language pair
+interface GlossaryEntry extends CosmicObject {
+  type: 'glossaries';
+  metadata: {
+    source_term: string;
+    target_term: string;
+    source_language: string;
+    target_language: string;
+    case_sensitive: boolean;
+    do_not_translate: boolean;
+  };
+}
+
+// Starred translation in a user's phrasebook. The text is copied from the
+// linked translation so the entry outlives it.
+interface PhrasebookEntry extends CosmicObject {
+  type: 'phrasebook-entries';
+  metadata: {
+    // Id of the linked `translations` object
+    translation: string;
+    user_id: string;
+    source_text: string;
+    translated_text: string;
+    source_language: string;
+    target_language: string;
+    // Collection name, e.g. "Travel"; empty when unsorted
+    collection: string;
+  };
+}
+
+// Approved translation imported from a TMX or XLIFF file, reused as an exact
+// translation memory match
+interface MemoryUnit extends CosmicObject {
+  type: 'memory-units';
+  metadata: {
+    source_text: string;
+    translated_text: string;
+    source_language: string;
+    target_language: string;
+    // Name of the file the unit was imported from
+    origin: string;
+    user_id: string;
+  };
+}
+
+// One provider call (translation, back-translation, alternatives, detection, ...)
+interface UsageCall {
+  task: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  // Counted from text length because the provider reported no usage
+  estimated?: boolean;
+}
+
+// Provider usage of one API request
+interface UsageRecord extends CosmicObject {
+  type: 'usage-records';
+  metadata: {
     user_id?: string;
+    method: UsageMethod;
+    source_language?: string;
+    target_language?: string;
+    calls: UsageCall[];
+    prompt_tokens: number;
+    completion_tokens: number;
+    cost_usd: number;
+    // UTC day, "YYYY-MM-DD"
+    date: string;
   };
 }
 
+// Usage totals for one day, user, language pair or method
+interface UsageBucket {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+interface UsageSummary {
+  from: string;
+  to: string;
+  totals: Omit<UsageBucket, 'key'>;
+  byDay: UsageBucket[];
+  byUser: UsageBucket[];
+  byLanguagePair: UsageBucket[];
+  byMethod: UsageBucket[];
+}
+
 // API response types
 interface CosmicResponse<T> {
   objects: T[];
@@ -119,10 +239,129 @@ interface TranslationResponse {
   translatedText: string;
   sourceLanguage: string;
   targetLanguage: string;
-  confidence: number;
+  // null when no score could be produced (confidenceDetails.method is "unavailable")
+  confidence: number | null;
+  confidenceDetails?: ConfidenceDetails;
   alternatives?: string[];
+  detectedLanguage?: string;
+  detection?: LanguageDetection;
+  source?: TranslationSource;
+  memoryMatches?: MemoryMatch[];
+  glossaryViolations?: GlossaryViolation[];
+  // Signed score, sent back when saving the translation to history
+  confidenceToken?: string;
+}
+
+// Filters and page for listing translation history
+interface TranslationHistoryQuery {
+  // Matched case-insensitively against the source and translated text
+  search?: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  method?: TranslationMethod;
+  sessionId?: string;
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  needsReview?: boolean;
+  limit?: number;
+  skip?: number;
+}
+
+interface TranslationHistoryPage {
+  translations: Translation[];
+  total: number;
+  skip: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+// Outcome of importing a TMX or XLIFF file into translation memory
+interface MemoryImportReport {
+  fileName: string;
+  format: 'tmx' | 'xliff';
+  // Source/target pairs found; a multilingual TMX unit counts once per target
+  total: number;
+  added: number;
+  // Already in translation memory, or repeated within the file
+  skipped: number;
+  invalid: number;
+  // Valid units that could not be saved
+  failed: number;
+  // Invalid units by reason, e.g. { 'Unsupported language "tlh"': 12 }
+  invalidReasons: Record<string, number>;
+  // Added units by language pair, e.g. { 'English → Spanish': 120 }
+  addedByPair: Record<string, number>;
+}
+
+// Translation memory import running in the background; the report's counts
+// grow as units are processed
+interface MemoryImportJob {
+  id: string;
+  status: 'processing' | 'completed' | 'failed';
+  report: MemoryImportReport;
+  error?: string;
+  createdAt: string;
+}
+
+// One possible language for a piece of text
+interface LanguageCandidate {
+  // BCP-47 tag, e.g. "pt-BR"
+  code: string;
+  name: string;
+  confidence: number;
+  // Matching entry from the languages list, if there is one
+  language?: Language;
+}
+
+// Structured language detection result; code is "und" when nothing was detected
+interface LanguageDetection {
+  code: string;
+  name: string;
+  language?: Language;
+  confidence: number;
+  candidates: LanguageCandidate[];
+  // Confident, clearly ahead of the runner-up and matched to a known language
+  unambiguous: boolean;
+}
+
+// How a translation's confidence score was derived
+interface ConfidenceDetails {
+  method: ConfidenceMethod;
+  // Geometric mean probability of the generated tokens (0-1)
+  tokenProbability?: number;
+  // Similarity between the source text and the translation rendered back (0-1)
+  backTranslationSimilarity?: number;
+  backTranslation?: string;
+  // Below the review threshold: should be checked by a human
+  needsReview: boolean;
 }
 
+// Translation memory match; similarity is 0-1 (1 for an exact match)
+interface MemoryMatch {
+  sourceText: string;
+  translatedText: string;
+  similarity: number;
+  translationId?: string;
+}
+
+// Glossary term that was required but missing from a translation
+interface GlossaryViolation {
+  entryId: string;
+  sourceTerm: string;
+  expectedTerm: string;
+}
+
+// Batch translation: one result per submitted item, in request order
+interface BatchTranslationItem {
+  id: string;
+  text: string;
+}
+
+type BatchTranslationResult =
+  | { id: string; success: true; translatedText: string }
+  | { id: string; success: false; error: string };
+
 // Voice synthesis types
 interface VoiceSettings {
   speed: number;
@@ -131,6 +370,15 @@ interface VoiceSettings {
   voice?: string;
 }
 
+// Saved voice settings: shared speed/pitch/volume plus a voice per language
+interface VoicePreferences {
+  speed: number;
+  pitch: number;
+  volume: number;
+  // Voice name keyed by language name, e.g. { "Spanish": "Monica" }
+  voices?: Record<string, string>;
+}
+
 // Component props types
 interface TranslatorProps {
   languages: Language[];
@@ -146,8 +394,6 @@ interface LanguageSelectorProps {
 }
 
 interface TranslationHistoryProps {
-  translations: Translation[];
-  onDelete: (id: string) => void;
   onReuse: (translation: Translation) => void;
 }
 
@@ -164,10 +410,25 @@ function isUserProfile(obj: CosmicObject): obj is UserProfile {
   return obj.type === 'users';
 }
 
+function isGlossaryEntry(obj: CosmicObject): obj is GlossaryEntry {
+  return obj.type === 'glossaries';
+}
+
+function isPhrasebookEntry(obj: CosmicObject): obj is PhrasebookEntry {
+  return obj.type === 'phrasebook-entries';
+}
+
+function isMemoryUnit(obj: CosmicObject): obj is MemoryUnit {
+  return obj.type === 'memory-units';
+}
+
 // Utility types
 type SupportedLanguage = string;
 type TranslationMethod = 'text' | 'voice' | 'document';
+type TranslationSource = 'memory' | 'model';
+type ConfidenceMethod = 'memory' | 'logprobs' | 'back-translation' | 'combined' | 'unavailable';
 type Theme = 'light' | 'dark' | 'system';
+type UsageMethod = 'text' | 'batch' | 'detect' | 'document' | 'subtitles' | 'conversation';
 
 // Export all types for use across the application
 export type {
@@ -175,22 +436,50 @@ export type {
   Language,
   Translation,
   UserProfile,
+  ConversationParticipant,
+  ConversationMessage,
+  ConversationRoom,
   ConversationSession,
   DocumentTranslation,
+  GlossaryEntry,
+  PhrasebookEntry,
+  MemoryUnit,
+  UsageCall,
+  UsageRecord,
+  UsageBucket,
+  UsageSummary,
   CosmicResponse,
   TranslationRequest,
   TranslationResponse,
+  TranslationHistoryQuery,
+  TranslationHistoryPage,
+  MemoryImportReport,
+  MemoryImportJob,
+  ConfidenceDetails,
+  LanguageCandidate,
+  LanguageDetection,
+  MemoryMatch,
+  GlossaryViolation,
+  BatchTranslationItem,
+  BatchTranslationResult,
   VoiceSettings,
+  VoicePreferences,
   TranslatorProps,
   LanguageSelectorProps,
   TranslationHistoryProps,
   SupportedLanguage,
   TranslationMethod,
-  Theme
+  TranslationSource,
+  ConfidenceMethod,
+  Theme,
+  UsageMethod
 };
 
 export {
   isLanguage,
   isTranslation,
-  isUserProfile
+  isUserProfile,
+  isGlossaryEntry,
+  isPhrasebookEntry,
+  isMemoryUnit
 };
\ No newline at end of file